@@ -0,0 +1,149 @@
+import type { UseFormReturn } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AvailabilityGrid } from '@/components/AvailabilityGrid';
+import { ModulePicker } from '@/components/ModulePicker';
+import { ModuleMarksInput } from '@/components/ModuleMarksInput';
+import {
+  getVisibleFields,
+  type ApplicationFormData,
+  type FieldDefinition,
+  type FormCatalogue,
+  type StepDefinition,
+} from '@/lib/applicationForm';
+import type { AvailabilitySlot } from '@/lib/availability';
+import type { MarkThreshold } from '@/lib/marks';
+
+interface ApplicationFormFieldsProps {
+  form: UseFormReturn<ApplicationFormData>;
+  step: StepDefinition;
+  catalogue: FormCatalogue;
+  thresholds: MarkThreshold[];
+}
+
+/**
+ * Render the visible fields of one form step from its definition
+ */
+export const ApplicationFormFields = ({ form, step, catalogue, thresholds }: ApplicationFormFieldsProps) => {
+  const { modules } = catalogue;
+  const values = form.watch();
+  const fields = getVisibleFields(step, values);
+
+  const renderField = (definition: FieldDefinition) => (
+    <FormField
+      key={definition.name}
+      control={form.control}
+      name={definition.name}
+      render={({ field }) => {
+        const disabled = definition.disabledWhen?.(values) ?? false;
+
+        const renderControl = () => {
+          switch (definition.type) {
+            case 'textarea':
+              return (
+                <Textarea
+                  placeholder={definition.placeholder}
+                  className={definition.className}
+                  {...field}
+                  value={(field.value as string) ?? ''}
+                />
+              );
+            case 'select':
+              return (
+                <Select
+                  onValueChange={(val) => {
+                    field.onChange(definition.numeric ? parseInt(val) : val);
+                    definition.clears?.forEach(name => form.setValue(name, ''));
+                  }}
+                  value={field.value?.toString()}
+                  disabled={disabled}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder={definition.placeholder} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {definition.options?.(values, catalogue).map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              );
+            case 'modules':
+              return (
+                <ModulePicker
+                  modules={modules}
+                  value={(field.value as string[]) || []}
+                  onChange={field.onChange}
+                  disabled={disabled}
+                />
+              );
+            case 'marks':
+              return (
+                <ModuleMarksInput
+                  modules={modules}
+                  moduleIds={values.subjects_to_tutor || []}
+                  thresholds={thresholds}
+                  value={(field.value as Record<string, number>) || {}}
+                  onChange={field.onChange}
+                />
+              );
+            case 'availability':
+              return <AvailabilityGrid value={(field.value as AvailabilitySlot[]) || []} onChange={field.onChange} />;
+            default:
+              return (
+                <Input
+                  type={definition.type}
+                  placeholder={definition.placeholder}
+                  className={definition.className}
+                  disabled={disabled}
+                  {...field}
+                  value={(field.value as string) ?? ''}
+                />
+              );
+          }
+        };
+
+        return (
+          <FormItem>
+            <FormLabel>{definition.label}{definition.required && ' *'}</FormLabel>
+            {/* Select renders its own FormControl around the trigger */}
+            {definition.type === 'select' ? renderControl() : <FormControl>{renderControl()}</FormControl>}
+            {definition.description && <FormDescription>{definition.description}</FormDescription>}
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+
+  // Pair up consecutive half-width fields into two-column rows
+  const rows: FieldDefinition[][] = [];
+  fields.forEach(definition => {
+    const last = rows[rows.length - 1];
+    if (definition.half && last?.length === 1 && last[0].half) {
+      last.push(definition);
+    } else {
+      rows.push([definition]);
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      {rows.map(row =>
+        row.length === 2 ? (
+          <div key={row[0].name} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {row.map(renderField)}
+          </div>
+        ) : (
+          renderField(row[0])
+        )
+      )}
+    </div>
+  );
+};
+
+export default ApplicationFormFields;
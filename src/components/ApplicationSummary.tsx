@@ -0,0 +1,44 @@
+import { cn } from '@/lib/utils';
+import {
+  FIELD_STEPS,
+  formatFieldValue,
+  getVisibleFields,
+  isWideField,
+  type ApplicationFormValues,
+  type FormCatalogue,
+} from '@/lib/applicationForm';
+
+interface ApplicationSummaryProps {
+  values: ApplicationFormValues;
+  catalogue: FormCatalogue;
+  className?: string;
+  sectionClassName?: string;
+}
+
+/**
+ * Read-only list of every visible answer, grouped by form step
+ */
+export const ApplicationSummary = ({ values, catalogue, className, sectionClassName }: ApplicationSummaryProps) => (
+  <div className={cn('space-y-6', className)}>
+    {FIELD_STEPS.map(step => {
+      const StepIcon = step.icon;
+      return (
+        <section key={step.id} className={sectionClassName}>
+          <h4 className="font-medium mb-2 flex items-center gap-2">
+            <StepIcon className="w-4 h-4" /> {step.heading}
+          </h4>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm bg-muted/50 p-3 rounded-lg">
+            {getVisibleFields(step, values).map(field => (
+              <div key={field.name} className={isWideField(field) ? 'sm:col-span-2' : undefined}>
+                <dt className="text-muted-foreground">{field.label}</dt>
+                <dd className="whitespace-pre-wrap break-words">{formatFieldValue(field, values, catalogue)}</dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      );
+    })}
+  </div>
+);
+
+export default ApplicationSummary;
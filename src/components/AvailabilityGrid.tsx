@@ -0,0 +1,82 @@
+import { Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  TIME_SLOTS,
+  WEEKDAYS,
+  formatTimeRange,
+  isSameSlot,
+  type AvailabilitySlot,
+} from '@/lib/availability';
+
+interface AvailabilityGridProps {
+  value: AvailabilitySlot[];
+  onChange?: (slots: AvailabilitySlot[]) => void;
+  readOnly?: boolean;
+}
+
+export const AvailabilityGrid = ({ value, onChange, readOnly = false }: AvailabilityGridProps) => {
+  const isSelected = (slot: AvailabilitySlot) => value.some(s => isSameSlot(s, slot));
+
+  const toggleSlot = (slot: AvailabilitySlot) => {
+    if (readOnly || !onChange) return;
+    onChange(
+      isSelected(slot)
+        ? value.filter(s => !isSameSlot(s, slot))
+        : [...value, slot]
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-separate border-spacing-1 text-xs">
+        <thead>
+          <tr>
+            <th className="w-24" />
+            {WEEKDAYS.map(day => (
+              <th key={day.value} className="font-medium text-muted-foreground py-1">
+                <span className="hidden sm:inline">{day.label}</span>
+                <span className="sm:hidden">{day.short}</span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {TIME_SLOTS.map(time => (
+            <tr key={time.start}>
+              <th className="text-left font-normal text-muted-foreground whitespace-nowrap pr-2">
+                {formatTimeRange(time.start, time.end)}
+              </th>
+              {WEEKDAYS.map(day => {
+                const slot = { weekday: day.value, start: time.start, end: time.end };
+                const selected = isSelected(slot);
+                return (
+                  <td key={day.value} className="p-0">
+                    <button
+                      type="button"
+                      onClick={() => toggleSlot(slot)}
+                      disabled={readOnly}
+                      aria-pressed={selected}
+                      aria-label={`${day.label} ${formatTimeRange(time.start, time.end)}`}
+                      className={cn(
+                        'w-full h-9 rounded-md border flex items-center justify-center transition-colors',
+                        selected
+                          ? 'bg-primary border-primary text-primary-foreground'
+                          : 'bg-background border-border',
+                        !readOnly && !selected && 'hover:border-primary/50 hover:bg-primary/5',
+                        readOnly && 'cursor-default'
+                      )}
+                    >
+                      {selected && <Check className="w-4 h-4" />}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AvailabilityGrid;
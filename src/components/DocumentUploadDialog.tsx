@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, FileText, ImagePlus, Loader2, X } from 'lucide-react';
+import { logger } from '@/lib/logger';
+import {
+  formatFileSize,
+  isCertificationExpired,
+  toDateInputValue,
+  validateDocumentFile,
+  type DocumentRequirement,
+} from '@/lib/documents';
+import { combineImagesToPdf, compressImage, isCompressibleImage } from '@/lib/documentImages';
+
+interface DocumentUploadDialogProps {
+  /** Requirement the files are for; the dialog is open while this is set */
+  requirement: DocumentRequirement | null;
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  onCancel: () => void;
+  /** Receives the certification date when the requirement asks for one */
+  onUpload: (file: File, certifiedAt: string | null) => void;
+}
+
+/**
+ * Preview files before upload. A single photo is downscaled and compressed;
+ * several (e.g. ID front and back) are combined into one PDF when the
+ * requirement accepts PDFs. Certified documents also ask for the date on
+ * the certification stamp.
+ */
+export const DocumentUploadDialog = ({ requirement, files, onFilesChange, onCancel, onUpload }: DocumentUploadDialogProps) => {
+  const [prepared, setPrepared] = useState<File | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [prepareError, setPrepareError] = useState<string | null>(null);
+  const [certifiedAt, setCertifiedAt] = useState('');
+
+  const isPhotos = files.length > 0 && files.every(isCompressibleImage);
+  const canCombine = isPhotos && !!requirement?.allowed_mime_types.includes('application/pdf');
+  const needsCertification = !!requirement?.certification_max_age_days;
+  const today = toDateInputValue(new Date());
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  useEffect(() => {
+    setCertifiedAt('');
+  }, [requirement]);
+
+  useEffect(() => {
+    if (!requirement || files.length === 0) return;
+
+    let cancelled = false;
+    setPrepared(null);
+    setPrepareError(null);
+    setIsPreparing(true);
+
+    const prepare = async () => {
+      if (!files.every(isCompressibleImage)) return files[0];
+      if (files.length > 1) {
+        return combineImagesToPdf(files, `${requirement.document_type}.pdf`);
+      }
+      const compressed = await compressImage(files[0]);
+      // A PNG-only requirement cannot take the JPEG we re-encode to
+      return requirement.allowed_mime_types.includes(compressed.type) ? compressed : files[0];
+    };
+
+    prepare()
+      .then(file => {
+        if (!cancelled) setPrepared(file);
+      })
+      .catch(error => {
+        logger.error('Error preparing document:', error);
+        if (!cancelled) setPrepareError('Could not process these photos. Try a different file.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreparing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requirement, files]);
+
+  const originalSize = files.reduce((total, file) => total + file.size, 0);
+  const validationError = requirement && prepared ? validateDocumentFile(requirement, prepared) : null;
+  const isFutureDate = !!certifiedAt && certifiedAt > today;
+  const isCertificationOld = !!certifiedAt && !isFutureDate && isCertificationExpired(requirement, certifiedAt);
+
+  return (
+    <Dialog open={!!requirement && files.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Upload {requirement?.label}</DialogTitle>
+          <DialogDescription>
+            {canCombine
+              ? 'Check your photos before uploading. Add the back of a card as a second photo and we will combine them into one PDF.'
+              : 'Check your file before uploading.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          {files.map((file, index) => (
+            <div key={`${file.name}-${index}`} className="relative rounded-lg border overflow-hidden bg-muted/30">
+              {isPhotos ? (
+                <img src={previews[index]} alt={file.name} className="w-full h-40 object-contain" />
+              ) : (
+                <div className="flex flex-col items-center justify-center gap-2 h-40 p-2 text-sm text-muted-foreground">
+                  <FileText className="w-8 h-8" />
+                  <span className="truncate max-w-full">{file.name}</span>
+                </div>
+              )}
+              <Button
+                type="button"
+                variant="secondary"
+                size="icon"
+                className="absolute top-1 right-1 h-7 w-7"
+                aria-label={`Remove ${file.name}`}
+                onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+              {files.length > 1 && (
+                <span className="absolute bottom-1 left-1 text-xs bg-background/80 rounded px-1.5">Page {index + 1}</span>
+              )}
+            </div>
+          ))}
+          {canCombine && (
+            <label className="flex flex-col items-center justify-center gap-2 h-40 rounded-lg border-2 border-dashed text-sm text-muted-foreground cursor-pointer hover:border-primary/50">
+              <input
+                type="file"
+                className="hidden"
+                accept="image/jpeg,image/png"
+                multiple
+                onChange={(e) => {
+                  onFilesChange([...files, ...Array.from(e.target.files ?? [])]);
+                  e.target.value = '';
+                }}
+              />
+              <ImagePlus className="w-6 h-6" />
+              Add photo
+            </label>
+          )}
+        </div>
+
+        <div className="text-sm">
+          {isPreparing ? (
+            <p className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {files.length > 1 ? 'Combining into a PDF...' : 'Compressing...'}
+            </p>
+          ) : prepareError ? (
+            <p className="text-destructive">{prepareError}</p>
+          ) : prepared && (
+            <>
+              <p className="text-muted-foreground">
+                {prepared.name}: {isPhotos && `${formatFileSize(originalSize)} → `}{formatFileSize(prepared.size)}
+              </p>
+              {validationError && (
+                <p className="flex items-start gap-2 text-destructive mt-1">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  {validationError}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {needsCertification && (
+          <div className="space-y-2">
+            <Label htmlFor="certified-at">Date certified</Label>
+            <Input
+              id="certified-at"
+              type="date"
+              max={today}
+              value={certifiedAt}
+              onChange={(e) => setCertifiedAt(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              The date on the certification stamp. Copies must be certified within {requirement?.certification_max_age_days} days of submitting.
+            </p>
+            {isFutureDate && <p className="text-sm text-destructive">The certification date cannot be in the future</p>}
+            {isCertificationOld && (
+              <p className="flex items-start gap-2 text-sm text-warning">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                This copy is too old and will be flagged by reviewers. Please get a freshly certified copy.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={
+              !prepared || isPreparing || !!validationError || (needsCertification && (!certifiedAt || isFutureDate))
+            }
+            onClick={() => prepared && onUpload(prepared, needsCertification ? certifiedAt : null)}
+          >
+            Upload
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentUploadDialog;
@@ -0,0 +1,110 @@
+import type { ReactNode } from 'react';
+import { Eye, FileText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  SCAN_LABELS,
+  VERIFICATION_LABELS,
+  isCertificationExpired,
+  isNewSinceReview,
+  type DocumentRequirement,
+  type DocumentVersion,
+  type VerificationStatus,
+} from '@/lib/documents';
+
+interface DocumentVersionHistoryProps {
+  /** Versions of one document type, newest first */
+  versions: DocumentVersion[];
+  /** Versions uploaded after this are flagged for the reviewer */
+  reviewedAt?: string | null;
+  /** Requirement the versions were uploaded for; certified copies show their date */
+  requirement?: DocumentRequirement;
+  /** Certification age is judged on this date, normally the submission date */
+  certificationCheckedAt?: string | null;
+  onOpen: (version: DocumentVersion) => void;
+  /** Extra controls for a version, e.g. reviewer verification buttons */
+  renderActions?: (version: DocumentVersion) => ReactNode;
+  className?: string;
+}
+
+const verificationBadgeClass: Record<VerificationStatus, string> = {
+  unverified: 'bg-muted text-muted-foreground hover:bg-muted',
+  verified: 'bg-success/20 text-success hover:bg-success/20',
+  rejected: 'bg-destructive/20 text-destructive hover:bg-destructive/20',
+};
+
+const formatUploadedAt = (value: string) =>
+  new Date(value).toLocaleString('en-ZA', { dateStyle: 'medium', timeStyle: 'short' });
+
+export const DocumentVersionHistory = ({
+  versions,
+  reviewedAt,
+  requirement,
+  certificationCheckedAt,
+  onOpen,
+  renderActions,
+  className,
+}: DocumentVersionHistoryProps) => (
+  <ul className={cn('space-y-2', className)}>
+    {versions.map(version => (
+      <li key={version.id} className={cn('text-sm', !version.is_current && 'text-muted-foreground')}>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <FileText className="w-4 h-4 shrink-0" />
+            <span className="font-medium shrink-0">v{version.version}</span>
+            <span className="truncate">{version.file_name}</span>
+            <span className="text-xs shrink-0">{formatUploadedAt(version.uploaded_at)}</span>
+            {version.is_current && <Badge variant="outline" className="text-xs">Current</Badge>}
+            <Badge className={cn('text-xs', verificationBadgeClass[version.verification_status])}>
+              {VERIFICATION_LABELS[version.verification_status]}
+            </Badge>
+            {version.scan_status !== 'clean' && (
+              <Badge
+                className={cn(
+                  'text-xs',
+                  version.scan_status === 'quarantined'
+                    ? 'bg-destructive/20 text-destructive hover:bg-destructive/20'
+                    : 'bg-muted text-muted-foreground hover:bg-muted'
+                )}
+              >
+                {SCAN_LABELS[version.scan_status]}
+              </Badge>
+            )}
+            {version.reused_from && (
+              <Badge variant="outline" className="text-xs">From previous application</Badge>
+            )}
+            {isNewSinceReview(version, reviewedAt) && (
+              <Badge className="text-xs bg-warning/20 text-warning hover:bg-warning/20">New since review</Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {renderActions?.(version)}
+            <Button variant="ghost" size="sm" aria-label={`Open version ${version.version}`} onClick={() => onOpen(version)}>
+              <Eye className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        {requirement?.certification_max_age_days && (
+          <p className="text-xs mt-1 ml-6 flex items-center gap-2">
+            {version.certified_at ? `Certified ${version.certified_at}` : 'Certification date not given'}
+            {isCertificationExpired(
+              requirement,
+              version.certified_at,
+              certificationCheckedAt ? new Date(certificationCheckedAt) : undefined
+            ) && (
+              <Badge className="text-xs bg-warning/20 text-warning hover:bg-warning/20">
+                Older than {requirement.certification_max_age_days} days
+              </Badge>
+            )}
+          </p>
+        )}
+        {version.verification_status === 'rejected' && version.rejection_reason && (
+          <p className="text-xs text-destructive mt-1 ml-6">{version.rejection_reason}</p>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+export default DocumentVersionHistory;
@@ -0,0 +1,37 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { RULE_LABELS, describeOutcome, type RuleOutcome } from '@/lib/eligibility';
+import type { DocumentRequirement } from '@/lib/documents';
+
+interface EligibilityChecklistProps {
+  outcomes: RuleOutcome[];
+  /** Used to label missing documents */
+  documents?: DocumentRequirement[];
+  className?: string;
+}
+
+export const EligibilityChecklist = ({ outcomes, documents = [], className }: EligibilityChecklistProps) => {
+  if (outcomes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No eligibility rules are active</p>;
+  }
+
+  return (
+    <ul className={cn('space-y-2', className)}>
+      {outcomes.map(outcome => (
+        <li key={outcome.rule_type} className="flex items-start gap-2 text-sm">
+          {outcome.passed ? (
+            <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-success" />
+          ) : (
+            <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+          )}
+          <div>
+            <p className="font-medium">{RULE_LABELS[outcome.rule_type]}</p>
+            <p className="text-muted-foreground">{describeOutcome(outcome, documents)}</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default EligibilityChecklist;
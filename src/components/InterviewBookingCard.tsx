@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CalendarClock, ExternalLink, Loader2, MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import {
+  bookInterviewSlot,
+  fetchApplicationBooking,
+  fetchInterviewSlots,
+  fetchSlotAvailability,
+  formatSlotDay,
+  formatSlotLocation,
+  formatSlotTime,
+  type InterviewBooking,
+  type InterviewSlot,
+} from '@/lib/interviews';
+
+interface InterviewBookingCardProps {
+  applicationId: string;
+  cycleId: string;
+}
+
+/**
+ * Lets a shortlisted applicant book, or move, their interview
+ */
+export const InterviewBookingCard = ({ applicationId, cycleId }: InterviewBookingCardProps) => {
+  const [slots, setSlots] = useState<InterviewSlot[]>([]);
+  const [booked, setBooked] = useState<Record<string, number>>({});
+  const [booking, setBooking] = useState<InterviewBooking | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChoosing, setIsChoosing] = useState(false);
+  const [bookingSlotId, setBookingSlotId] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const [slotData, availability, bookingData] = await Promise.all([
+        fetchInterviewSlots(cycleId),
+        fetchSlotAvailability(cycleId),
+        fetchApplicationBooking(applicationId),
+      ]);
+      setSlots(slotData);
+      setBooked(availability);
+      setBooking(bookingData);
+    } catch (error) {
+      logger.error('Error loading interview slots:', error);
+      toast.error('Failed to load interview times');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applicationId, cycleId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const handleBook = async (slot: InterviewSlot) => {
+    setBookingSlotId(slot.id);
+    try {
+      setBooking(await bookInterviewSlot(applicationId, slot.id));
+      setIsChoosing(false);
+      toast.success(`Interview booked for ${formatSlotDay(slot.starts_at)}, ${formatSlotTime(slot)}`);
+      await reload();
+    } catch (error: unknown) {
+      logger.error('Error booking interview:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to book interview');
+      await reload();
+    } finally {
+      setBookingSlotId(null);
+    }
+  };
+
+  const bookedSlot = slots.find(s => s.id === booking?.slot_id);
+  const now = new Date();
+  const upcomingSlots = slots.filter(s => new Date(s.starts_at) > now);
+  const canMove = !!bookedSlot && booking?.attendance === 'scheduled' && new Date(bookedSlot.starts_at) > now;
+
+  return (
+    <Card className="border-primary/50 shadow-md animate-fade-in" style={{ animationDelay: '0.2s' }}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-primary" />
+          Interview
+        </CardTitle>
+        <CardDescription>
+          You have been shortlisted. {bookedSlot ? 'Your interview is booked.' : 'Choose a time for a short interview.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {bookedSlot && (
+              <div className="p-4 rounded-lg border border-primary bg-primary/5 space-y-1">
+                <p className="font-medium">{formatSlotDay(bookedSlot.starts_at)}</p>
+                <p className="text-sm">{formatSlotTime(bookedSlot)}</p>
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <MapPin className="w-4 h-4" />
+                  {formatSlotLocation(bookedSlot)}
+                </p>
+                {bookedSlot.meeting_url && (
+                  <a
+                    href={bookedSlot.meeting_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-primary inline-flex items-center gap-1 hover:underline"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                    Join online
+                  </a>
+                )}
+                {canMove && !isChoosing && (
+                  <div className="pt-2">
+                    <Button variant="outline" size="sm" onClick={() => setIsChoosing(true)}>
+                      Change time
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(!bookedSlot || isChoosing) && (
+              upcomingSlots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No interview times are available yet. Check back soon.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {upcomingSlots.map(slot => {
+                    const remaining = slot.capacity - (booked[slot.id] ?? 0);
+                    const isCurrent = slot.id === booking?.slot_id;
+                    return (
+                      <div key={slot.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">
+                            {formatSlotDay(slot.starts_at)}, {formatSlotTime(slot)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{formatSlotLocation(slot)}</p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {isCurrent ? (
+                            <Badge variant="outline">Your time</Badge>
+                          ) : (
+                            <>
+                              <span className="text-xs text-muted-foreground">
+                                {remaining > 0 ? `${remaining} left` : 'Full'}
+                              </span>
+                              <Button
+                                size="sm"
+                                disabled={remaining <= 0 || !!bookingSlotId}
+                                onClick={() => handleBook(slot)}
+                              >
+                                {bookingSlotId === slot.id && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                                Book
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {isChoosing && (
+                    <Button variant="ghost" size="sm" onClick={() => setIsChoosing(false)}>
+                      Keep current time
+                    </Button>
+                  )}
+                </div>
+              )
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InterviewBookingCard;
@@ -0,0 +1,38 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import type { MarkResult } from '@/lib/marks';
+
+interface MarkBadgeProps {
+  result: MarkResult;
+  threshold: number | null;
+}
+
+export const MarkBadge = ({ result, threshold }: MarkBadgeProps) => {
+  switch (result) {
+    case 'pass':
+      return (
+        <Badge className="bg-success/20 text-success hover:bg-success/20">
+          <CheckCircle2 className="w-3 h-3 mr-1" />
+          Meets {threshold}%
+        </Badge>
+      );
+    case 'fail':
+      return (
+        <Badge className="bg-destructive/20 text-destructive hover:bg-destructive/20">
+          <XCircle className="w-3 h-3 mr-1" />
+          Below {threshold}%
+        </Badge>
+      );
+    case 'missing':
+      return (
+        <Badge variant="outline" className="text-warning border-warning/50">
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          No mark
+        </Badge>
+      );
+    default:
+      return <Badge variant="outline">No minimum set</Badge>;
+  }
+};
+
+export default MarkBadge;
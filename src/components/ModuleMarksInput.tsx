@@ -0,0 +1,66 @@
+import { Input } from '@/components/ui/input';
+import { MarkBadge } from '@/components/MarkBadge';
+import { evaluateMark, resolveThreshold, type MarkThreshold } from '@/lib/marks';
+import type { Module } from '@/lib/modules';
+
+interface ModuleMarksInputProps {
+  modules: Module[];
+  moduleIds: string[];
+  thresholds: MarkThreshold[];
+  value: Record<string, number>;
+  onChange: (marks: Record<string, number>) => void;
+}
+
+export const ModuleMarksInput = ({ modules, moduleIds, thresholds, value, onChange }: ModuleMarksInputProps) => {
+  const selected = modules.filter(m => moduleIds.includes(m.id));
+
+  const setMark = (moduleId: string, raw: string) => {
+    const next = { ...value };
+    if (raw === '') {
+      delete next[moduleId];
+    } else {
+      next[moduleId] = Number(raw);
+    }
+    onChange(next);
+  };
+
+  if (selected.length === 0) {
+    return <p className="text-sm text-muted-foreground">Select the modules you want to tutor first</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {selected.map(module => {
+        const threshold = resolveThreshold(module, thresholds);
+        const result = evaluateMark(value[module.id], threshold);
+
+        return (
+          <div key={module.id} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium">{module.code}</p>
+              <p className="text-xs text-muted-foreground truncate">{module.name}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step={1}
+                inputMode="numeric"
+                placeholder="Mark"
+                aria-label={`Final mark for ${module.code}`}
+                className="w-24"
+                value={value[module.id] ?? ''}
+                onChange={(e) => setMark(module.id, e.target.value)}
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+              <MarkBadge result={result} threshold={threshold} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ModuleMarksInput;
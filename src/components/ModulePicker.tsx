@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+import { formatModule, normalizeModuleCode, type Module } from '@/lib/modules';
+
+interface ModulePickerProps {
+  modules: Module[];
+  value: string[];
+  onChange: (ids: string[]) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+export const ModulePicker = ({
+  modules,
+  value,
+  onChange,
+  placeholder = 'Search modules by code or name',
+  disabled = false,
+}: ModulePickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const selected = modules.filter(m => value.includes(m.id));
+
+  const toggleModule = (id: string) => {
+    onChange(value.includes(id) ? value.filter(v => v !== id) : [...value, id]);
+  };
+
+  // Group by year level so long catalogues stay scannable
+  const yearLevels = Array.from(new Set(modules.map(m => m.year_level))).sort((a, b) => a - b);
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled}
+            className="w-full justify-between font-normal"
+          >
+            <span className="text-muted-foreground">
+              {selected.length > 0 ? `${selected.length} selected` : placeholder}
+            </span>
+            <ChevronsUpDown className="w-4 h-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="e.g., MAT 112" />
+            <CommandList>
+              <CommandEmpty>No modules found</CommandEmpty>
+              {yearLevels.map(level => (
+                <CommandGroup key={level} heading={`Year ${level}`}>
+                  {modules
+                    .filter(m => m.year_level === level)
+                    .map(module => (
+                      <CommandItem
+                        key={module.id}
+                        value={formatModule(module)}
+                        keywords={[normalizeModuleCode(module.code), module.department]}
+                        onSelect={() => toggleModule(module.id)}
+                      >
+                        <Check className={cn('w-4 h-4 mr-2', value.includes(module.id) ? 'opacity-100' : 'opacity-0')} />
+                        <span className="font-medium mr-2">{module.code}</span>
+                        <span className="text-muted-foreground truncate">{module.name}</span>
+                      </CommandItem>
+                    ))}
+                </CommandGroup>
+              ))}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map(module => (
+            <Badge key={module.id} variant="secondary" className="gap-1">
+              {module.code}
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => toggleModule(module.id)}
+                  aria-label={`Remove ${module.code}`}
+                  className="rounded-full hover:text-destructive"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModulePicker;
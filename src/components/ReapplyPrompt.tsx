@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { History, Loader2 } from 'lucide-react';
+import type { PreviousApplication } from '@/lib/applications';
+
+interface ReapplyPromptProps {
+  previous: PreviousApplication;
+  isStarting: boolean;
+  onStart: (reuseDocuments: boolean) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Offer to start from a rejected or withdrawn application instead of a blank form
+ */
+export const ReapplyPrompt = ({ previous, isStarting, onStart, onDismiss }: ReapplyPromptProps) => {
+  const [reuseDocuments, setReuseDocuments] = useState(true);
+  const cycleName = previous.recruitment_cycles?.name;
+
+  return (
+    <Card className="border-primary/30 shadow-md mb-6 animate-fade-in">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          Start from your previous application?
+        </CardTitle>
+        <CardDescription>
+          We can copy your personal details, academic record, modules and experience from your
+          {cycleName ? ` ${cycleName}` : ' previous'} application, which was{' '}
+          {previous.status === 'withdrawn' ? 'withdrawn' : 'not successful'}. That application stays as it was.
+          Check every step and update your registration year, availability and motivation letter before submitting.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="reuse-documents"
+            checked={reuseDocuments}
+            onCheckedChange={(checked) => setReuseDocuments(checked === true)}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="reuse-documents">Reuse documents that are still valid</Label>
+            <p className="text-xs text-muted-foreground">
+              Rejected files and certified copies that are now too old are left out. Reused documents are checked
+              again by a reviewer.
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button type="button" onClick={() => onStart(reuseDocuments)} disabled={isStarting}>
+            {isStarting && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Start from previous application
+          </Button>
+          <Button type="button" variant="outline" onClick={onDismiss} disabled={isStarting}>
+            Start a blank application
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReapplyPrompt;
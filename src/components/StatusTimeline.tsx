@@ -0,0 +1,58 @@
+import { cn } from '@/lib/utils';
+import { describeStatusEvent, type ApplicationStatus, type StatusEvent } from '@/lib/statusEvents';
+
+interface StatusTimelineProps {
+  /** Oldest first */
+  events: StatusEvent[];
+  /** Changes made by this user are attributed to "You" */
+  currentUserId?: string;
+  /** Display names by user id; reviewers are otherwise shown as "Reviewer" */
+  actorNames?: Record<string, string>;
+  className?: string;
+}
+
+const dotClass: Record<ApplicationStatus, string> = {
+  draft: 'bg-muted-foreground',
+  pending: 'bg-warning',
+  under_review: 'bg-primary',
+  interview: 'bg-accent',
+  approved: 'bg-success',
+  rejected: 'bg-destructive',
+  withdrawn: 'bg-muted-foreground/50',
+};
+
+const formatEventTime = (value: string) =>
+  new Date(value).toLocaleString('en-ZA', { dateStyle: 'medium', timeStyle: 'short' });
+
+export const StatusTimeline = ({ events, currentUserId, actorNames, className }: StatusTimelineProps) => {
+  const describeActor = (actorId: string | null) => {
+    if (!actorId) return null;
+    if (actorId === currentUserId) return 'You';
+    return actorNames?.[actorId] ?? 'Reviewer';
+  };
+
+  if (events.length === 0) {
+    return <p className={cn('text-sm text-muted-foreground', className)}>No status changes recorded yet</p>;
+  }
+
+  return (
+    <ol className={cn('relative space-y-4 border-l border-border ml-1.5', className)}>
+      {events.map(event => {
+        const actor = describeActor(event.actor_id);
+        return (
+          <li key={event.id} className="pl-5 relative">
+            <span className={cn('absolute -left-1.5 top-1.5 w-3 h-3 rounded-full', dotClass[event.to_status])} />
+            <p className="text-sm font-medium">{describeStatusEvent(event)}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatEventTime(event.created_at)}
+              {actor && ` • ${actor}`}
+            </p>
+            {event.reason && <p className="text-sm text-muted-foreground mt-1">{event.reason}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default StatusTimeline;
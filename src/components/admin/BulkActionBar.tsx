@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle2, Clock, Download, Loader2, UserCheck, X, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { fetchReviewers, type Reviewer } from '@/lib/reviewers';
+import {
+  BULK_ACTION_LABELS,
+  REJECTION_TEMPLATES,
+  runBulkAction,
+  type BulkAction,
+  type BulkResult,
+} from '@/lib/bulkActions';
+
+interface SelectedApplication {
+  id: string;
+  full_name: string;
+  student_number: string;
+}
+
+interface BulkActionBarProps {
+  applications: SelectedApplication[];
+  canAssign: boolean;
+  onCompleted: (results: BulkResult[]) => void;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+/**
+ * Actions for the applications ticked in the admin list. Every action is
+ * confirmed first and ends with a summary of which rows succeeded.
+ */
+export const BulkActionBar = ({ applications, canAssign, onCompleted, onExport, onClear }: BulkActionBarProps) => {
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [reviewerId, setReviewerId] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<BulkResult[] | null>(null);
+  // Names are kept from the run, as the selection changes once it finishes
+  const [resultNames, setResultNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (action !== 'assign_reviewer') return;
+
+    fetchReviewers()
+      .then(setReviewers)
+      .catch(error => {
+        logger.error('Error fetching reviewers:', error);
+        toast.error('Failed to load reviewers');
+      });
+  }, [action]);
+
+  const count = applications.length;
+
+  const openAction = (next: BulkAction) => {
+    setAction(next);
+    setResults(null);
+    setReason('');
+    setReviewerId('');
+  };
+
+  const closeDialog = (open: boolean) => {
+    if (open || isRunning) return;
+    setAction(null);
+    setResults(null);
+  };
+
+  const handleRun = async () => {
+    if (!action) return;
+
+    if (action === 'reject' && !reason.trim()) {
+      toast.error('Please provide a reason for rejection');
+      return;
+    }
+
+    if (action === 'assign_reviewer' && !reviewerId) {
+      toast.error('Choose a reviewer to assign');
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      const data = await runBulkAction(applications.map(a => a.id), action, {
+        reason: action === 'reject' ? reason : undefined,
+        reviewerId: action === 'assign_reviewer' ? reviewerId : undefined,
+      });
+      setResultNames(Object.fromEntries(applications.map(a => [a.id, `${a.full_name} (${a.student_number})`])));
+      setResults(data);
+      onCompleted(data);
+    } catch (error: unknown) {
+      logger.error('Error running bulk action:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update applications');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const succeeded = results?.filter(r => r.succeeded) ?? [];
+  const failed = results?.filter(r => !r.succeeded) ?? [];
+
+  return (
+    <>
+      {count > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-3 mb-4 rounded-lg bg-muted/50">
+          <span className="text-sm font-medium mr-auto">{count} selected</span>
+          <Button variant="outline" size="sm" onClick={() => openAction('under_review')}>
+            <Clock className="w-4 h-4 mr-2" />
+            Move to Review
+          </Button>
+          <Button size="sm" onClick={() => openAction('approve')} className="bg-success hover:bg-success/90 text-success-foreground">
+            <CheckCircle2 className="w-4 h-4 mr-2" />
+            Approve
+          </Button>
+          <Button variant="destructive" size="sm" onClick={() => openAction('reject')}>
+            <XCircle className="w-4 h-4 mr-2" />
+            Reject
+          </Button>
+          {canAssign && (
+            <Button variant="outline" size="sm" onClick={() => openAction('assign_reviewer')}>
+              <UserCheck className="w-4 h-4 mr-2" />
+              Assign Reviewer
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={onExport}>
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            <X className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={action !== null} onOpenChange={closeDialog}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{action && BULK_ACTION_LABELS[action]}</DialogTitle>
+            <DialogDescription>
+              {results
+                ? `${succeeded.length} of ${results.length} applications updated`
+                : `Applies to ${count} selected ${count === 1 ? 'application' : 'applications'}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {results ? (
+            <ul className="space-y-2 text-sm">
+              {[...failed, ...succeeded].map(result => (
+                <li key={result.application_id} className="flex items-start justify-between gap-4">
+                  <span className="min-w-0">
+                    <span className="block truncate">{resultNames[result.application_id] ?? 'Application'}</span>
+                    <span className="text-xs text-muted-foreground">{result.message}</span>
+                  </span>
+                  <Badge variant={result.succeeded ? 'secondary' : 'destructive'} className="shrink-0">
+                    {result.succeeded ? 'Done' : 'Failed'}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          ) : action === 'reject' ? (
+            <div className="space-y-3">
+              <Select
+                onValueChange={(label) => setReason(REJECTION_TEMPLATES.find(t => t.label === label)?.reason ?? '')}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Start from a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {REJECTION_TEMPLATES.map(template => (
+                    <SelectItem key={template.label} value={template.label}>{template.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Textarea
+                placeholder="Reason sent to every selected applicant"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="min-h-[100px]"
+              />
+            </div>
+          ) : action === 'assign_reviewer' ? (
+            <Select value={reviewerId} onValueChange={setReviewerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reviewer" />
+              </SelectTrigger>
+              <SelectContent>
+                {reviewers.map(reviewer => (
+                  <SelectItem key={reviewer.id} value={reviewer.id}>
+                    {reviewer.full_name || reviewer.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Applications that cannot be changed are skipped and listed afterwards.
+            </p>
+          )}
+
+          <DialogFooter>
+            {results ? (
+              <Button onClick={() => closeDialog(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => closeDialog(false)} disabled={isRunning}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleRun}
+                  disabled={isRunning}
+                  variant={action === 'reject' ? 'destructive' : 'default'}
+                >
+                  {isRunning && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                  {action && BULK_ACTION_LABELS[action]}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download, ExternalLink, Loader2, RotateCw, ShieldAlert, ZoomIn, ZoomOut } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import {
+  getDocumentLabel,
+  getSignedDocumentUrl,
+  isPreviewableImage,
+  type DocumentRequirement,
+  type DocumentVersion,
+} from '@/lib/documents';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+
+interface DocumentPreviewProps {
+  /** Every version of every document on the application */
+  versions: DocumentVersion[];
+  requirements: DocumentRequirement[];
+  /** Version to show; defaults to the current version of the first document */
+  activeVersionId: string | null;
+  onActiveVersionChange: (versionId: string) => void;
+}
+
+/**
+ * Embedded viewer for an applicant's documents, one tab per document type.
+ * Files load through short-lived signed URLs requested when a tab opens.
+ * Only files that passed the content check are shown.
+ */
+export const DocumentPreview = ({ versions, requirements, activeVersionId, onActiveVersionChange }: DocumentPreviewProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+
+  const currentVersions = versions.filter(v => v.is_current);
+  const active = versions.find(v => v.id === activeVersionId) ?? currentVersions[0];
+
+  const activePath = active?.scan_status === 'clean' ? active.file_path : undefined;
+
+  useEffect(() => {
+    if (!activePath) return;
+
+    let cancelled = false;
+    setUrl(null);
+    setZoom(1);
+    setRotation(0);
+    setIsLoading(true);
+
+    getSignedDocumentUrl(activePath)
+      .then(signedUrl => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch(error => {
+        logger.error('Error loading document preview:', error);
+        if (!cancelled) toast.error('Failed to load document preview');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activePath]);
+
+  if (!active) {
+    return <p className="text-sm text-muted-foreground">No documents uploaded</p>;
+  }
+
+  const isImage = isPreviewableImage(active.mime_type);
+
+  const handleDownload = async () => {
+    try {
+      window.open(await getSignedDocumentUrl(active.file_path, active.file_name), '_blank');
+    } catch (error) {
+      logger.error('Error downloading document:', error);
+      toast.error('Failed to download document');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Tabs
+        value={active.document_type}
+        onValueChange={(documentType) => {
+          const current = currentVersions.find(v => v.document_type === documentType);
+          if (current) onActiveVersionChange(current.id);
+        }}
+      >
+        <TabsList className="flex-wrap h-auto">
+          {currentVersions.map(version => (
+            <TabsTrigger key={version.document_type} value={version.document_type} className="text-xs">
+              {getDocumentLabel(requirements, version.document_type)}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground truncate">
+          v{active.version} • {active.file_name}
+          {!active.is_current && ' • superseded'}
+        </p>
+        <div className="flex items-center gap-1 shrink-0">
+          {isImage && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Zoom out"
+                disabled={zoom <= MIN_ZOOM}
+                onClick={() => setZoom(z => Math.max(MIN_ZOOM, z - ZOOM_STEP))}
+              >
+                <ZoomOut className="w-4 h-4" />
+              </Button>
+              <span className="text-xs w-10 text-center">{Math.round(zoom * 100)}%</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Zoom in"
+                disabled={zoom >= MAX_ZOOM}
+                onClick={() => setZoom(z => Math.min(MAX_ZOOM, z + ZOOM_STEP))}
+              >
+                <ZoomIn className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" aria-label="Rotate" onClick={() => setRotation(r => (r + 90) % 360)}>
+                <RotateCw className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+          {url && (
+            <Button variant="ghost" size="icon" aria-label="Open in new tab" asChild>
+              <a href={url} target="_blank" rel="noreferrer">
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            </Button>
+          )}
+          {active.scan_status === 'clean' && (
+            <Button variant="ghost" size="icon" aria-label="Download" onClick={handleDownload}>
+              <Download className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="h-[65vh] rounded-lg border bg-muted/30 overflow-auto flex items-center justify-center">
+        {active.scan_status === 'quarantined' ? (
+          <div className="flex flex-col items-center gap-2 p-6 text-center text-sm text-destructive">
+            <ShieldAlert className="w-8 h-8" />
+            <p className="font-medium">Quarantined</p>
+            <p className="text-muted-foreground">{active.scan_detail}</p>
+          </div>
+        ) : active.scan_status === 'pending' ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Checking file content...
+          </p>
+        ) : isLoading || !url ? (
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        ) : isImage ? (
+          <img
+            src={url}
+            alt={active.file_name}
+            className="max-w-full max-h-full object-contain transition-transform origin-center"
+            style={{ transform: `scale(${zoom}) rotate(${rotation}deg)` }}
+          />
+        ) : (
+          <iframe src={url} title={active.file_name} className="w-full h-full rounded-lg" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPreview;
@@ -0,0 +1,352 @@
+import { useState } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import {
+  APPLICANT_CATEGORY_LABELS,
+  DOCUMENT_MIME_TYPES,
+  formatAllowedTypes,
+  type ApplicantCategory,
+  type DocumentRequirement,
+} from '@/lib/documents';
+import type { Faculty } from '@/lib/faculties';
+
+const ALL = 'all';
+
+const requirementSchema = z.object({
+  label: z.string().trim().min(3, 'Label is required').max(100),
+  description: z.string().trim().max(200),
+  allowed_mime_types: z.array(z.string()).min(1, 'Allow at least one file type'),
+  max_size_mb: z.coerce.number().min(1, 'At least 1MB').max(10, 'Uploads are limited to 10MB'),
+  certification_max_age_days: z.coerce.number().int().min(0).max(365, 'At most 365 days'),
+  is_required: z.boolean(),
+  faculty_id: z.string(),
+  applicant_category: z.enum([ALL, 'local', 'international']),
+});
+
+type RequirementFormData = z.infer<typeof requirementSchema>;
+
+/** Storage key for a new document type, e.g. "Study Permit" -> "study_permit" */
+const toDocumentType = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+interface DocumentRequirementsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  requirements: DocumentRequirement[];
+  faculties: Faculty[];
+  onRequirementsChanged: () => void;
+}
+
+export const DocumentRequirementsDialog = ({
+  open,
+  onOpenChange,
+  requirements,
+  faculties,
+  onRequirementsChanged,
+}: DocumentRequirementsDialogProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const form = useForm<RequirementFormData>({
+    resolver: zodResolver(requirementSchema),
+    defaultValues: {
+      label: '',
+      description: '',
+      allowed_mime_types: ['application/pdf', 'image/jpeg', 'image/png'],
+      max_size_mb: 5,
+      certification_max_age_days: 0,
+      is_required: true,
+      faculty_id: ALL,
+      applicant_category: ALL,
+    },
+  });
+
+  const describeScope = (requirement: DocumentRequirement) => {
+    const faculty = faculties.find(f => f.id === requirement.faculty_id)?.name;
+    const category = requirement.applicant_category && APPLICANT_CATEGORY_LABELS[requirement.applicant_category];
+    return [faculty ?? 'All faculties', category ?? 'All applicants'].join(' • ');
+  };
+
+  const handleCreate = async (data: RequirementFormData) => {
+    const documentType = toDocumentType(data.label);
+    if (!/^[a-z]/.test(documentType)) {
+      form.setError('label', { message: 'Label must start with a letter' });
+      return;
+    }
+    if (requirements.some(r => r.document_type === documentType)) {
+      form.setError('label', { message: 'A document with this label already exists' });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { error } = await supabase
+        .from('document_requirements')
+        .insert({
+          document_type: documentType,
+          label: data.label.trim(),
+          description: data.description.trim(),
+          allowed_mime_types: data.allowed_mime_types,
+          max_size_mb: data.max_size_mb,
+          certification_max_age_days: data.certification_max_age_days || null,
+          is_required: data.is_required,
+          faculty_id: data.faculty_id === ALL ? null : data.faculty_id,
+          applicant_category: data.applicant_category === ALL ? null : data.applicant_category,
+          sort_order: Math.max(0, ...requirements.map(r => r.sort_order)) + 1,
+        });
+
+      if (error) throw error;
+
+      toast.success(`${data.label.trim()} added`);
+      form.reset();
+      onRequirementsChanged();
+    } catch (error: unknown) {
+      logger.error('Error creating document requirement:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add document requirement');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleUpdate = async (
+    requirement: DocumentRequirement,
+    changes: Partial<Pick<DocumentRequirement, 'is_active' | 'is_required'>>
+  ) => {
+    setUpdatingId(requirement.id);
+    try {
+      const { error } = await supabase
+        .from('document_requirements')
+        .update(changes)
+        .eq('id', requirement.id);
+
+      if (error) throw error;
+
+      toast.success(`${requirement.label} updated`);
+      onRequirementsChanged();
+    } catch (error) {
+      logger.error('Error updating document requirement:', error);
+      toast.error('Failed to update document requirement');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Document Requirements</DialogTitle>
+          <DialogDescription>
+            Applicants are asked for the active documents that match their faculty and applicant type. Optional documents can be uploaded but are not enforced.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {requirements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No document requirements configured</p>
+          ) : (
+            requirements.map(requirement => (
+              <div key={requirement.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{requirement.label}</span>
+                    {!requirement.is_required && <Badge variant="secondary">Optional</Badge>}
+                    {!requirement.is_active && <Badge variant="outline">Retired</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {describeScope(requirement)} • {formatAllowedTypes(requirement)}, max {requirement.max_size_mb}MB
+                    {requirement.certification_max_age_days && ` • certified within ${requirement.certification_max_age_days} days`}
+                  </p>
+                </div>
+                {updatingId === requirement.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => handleUpdate(requirement, { is_required: !requirement.is_required })}>
+                      {requirement.is_required ? 'Make Optional' : 'Make Required'}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleUpdate(requirement, { is_active: !requirement.is_active })}>
+                      {requirement.is_active ? 'Retire' : 'Reactivate'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleCreate)} className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">New Document</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Label</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Study Permit" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Shown to applicants under the label" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="faculty_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Faculty</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All faculties</SelectItem>
+                        {faculties.filter(f => f.is_active).map(faculty => (
+                          <SelectItem key={faculty.id} value={faculty.id}>{faculty.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="applicant_category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Applicant Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All applicants</SelectItem>
+                        {(Object.keys(APPLICANT_CATEGORY_LABELS) as ApplicantCategory[]).map(category => (
+                          <SelectItem key={category} value={category}>{APPLICANT_CATEGORY_LABELS[category]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="allowed_mime_types"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Allowed File Types</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {Object.entries(DOCUMENT_MIME_TYPES).map(([mimeType, label]) => (
+                      <label key={mimeType} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(mimeType)}
+                          onCheckedChange={(checked) => field.onChange(
+                            checked ? [...field.value, mimeType] : field.value.filter(t => t !== mimeType)
+                          )}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="max_size_mb"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Size (MB)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={10} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="certification_max_age_days"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Certified Within (days)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={365} {...field} />
+                    </FormControl>
+                    <FormDescription>0 if it need not be certified</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="is_required"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Required</FormLabel>
+                    <div className="flex items-center gap-2 h-10">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormDescription className="!mt-0">
+                        {field.value ? 'Must be uploaded to submit' : 'Applicants may skip it'}
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                Add Document
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentRequirementsDialog;
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, Loader2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import type { DocumentVersion, VerificationStatus } from '@/lib/documents';
+
+interface DocumentVerificationControlsProps {
+  version: DocumentVersion;
+  reviewerId: string | undefined;
+  onVerificationChanged: (version: DocumentVersion) => void;
+}
+
+/**
+ * Verify or reject one uploaded document version. Rejections need a reason,
+ * which the student sees next to the re-upload prompt on their dashboard.
+ */
+export const DocumentVerificationControls = ({
+  version,
+  reviewerId,
+  onVerificationChanged,
+}: DocumentVerificationControlsProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRejectOpen, setIsRejectOpen] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const updateVerification = async (status: VerificationStatus, rejectionReason: string | null = null) => {
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('application_documents')
+        .update({
+          verification_status: status,
+          verified_by: status === 'unverified' ? null : reviewerId,
+          verified_at: status === 'unverified' ? null : new Date().toISOString(),
+          rejection_reason: rejectionReason,
+        })
+        .eq('id', version.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast.success(status === 'verified' ? 'Document verified' : status === 'rejected' ? 'Document rejected' : 'Verification cleared');
+      setIsRejectOpen(false);
+      setReason('');
+      onVerificationChanged(data);
+    } catch (error) {
+      logger.error('Error updating document verification:', error);
+      toast.error('Failed to update document verification');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isSaving) {
+    return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+  }
+
+  if (version.verification_status !== 'unverified') {
+    return (
+      <Button variant="ghost" size="sm" onClick={() => updateVerification('unverified')}>
+        Undo
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" className="text-success" onClick={() => updateVerification('verified')}>
+        <Check className="w-4 h-4 mr-1" />
+        Verify
+      </Button>
+      <Popover open={isRejectOpen} onOpenChange={setIsRejectOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-destructive">
+            <X className="w-4 h-4 mr-1" />
+            Reject
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-2">
+          <Textarea
+            placeholder="What needs to change? The student will see this."
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="min-h-[80px]"
+          />
+          <div className="flex justify-end">
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={!reason.trim()}
+              onClick={() => updateVerification('rejected', reason.trim())}
+            >
+              Reject Document
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+};
+
+export default DocumentVerificationControls;
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import type { DocumentRequirement } from '@/lib/documents';
+import {
+  RULE_LABELS,
+  describeRule,
+  getRuleParams,
+  type EligibilityRule,
+  type RuleParams,
+} from '@/lib/eligibility';
+
+interface EligibilityRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rules: EligibilityRule[];
+  documents: DocumentRequirement[];
+  onRulesChanged: () => void;
+}
+
+const parseOptionalNumber = (value: string) => (value === '' ? null : Number(value));
+
+export const EligibilityRulesDialog = ({ open, onOpenChange, rules, documents, onRulesChanged }: EligibilityRulesDialogProps) => {
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, RuleParams>>({});
+
+  const getDraft = (rule: EligibilityRule) => drafts[rule.id] ?? getRuleParams(rule);
+
+  const setDraft = (rule: EligibilityRule, params: RuleParams) =>
+    setDrafts(prev => ({ ...prev, [rule.id]: params }));
+
+  const updateRule = async (rule: EligibilityRule, changes: Partial<Pick<EligibilityRule, 'is_active' | 'params'>>) => {
+    setUpdatingId(rule.id);
+    try {
+      const { error } = await supabase
+        .from('eligibility_rules')
+        .update(changes)
+        .eq('id', rule.id);
+
+      if (error) throw error;
+
+      toast.success(`${RULE_LABELS[rule.rule_type]} updated`);
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[rule.id];
+        return next;
+      });
+      onRulesChanged();
+    } catch (error) {
+      logger.error('Error updating eligibility rule:', error);
+      toast.error('Failed to update eligibility rule');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleSaveParams = (rule: EligibilityRule) => {
+    const draft = getDraft(rule);
+    const params =
+      rule.rule_type === 'age_range'
+        ? { min: draft.min ?? null, max: draft.max ?? null }
+        : rule.rule_type === 'min_year_of_study'
+          ? { min: draft.min ?? 1 }
+          : {};
+
+    updateRule(rule, { params });
+  };
+
+  const renderParamsEditor = (rule: EligibilityRule) => {
+    const draft = getDraft(rule);
+
+    switch (rule.rule_type) {
+      case 'min_year_of_study':
+        return (
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${rule.id}-min`} className="text-xs">Minimum year</Label>
+            <Input
+              id={`${rule.id}-min`}
+              type="number"
+              min={1}
+              max={7}
+              className="w-20 h-8"
+              value={draft.min ?? ''}
+              onChange={(e) => setDraft(rule, { ...draft, min: parseOptionalNumber(e.target.value) })}
+            />
+          </div>
+        );
+      case 'age_range':
+        return (
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${rule.id}-min`} className="text-xs">Min age</Label>
+            <Input
+              id={`${rule.id}-min`}
+              type="number"
+              min={0}
+              className="w-20 h-8"
+              value={draft.min ?? ''}
+              onChange={(e) => setDraft(rule, { ...draft, min: parseOptionalNumber(e.target.value) })}
+            />
+            <Label htmlFor={`${rule.id}-max`} className="text-xs">Max age</Label>
+            <Input
+              id={`${rule.id}-max`}
+              type="number"
+              min={0}
+              className="w-20 h-8"
+              value={draft.max ?? ''}
+              onChange={(e) => setDraft(rule, { ...draft, max: parseOptionalNumber(e.target.value) })}
+            />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Eligibility Rules</DialogTitle>
+          <DialogDescription>
+            Active rules are checked when an application is submitted. Changes apply to applications evaluated afterwards.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No eligibility rules configured</p>
+          ) : (
+            rules.map(rule => {
+              const editor = renderParamsEditor(rule);
+              return (
+                <div key={rule.id} className="p-3 rounded-lg border space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium">{RULE_LABELS[rule.rule_type]}</p>
+                      <p className="text-xs text-muted-foreground">{describeRule(rule, documents)}</p>
+                    </div>
+                    {updatingId === rule.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                    ) : (
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => updateRule(rule, { is_active: checked })}
+                        aria-label={`Toggle ${RULE_LABELS[rule.rule_type]}`}
+                      />
+                    )}
+                  </div>
+                  {editor && (
+                    <div className="flex flex-wrap items-end justify-between gap-3">
+                      {editor}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!drafts[rule.id] || updatingId === rule.id}
+                        onClick={() => handleSaveParams(rule)}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EligibilityRulesDialog;
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import type { Module } from '@/lib/modules';
+import type { DocumentRequirement } from '@/lib/documents';
+import { EXPORT_FORMATS, downloadFile, toCsv, toXlsx, type ExportFormat } from '@/lib/exports';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_COLUMN_GROUPS,
+  buildExportRows,
+  fetchExportData,
+} from '@/lib/applicationExport';
+
+// The last column choice is remembered, as the same list is exported every week
+const COLUMNS_STORAGE_KEY = 'admin-export-columns';
+
+const loadColumnKeys = () => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) ?? 'null');
+    if (Array.isArray(stored)) {
+      const keys = stored.filter((key): key is string => EXPORT_COLUMNS.some(c => c.key === key));
+      if (keys.length > 0) return keys;
+    }
+  } catch (error) {
+    logger.error('Failed to read export columns:', error);
+  }
+  return DEFAULT_EXPORT_COLUMNS;
+};
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  count: number;
+  /** Ids of the applications to export, in the order they should appear */
+  loadApplicationIds: () => Promise<string[]>;
+  /** What is being exported, e.g. "12 filtered applications" */
+  description: string;
+  fileName: string;
+  modules: Module[];
+  requirements: DocumentRequirement[];
+  statusLabels: Record<string, string>;
+}
+
+/**
+ * Download applications as CSV or Excel with the columns the admin picks.
+ * The file is built in the browser, fetching the exported applications
+ * with their scores, status history and documents when it is generated.
+ */
+export const ExportDialog = ({
+  open,
+  onOpenChange,
+  count,
+  loadApplicationIds,
+  description,
+  fileName,
+  modules,
+  requirements,
+  statusLabels,
+}: ExportDialogProps) => {
+  const [columnKeys, setColumnKeys] = useState<string[]>(loadColumnKeys);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setColumnKeys(prev => checked ? [...prev, key] : prev.filter(k => k !== key));
+  };
+
+  const handleExport = async () => {
+    if (columnKeys.length === 0) {
+      toast.error('Choose at least one column to export');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const { applications, ...data } = await fetchExportData(await loadApplicationIds());
+      const rows = buildExportRows(applications, columnKeys, { modules, requirements, statusLabels, ...data });
+
+      const { extension, mimeType } = EXPORT_FORMATS[format];
+      downloadFile(
+        format === 'csv' ? toCsv(rows) : toXlsx(rows, 'Applications'),
+        `${fileName}.${extension}`,
+        mimeType
+      );
+
+      localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(columnKeys));
+      onOpenChange(false);
+    } catch (error) {
+      logger.error('Error exporting applications:', error);
+      toast.error('Failed to export applications');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Applications</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="flex gap-6">
+            {Object.entries(EXPORT_FORMATS).map(([value, { label }]) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`export-format-${value}`} />
+                <Label htmlFor={`export-format-${value}`}>{label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="grid sm:grid-cols-2 gap-6">
+            {EXPORT_COLUMN_GROUPS.map(group => (
+              <div key={group} className="space-y-2">
+                <h4 className="text-sm font-medium text-muted-foreground">{group}</h4>
+                {EXPORT_COLUMNS.filter(c => c.group === group).map(column => (
+                  <div key={column.key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-column-${column.key}`}
+                      checked={columnKeys.includes(column.key)}
+                      onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    />
+                    <Label htmlFor={`export-column-${column.key}`} className="font-normal">{column.label}</Label>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setColumnKeys(EXPORT_COLUMNS.map(c => c.key))}>
+              Select all
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setColumnKeys(DEFAULT_EXPORT_COLUMNS)}>
+              Reset to default
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || count === 0}>
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Download className="w-4 h-4 mr-2" />}
+            Export {count} {count === 1 ? 'Application' : 'Applications'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
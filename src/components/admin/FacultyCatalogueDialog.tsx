@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Loader2, Pencil, Plus, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { getDepartmentsForFaculty, type Department, type Faculty } from '@/lib/faculties';
+
+const facultySchema = z.object({
+  name: z.string().trim().min(3, 'Faculty name is required').max(150),
+});
+
+const departmentSchema = z.object({
+  faculty_id: z.string().min(1, 'Choose a faculty'),
+  name: z.string().trim().min(2, 'Department name is required').max(150),
+});
+
+type FacultyFormData = z.infer<typeof facultySchema>;
+type DepartmentFormData = z.infer<typeof departmentSchema>;
+
+type CatalogueTable = 'faculties' | 'departments';
+
+interface FacultyCatalogueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  faculties: Faculty[];
+  departments: Department[];
+  onCatalogueChanged: () => void;
+}
+
+export const FacultyCatalogueDialog = ({
+  open,
+  onOpenChange,
+  faculties,
+  departments,
+  onCatalogueChanged,
+}: FacultyCatalogueDialogProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const facultyForm = useForm<FacultyFormData>({
+    resolver: zodResolver(facultySchema),
+    defaultValues: { name: '' },
+  });
+
+  const departmentForm = useForm<DepartmentFormData>({
+    resolver: zodResolver(departmentSchema),
+    defaultValues: { faculty_id: '', name: '' },
+  });
+
+  const isSameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  const handleCreateFaculty = async (data: FacultyFormData) => {
+    if (faculties.some(f => isSameName(f.name, data.name))) {
+      facultyForm.setError('name', { message: 'A faculty with this name already exists' });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { error } = await supabase
+        .from('faculties')
+        .insert({ name: data.name.trim() });
+
+      if (error) throw error;
+
+      toast.success('Faculty added');
+      facultyForm.reset();
+      onCatalogueChanged();
+    } catch (error: unknown) {
+      logger.error('Error creating faculty:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add faculty');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCreateDepartment = async (data: DepartmentFormData) => {
+    if (getDepartmentsForFaculty(departments, data.faculty_id).some(d => isSameName(d.name, data.name))) {
+      departmentForm.setError('name', { message: 'This faculty already has a department with this name' });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { error } = await supabase
+        .from('departments')
+        .insert({ faculty_id: data.faculty_id, name: data.name.trim() });
+
+      if (error) throw error;
+
+      toast.success('Department added');
+      departmentForm.reset({ faculty_id: data.faculty_id, name: '' });
+      onCatalogueChanged();
+    } catch (error: unknown) {
+      logger.error('Error creating department:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add department');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const updateEntry = async (
+    table: CatalogueTable,
+    entry: Faculty | Department,
+    changes: { name?: string; is_active?: boolean },
+    successMessage: string
+  ) => {
+    setUpdatingId(entry.id);
+    try {
+      const { error } = await supabase
+        .from(table)
+        .update(changes)
+        .eq('id', entry.id);
+
+      if (error) throw error;
+
+      toast.success(successMessage);
+      setEditingId(null);
+      onCatalogueChanged();
+    } catch (error: unknown) {
+      logger.error(`Error updating ${table}:`, error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update catalogue');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const startEditing = (entry: Faculty | Department) => {
+    setEditingId(entry.id);
+    setEditName(entry.name);
+  };
+
+  const handleRename = (table: CatalogueTable, entry: Faculty | Department) => {
+    const name = editName.trim();
+    if (!name || name === entry.name) {
+      setEditingId(null);
+      return;
+    }
+    updateEntry(table, entry, { name }, `Renamed to ${name}`);
+  };
+
+  const renderEntry = (table: CatalogueTable, entry: Faculty | Department, className: string) => (
+    <div key={entry.id} className={`flex items-center justify-between gap-4 ${className}`}>
+      {editingId === entry.id ? (
+        <div className="flex items-center gap-2 flex-1">
+          <Input
+            value={editName}
+            onChange={(e) => setEditName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename(table, entry);
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            className="h-8"
+            autoFocus
+          />
+          <Button size="icon" variant="ghost" aria-label="Save name" onClick={() => handleRename(table, entry)}>
+            <Check className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="ghost" aria-label="Cancel rename" onClick={() => setEditingId(null)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <span className={table === 'faculties' ? 'font-medium' : 'text-sm'}>{entry.name}</span>
+          {!entry.is_active && <Badge variant="outline">Retired</Badge>}
+        </div>
+      )}
+      {updatingId === entry.id ? (
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      ) : (
+        editingId !== entry.id && (
+          <div className="flex items-center gap-1">
+            <Button size="icon" variant="ghost" aria-label={`Rename ${entry.name}`} onClick={() => startEditing(entry)}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => updateEntry(
+                table,
+                entry,
+                { is_active: !entry.is_active },
+                `${entry.name} ${entry.is_active ? 'retired' : 'reactivated'}`
+              )}
+            >
+              {entry.is_active ? 'Retire' : 'Reactivate'}
+            </Button>
+          </div>
+        )
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Faculties & Departments</DialogTitle>
+          <DialogDescription>
+            Applicants choose from active entries. Renames apply to existing applications; retired entries stay on them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          {faculties.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No faculties configured</p>
+          ) : (
+            faculties.map(faculty => (
+              <div key={faculty.id} className="p-3 rounded-lg border space-y-1">
+                {renderEntry('faculties', faculty, '')}
+                {getDepartmentsForFaculty(departments, faculty.id).map(department =>
+                  renderEntry('departments', department, 'pl-4 border-l ml-1')
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <Form {...facultyForm}>
+          <form onSubmit={facultyForm.handleSubmit(handleCreateFaculty)} className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">New Faculty</h4>
+            <div className="flex items-start gap-4">
+              <FormField
+                control={facultyForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="e.g., Faculty of Engineering" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                Add Faculty
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        <Form {...departmentForm}>
+          <form onSubmit={departmentForm.handleSubmit(handleCreateDepartment)} className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">New Department</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={departmentForm.control}
+                name="faculty_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Faculty</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || undefined}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select faculty" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {faculties.filter(f => f.is_active).map(faculty => (
+                          <SelectItem key={faculty.id} value={faculty.id}>{faculty.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={departmentForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Civil Engineering" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                Add Department
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FacultyCatalogueDialog;
@@ -0,0 +1,390 @@
+import { useCallback, useEffect, useState } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import type { RecruitmentCycle } from '@/lib/recruitmentCycles';
+import {
+  ATTENDANCE_LABELS,
+  OUTCOME_LABELS,
+  createInterviewSlot,
+  deleteInterviewSlot,
+  fetchInterviewSlots,
+  fetchRosterBookings,
+  formatSlotDay,
+  formatSlotLocation,
+  formatSlotTime,
+  getSlotDayKey,
+  groupSlotsByDay,
+  recordInterviewResult,
+  type InterviewAttendance,
+  type InterviewOutcome,
+  type InterviewSlot,
+  type RosterBooking,
+} from '@/lib/interviews';
+
+const slotSchema = z.object({
+  starts_at: z.string().min(1, 'Start time is required'),
+  duration_minutes: z.coerce.number().min(5).max(240),
+  capacity: z.coerce.number().min(1).max(50),
+  venue: z.string().max(200).optional(),
+  meeting_url: z.string().url('Enter a full link, e.g. https://...').or(z.literal('')).optional(),
+}).refine((data) => !!data.venue?.trim() || !!data.meeting_url?.trim(), {
+  message: 'Enter a venue or an online meeting link',
+  path: ['venue'],
+});
+
+type SlotFormData = z.infer<typeof slotSchema>;
+
+const NO_OUTCOME = 'none';
+
+interface InterviewScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cycle: RecruitmentCycle | undefined;
+  reviewerId: string | undefined;
+}
+
+interface RosterRowProps {
+  booking: RosterBooking;
+  reviewerId: string | undefined;
+  onSaved: (booking: RosterBooking) => void;
+}
+
+const RosterRow = ({ booking, reviewerId, onSaved }: RosterRowProps) => {
+  const [attendance, setAttendance] = useState<InterviewAttendance>(booking.attendance);
+  const [outcome, setOutcome] = useState<InterviewOutcome | null>(booking.outcome);
+  const [notes, setNotes] = useState(booking.notes ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty = attendance !== booking.attendance || outcome !== booking.outcome || notes !== (booking.notes ?? '');
+
+  const handleSave = async () => {
+    if (!reviewerId) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await recordInterviewResult(booking.id, { attendance, outcome, notes: notes.trim() || null }, reviewerId);
+      onSaved({ ...booking, ...saved });
+      toast.success(`Interview recorded for ${booking.tutor_applications?.full_name ?? 'applicant'}`);
+    } catch (error: unknown) {
+      logger.error('Error recording interview:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record interview');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_9rem_10rem] gap-2 p-3 rounded-md border">
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{booking.tutor_applications?.full_name ?? 'Applicant'}</p>
+        <p className="text-xs text-muted-foreground">{booking.tutor_applications?.student_number}</p>
+      </div>
+      <Select value={attendance} onValueChange={(value) => setAttendance(value as InterviewAttendance)}>
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(ATTENDANCE_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={outcome ?? NO_OUTCOME}
+        onValueChange={(value) => setOutcome(value === NO_OUTCOME ? null : (value as InterviewOutcome))}
+      >
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_OUTCOME}>No outcome yet</SelectItem>
+          {Object.entries(OUTCOME_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="md:col-span-3 flex gap-2">
+        <Input
+          placeholder="Interview notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="h-9"
+        />
+        <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Publish interview slots for a cycle and record attendance and outcomes
+ * from a per-day roster
+ */
+export const InterviewScheduleDialog = ({ open, onOpenChange, cycle, reviewerId }: InterviewScheduleDialogProps) => {
+  const [slots, setSlots] = useState<InterviewSlot[]>([]);
+  const [bookings, setBookings] = useState<RosterBooking[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const cycleId = cycle?.id;
+
+  const form = useForm<SlotFormData>({
+    resolver: zodResolver(slotSchema),
+    defaultValues: {
+      starts_at: '',
+      duration_minutes: 20,
+      capacity: 1,
+      venue: '',
+      meeting_url: '',
+    },
+  });
+
+  const reload = useCallback(async () => {
+    if (!cycleId) return;
+
+    setIsLoading(true);
+    try {
+      const slotData = await fetchInterviewSlots(cycleId);
+      setSlots(slotData);
+      setBookings(await fetchRosterBookings(slotData.map(s => s.id)));
+    } catch (error) {
+      logger.error('Error loading interview schedule:', error);
+      toast.error('Failed to load interview schedule');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cycleId]);
+
+  useEffect(() => {
+    if (open) reload();
+  }, [open, reload]);
+
+  const slotsByDay = groupSlotsByDay(slots);
+  const days = Object.keys(slotsByDay).sort();
+  const activeDay = selectedDay && slotsByDay[selectedDay]
+    ? selectedDay
+    : days.find(day => day >= getSlotDayKey({ starts_at: new Date().toISOString() })) ?? days[days.length - 1];
+
+  const handleCreate = async (data: SlotFormData) => {
+    if (!cycleId) return;
+
+    setIsCreating(true);
+    try {
+      await createInterviewSlot({
+        cycle_id: cycleId,
+        starts_at: new Date(data.starts_at).toISOString(),
+        duration_minutes: data.duration_minutes,
+        capacity: data.capacity,
+        venue: data.venue?.trim() || null,
+        meeting_url: data.meeting_url?.trim() || null,
+      });
+
+      toast.success('Interview slot added');
+      form.reset({ ...form.getValues(), starts_at: '' });
+      setSelectedDay(getSlotDayKey({ starts_at: new Date(data.starts_at).toISOString() }));
+      await reload();
+    } catch (error: unknown) {
+      logger.error('Error creating interview slot:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add interview slot');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (slot: InterviewSlot) => {
+    setDeletingId(slot.id);
+    try {
+      await deleteInterviewSlot(slot.id);
+      toast.success('Interview slot removed');
+      await reload();
+    } catch (error) {
+      logger.error('Error deleting interview slot:', error);
+      toast.error('Failed to remove interview slot');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleBookingSaved = (saved: RosterBooking) => {
+    setBookings(prev => prev.map(b => (b.id === saved.id ? saved : b)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Interviews{cycle ? ` – ${cycle.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Applicants shortlisted for an interview book one of these slots from their dashboard.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!cycle ? (
+          <p className="text-sm text-muted-foreground">Select a recruitment cycle first</p>
+        ) : (
+          <Tabs defaultValue="roster">
+            <TabsList>
+              <TabsTrigger value="roster">Roster</TabsTrigger>
+              <TabsTrigger value="slots">Add Slots</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="roster" className="space-y-4">
+              {isLoading && slots.length === 0 ? (
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              ) : days.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No interview slots yet</p>
+              ) : (
+                <>
+                  <Select value={activeDay} onValueChange={setSelectedDay}>
+                    <SelectTrigger className="w-full md:w-72">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {days.map(day => (
+                        <SelectItem key={day} value={day}>
+                          {formatSlotDay(slotsByDay[day][0].starts_at)} ({slotsByDay[day].length})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {(slotsByDay[activeDay] ?? []).map(slot => {
+                    const slotBookings = bookings.filter(b => b.slot_id === slot.id);
+                    const holding = slotBookings.filter(b => b.tutor_applications?.status === 'interview').length;
+                    return (
+                      <div key={slot.id} className="space-y-2">
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <p className="font-medium">{formatSlotTime(slot)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatSlotLocation(slot)}
+                              {slot.meeting_url && slot.venue && ' • Online link provided'}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">{holding}/{slot.capacity} booked</Badge>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label="Remove slot"
+                              disabled={slotBookings.length > 0 || deletingId === slot.id}
+                              onClick={() => handleDelete(slot)}
+                            >
+                              {deletingId === slot.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                            </Button>
+                          </div>
+                        </div>
+                        {slotBookings.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">No bookings</p>
+                        ) : (
+                          slotBookings.map(booking => (
+                            <RosterRow key={booking.id} booking={booking} reviewerId={reviewerId} onSaved={handleBookingSaved} />
+                          ))
+                        )}
+                      </div>
+                    );
+                  })}
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="slots">
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleCreate)} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="starts_at"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Starts</FormLabel>
+                          <FormControl>
+                            <Input type="datetime-local" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="duration_minutes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Duration (minutes)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={5} max={240} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="capacity"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Capacity</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} max={50} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="venue"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Venue</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Library Seminar Room 2" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="meeting_url"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Online Meeting Link</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={isCreating}>
+                    {isCreating ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                    Add Slot
+                  </Button>
+                </form>
+              </Form>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InterviewScheduleDialog;
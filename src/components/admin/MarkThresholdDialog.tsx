@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { describeThresholdScope, type MarkThreshold } from '@/lib/marks';
+import type { Module } from '@/lib/modules';
+
+const thresholdSchema = z.object({
+  scope: z.enum(['default', 'department', 'module']),
+  target: z.string().optional(),
+  min_mark: z.coerce.number().min(0, 'Minimum mark cannot be negative').max(100, 'Marks are out of 100'),
+}).refine((data) => data.scope === 'default' || !!data.target, {
+  message: 'Choose what this minimum applies to',
+  path: ['target'],
+});
+
+type ThresholdFormData = z.infer<typeof thresholdSchema>;
+
+const scopeOrder = (threshold: MarkThreshold) => (threshold.module_id ? 2 : threshold.department ? 1 : 0);
+
+interface MarkThresholdDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  thresholds: MarkThreshold[];
+  modules: Module[];
+  onThresholdsChanged: () => void;
+}
+
+export const MarkThresholdDialog = ({ open, onOpenChange, thresholds, modules, onThresholdsChanged }: MarkThresholdDialogProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const form = useForm<ThresholdFormData>({
+    resolver: zodResolver(thresholdSchema),
+    defaultValues: {
+      scope: 'department',
+      target: '',
+      min_mark: 65,
+    },
+  });
+
+  const scope = form.watch('scope');
+  const departments = Array.from(new Set(modules.map(m => m.department))).sort();
+  const sortedThresholds = [...thresholds].sort((a, b) => scopeOrder(a) - scopeOrder(b));
+
+  const handleSave = async (data: ThresholdFormData) => {
+    const module_id = data.scope === 'module' ? data.target : null;
+    const department = data.scope === 'department' ? data.target : null;
+
+    // Saving an existing scope updates its minimum instead of duplicating it
+    const existing = thresholds.find(t => t.module_id === module_id && t.department === department);
+
+    setIsSaving(true);
+    try {
+      const { error } = existing
+        ? await supabase
+            .from('mark_thresholds')
+            .update({ min_mark: data.min_mark })
+            .eq('id', existing.id)
+        : await supabase
+            .from('mark_thresholds')
+            .insert({ module_id, department, min_mark: data.min_mark });
+
+      if (error) throw error;
+
+      toast.success(existing ? 'Minimum mark updated' : 'Minimum mark added');
+      form.reset({ scope: data.scope, target: '', min_mark: data.min_mark });
+      onThresholdsChanged();
+    } catch (error: unknown) {
+      logger.error('Error saving mark threshold:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save minimum mark');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (threshold: MarkThreshold) => {
+    setDeletingId(threshold.id);
+    try {
+      const { error } = await supabase
+        .from('mark_thresholds')
+        .delete()
+        .eq('id', threshold.id);
+
+      if (error) throw error;
+
+      toast.success('Minimum mark removed');
+      onThresholdsChanged();
+    } catch (error) {
+      logger.error('Error deleting mark threshold:', error);
+      toast.error('Failed to remove minimum mark');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Minimum Marks</DialogTitle>
+          <DialogDescription>
+            A module minimum overrides its department's, which overrides the default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {sortedThresholds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No minimum marks configured</p>
+          ) : (
+            sortedThresholds.map(threshold => (
+              <div key={threshold.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {threshold.module_id ? 'Module' : threshold.department ? 'Department' : 'Default'}
+                  </Badge>
+                  <span className="font-medium">{describeThresholdScope(threshold, modules)}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{Number(threshold.min_mark)}%</span>
+                  {deletingId === threshold.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  ) : (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Remove minimum mark"
+                      onClick={() => handleDelete(threshold)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">Set Minimum Mark</h4>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Applies To</FormLabel>
+                    <Select
+                      onValueChange={(val) => {
+                        field.onChange(val);
+                        form.setValue('target', '');
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="default">Default</SelectItem>
+                        <SelectItem value="department">Department</SelectItem>
+                        <SelectItem value="module">Module</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {scope !== 'default' && (
+                <FormField
+                  control={form.control}
+                  name="target"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{scope === 'module' ? 'Module' : 'Department'}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || undefined}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={scope === 'module' ? 'Select module' : 'Select department'} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {scope === 'module'
+                            ? modules.map(module => (
+                                <SelectItem key={module.id} value={module.id}>{module.code}</SelectItem>
+                              ))
+                            : departments.map(department => (
+                                <SelectItem key={department} value={department}>{department}</SelectItem>
+                              ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="min_mark"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Mark (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                Save Minimum
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MarkThresholdDialog;
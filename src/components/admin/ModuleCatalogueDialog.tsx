@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Search } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { normalizeModuleCode, type Module } from '@/lib/modules';
+
+const moduleSchema = z.object({
+  code: z.string().trim().min(3, 'Module code is required').max(20),
+  name: z.string().trim().min(3, 'Module name is required').max(150),
+  faculty: z.string().trim().min(2, 'Faculty is required'),
+  department: z.string().trim().min(2, 'Department is required'),
+  year_level: z.coerce.number().min(1).max(7),
+});
+
+type ModuleFormData = z.infer<typeof moduleSchema>;
+
+interface ModuleCatalogueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  modules: Module[];
+  onModulesChanged: () => void;
+}
+
+export const ModuleCatalogueDialog = ({ open, onOpenChange, modules, onModulesChanged }: ModuleCatalogueDialogProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const form = useForm<ModuleFormData>({
+    resolver: zodResolver(moduleSchema),
+    defaultValues: {
+      code: '',
+      name: '',
+      faculty: '',
+      department: '',
+      year_level: 1,
+    },
+  });
+
+  const handleCreate = async (data: ModuleFormData) => {
+    if (modules.some(m => normalizeModuleCode(m.code) === normalizeModuleCode(data.code))) {
+      form.setError('code', { message: 'A module with this code already exists' });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { error } = await supabase
+        .from('modules')
+        .insert({
+          code: data.code.toUpperCase(),
+          name: data.name,
+          faculty: data.faculty,
+          department: data.department,
+          year_level: data.year_level,
+        });
+
+      if (error) throw error;
+
+      toast.success('Module added to catalogue');
+      form.reset();
+      onModulesChanged();
+    } catch (error: unknown) {
+      logger.error('Error creating module:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add module');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (module: Module) => {
+    setUpdatingId(module.id);
+    try {
+      const { error } = await supabase
+        .from('modules')
+        .update({ is_active: !module.is_active })
+        .eq('id', module.id);
+
+      if (error) throw error;
+
+      toast.success(`${module.code} ${module.is_active ? 'retired' : 'reactivated'}`);
+      onModulesChanged();
+    } catch (error) {
+      logger.error('Error updating module:', error);
+      toast.error('Failed to update module');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const search = normalizeModuleCode(searchTerm);
+  const visibleModules = modules.filter(m =>
+    normalizeModuleCode(m.code).includes(search) ||
+    m.name.toLowerCase().includes(searchTerm.trim().toLowerCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Module Catalogue</DialogTitle>
+          <DialogDescription>Applicants choose from active modules. Retired modules stay on existing applications.</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by code or name..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {visibleModules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No modules found</p>
+          ) : (
+            visibleModules.map(module => (
+              <div key={module.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{module.code}</span>
+                    <span className="text-sm">{module.name}</span>
+                    {!module.is_active && <Badge variant="outline">Retired</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {module.department} • {module.faculty} • Year {module.year_level}
+                  </p>
+                </div>
+                {updatingId === module.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                ) : (
+                  <Button size="sm" variant="ghost" onClick={() => handleToggleActive(module)}>
+                    {module.is_active ? 'Retire' : 'Reactivate'}
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleCreate)} className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">New Module</h4>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., MAT 112" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Calculus I" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="faculty"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Faculty</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="department"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Department</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="year_level"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Year Level</FormLabel>
+                    <Select onValueChange={(val) => field.onChange(parseInt(val))} value={field.value?.toString()}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select year" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {[1, 2, 3, 4, 5, 6, 7].map(year => (
+                          <SelectItem key={year} value={year.toString()}>Year {year}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                Add Module
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModuleCatalogueDialog;
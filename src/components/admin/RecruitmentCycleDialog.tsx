@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { CYCLE_STATUS_LABELS, formatCycleWindow, type RecruitmentCycle } from '@/lib/recruitmentCycles';
+
+const cycleSchema = z.object({
+  name: z.string().min(3, 'Cycle name is required').max(100),
+  academic_year: z.coerce.number().min(2000).max(2100),
+  semester: z.coerce.number().min(1).max(2),
+  opens_at: z.string().min(1, 'Opening date is required'),
+  closes_at: z.string().min(1, 'Closing date is required'),
+}).refine((data) => new Date(data.closes_at) > new Date(data.opens_at), {
+  message: 'Closing date must be after the opening date',
+  path: ['closes_at'],
+});
+
+type CycleFormData = z.infer<typeof cycleSchema>;
+
+const statusColors: Record<RecruitmentCycle['status'], string> = {
+  draft: 'bg-muted text-muted-foreground',
+  open: 'bg-success/20 text-success',
+  closed: 'bg-warning/20 text-warning',
+  archived: 'bg-muted text-muted-foreground',
+};
+
+interface RecruitmentCycleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cycles: RecruitmentCycle[];
+  onCyclesChanged: () => void;
+}
+
+export const RecruitmentCycleDialog = ({ open, onOpenChange, cycles, onCyclesChanged }: RecruitmentCycleDialogProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const form = useForm<CycleFormData>({
+    resolver: zodResolver(cycleSchema),
+    defaultValues: {
+      name: '',
+      academic_year: new Date().getFullYear(),
+      semester: 1,
+      opens_at: '',
+      closes_at: '',
+    },
+  });
+
+  const handleCreate = async (data: CycleFormData) => {
+    setIsCreating(true);
+    try {
+      const { error } = await supabase
+        .from('recruitment_cycles')
+        .insert({
+          name: data.name,
+          academic_year: data.academic_year,
+          semester: data.semester,
+          opens_at: new Date(data.opens_at).toISOString(),
+          closes_at: new Date(data.closes_at).toISOString(),
+        });
+
+      if (error) throw error;
+
+      toast.success('Recruitment cycle created');
+      form.reset();
+      onCyclesChanged();
+    } catch (error: unknown) {
+      logger.error('Error creating recruitment cycle:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create recruitment cycle');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleStatusChange = async (cycle: RecruitmentCycle, status: RecruitmentCycle['status']) => {
+    setUpdatingId(cycle.id);
+    try {
+      const { error } = await supabase
+        .from('recruitment_cycles')
+        .update({ status })
+        .eq('id', cycle.id);
+
+      if (error) throw error;
+
+      toast.success(`${cycle.name} is now ${CYCLE_STATUS_LABELS[status].toLowerCase()}`);
+      onCyclesChanged();
+    } catch (error) {
+      logger.error('Error updating recruitment cycle:', error);
+      toast.error('Failed to update recruitment cycle');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recruitment Cycles</DialogTitle>
+          <DialogDescription>Applications are only accepted while a cycle is open and inside its window.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {cycles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No recruitment cycles yet</p>
+          ) : (
+            cycles.map(cycle => (
+              <div key={cycle.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{cycle.name}</span>
+                    <Badge className={statusColors[cycle.status]}>{CYCLE_STATUS_LABELS[cycle.status]}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{formatCycleWindow(cycle)}</p>
+                </div>
+                <div className="flex gap-2">
+                  {updatingId === cycle.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  ) : (
+                    <>
+                      {(cycle.status === 'draft' || cycle.status === 'closed') && (
+                        <Button size="sm" variant="outline" onClick={() => handleStatusChange(cycle, 'open')}>Open</Button>
+                      )}
+                      {cycle.status === 'open' && (
+                        <Button size="sm" variant="outline" onClick={() => handleStatusChange(cycle, 'closed')}>Close</Button>
+                      )}
+                      {cycle.status === 'closed' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleStatusChange(cycle, 'archived')}>Archive</Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleCreate)} className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">New Cycle</h4>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., 2026 Semester 2 Intake" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="academic_year"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Academic Year</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="semester"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Semester</FormLabel>
+                    <Select onValueChange={(val) => field.onChange(parseInt(val))} value={field.value?.toString()}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select semester" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="1">Semester 1</SelectItem>
+                        <SelectItem value="2">Semester 2</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="opens_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Opens</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="closes_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Closes</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                Create Cycle
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecruitmentCycleDialog;
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { fetchActorNames } from '@/lib/statusEvents';
+import {
+  computeSheetTotal,
+  fetchReviewSheets,
+  formatScore,
+  getWeightShare,
+  saveReviewSheet,
+  type ReviewSheet,
+  type RubricCriterion,
+} from '@/lib/scoring';
+
+interface ReviewScoreSheetProps {
+  applicationId: string;
+  criteria: RubricCriterion[];
+  moderationSpread: number | null;
+  reviewerId: string | undefined;
+  canScore: boolean;
+  onSaved: () => void;
+}
+
+/**
+ * The signed-in reviewer's score sheet for an application, with every
+ * reviewer's total and how far apart they are
+ */
+export const ReviewScoreSheet = ({
+  applicationId,
+  criteria,
+  moderationSpread,
+  reviewerId,
+  canScore,
+  onSaved,
+}: ReviewScoreSheetProps) => {
+  const [sheets, setSheets] = useState<ReviewSheet[]>([]);
+  const [reviewerNames, setReviewerNames] = useState<Record<string, string>>({});
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeCriteria = criteria.filter(c => c.is_active);
+
+  const reload = useCallback(async () => {
+    try {
+      const data = await fetchReviewSheets(applicationId);
+      setSheets(data);
+      setReviewerNames(await fetchActorNames(data.map(s => ({ actor_id: s.reviewer_id }))));
+
+      const own = data.find(s => s.reviewer_id === reviewerId);
+      setScores(Object.fromEntries((own?.review_scores ?? []).map(s => [s.criterion_id, String(s.score)])));
+      setComments(own?.comments ?? '');
+    } catch (error) {
+      logger.error('Error loading score sheets:', error);
+      toast.error('Failed to load scores');
+    }
+  }, [applicationId, reviewerId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const draftScores = activeCriteria
+    .filter(c => scores[c.id] !== undefined && scores[c.id] !== '')
+    .map(c => ({ criterion_id: c.id, score: Number(scores[c.id]) }));
+  const draftTotal = computeSheetTotal(draftScores, criteria);
+
+  const totals = sheets
+    .map(sheet => ({ sheet, total: computeSheetTotal(sheet.review_scores, criteria) }))
+    .filter((entry): entry is { sheet: ReviewSheet; total: number } => entry.total !== null);
+  const average = totals.length > 0
+    ? Math.round((totals.reduce((sum, t) => sum + t.total, 0) / totals.length) * 10) / 10
+    : null;
+  const spread = totals.length > 1
+    ? Math.max(...totals.map(t => t.total)) - Math.min(...totals.map(t => t.total))
+    : null;
+  const needsModeration = spread !== null && moderationSpread !== null && spread > moderationSpread;
+
+  const handleSave = async () => {
+    const invalid = activeCriteria.filter(c => {
+      const value = Number(scores[c.id]);
+      return scores[c.id] === undefined || scores[c.id] === '' || !Number.isInteger(value) || value < 0 || value > c.max_score;
+    });
+
+    if (invalid.length > 0) {
+      toast.error(`Enter a whole-number score for: ${invalid.map(c => c.name).join(', ')}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveReviewSheet(
+        applicationId,
+        Object.fromEntries(activeCriteria.map(c => [c.id, Number(scores[c.id])])),
+        comments
+      );
+      toast.success('Scores saved');
+      await reload();
+      onSaved();
+    } catch (error: unknown) {
+      logger.error('Error saving scores:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save scores');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-muted/50 text-sm">
+        <span>
+          Average <span className="font-semibold">{formatScore(average)}</span>
+        </span>
+        <span className="text-muted-foreground">
+          {totals.length} {totals.length === 1 ? 'reviewer' : 'reviewers'}
+        </span>
+        {spread !== null && <span className="text-muted-foreground">Spread {formatScore(spread)}</span>}
+        {needsModeration && (
+          <Badge variant="destructive" className="gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            Needs moderation
+          </Badge>
+        )}
+      </div>
+
+      {totals.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {totals.map(({ sheet, total }) => (
+            <li key={sheet.id} className="flex justify-between gap-4">
+              <span className="truncate">
+                {sheet.reviewer_id === reviewerId ? 'You' : reviewerNames[sheet.reviewer_id] ?? 'Reviewer'}
+                {sheet.comments && <span className="text-muted-foreground"> – {sheet.comments}</span>}
+              </span>
+              <span className="font-medium shrink-0">{formatScore(total)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canScore && (
+        activeCriteria.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add criteria to the scoring rubric before scoring applications.</p>
+        ) : (
+          <div className="space-y-3 border-t pt-3">
+            <h5 className="text-sm font-medium">Your Scores</h5>
+            {activeCriteria.map(criterion => (
+              <div key={criterion.id} className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm">
+                    {criterion.name}{' '}
+                    <span className="text-xs text-muted-foreground">({getWeightShare(criterion, criteria)}%)</span>
+                  </p>
+                  {criterion.description && (
+                    <p className="text-xs text-muted-foreground">{criterion.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={criterion.max_score}
+                    value={scores[criterion.id] ?? ''}
+                    onChange={(e) => setScores(prev => ({ ...prev, [criterion.id]: e.target.value }))}
+                    className="w-20 h-9"
+                    aria-label={`${criterion.name} score`}
+                  />
+                  <span className="text-sm text-muted-foreground w-10">/ {criterion.max_score}</span>
+                </div>
+              </div>
+            ))}
+            <Textarea
+              placeholder="Comments for other reviewers (optional)"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              className="min-h-[60px]"
+            />
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Your total: {formatScore(draftTotal)}</span>
+              <Button size="sm" onClick={handleSave} disabled={isSaving || !reviewerId}>
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                Save Scores
+              </Button>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ReviewScoreSheet;
@@ -0,0 +1,366 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Shuffle, UserMinus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import type { RecruitmentCycle } from '@/lib/recruitmentCycles';
+import type { Department, Faculty } from '@/lib/faculties';
+import {
+  addReviewer,
+  balanceReviewerAssignments,
+  createReviewerAssignment,
+  deleteReviewerAssignment,
+  fetchReviewerAssignments,
+  fetchReviewers,
+  fetchReviewerWorkload,
+  fetchUnassignedApplicationIds,
+  getAssignmentScope,
+  removeReviewer,
+  type AssignmentScope,
+  type Reviewer,
+  type ReviewerAssignment,
+  type ReviewerWorkload,
+} from '@/lib/reviewers';
+import { fetchMatchingApplications, type MatchingApplication } from '@/lib/applicationList';
+
+interface ReviewersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cycle: RecruitmentCycle | undefined;
+  faculties: Faculty[];
+  departments: Department[];
+  adminId: string | undefined;
+}
+
+/**
+ * Manage reviewers, what they are assigned, and how the open applications
+ * in a cycle are spread between them
+ */
+export const ReviewersDialog = ({
+  open,
+  onOpenChange,
+  cycle,
+  faculties,
+  departments,
+  adminId,
+}: ReviewersDialogProps) => {
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [assignments, setAssignments] = useState<ReviewerAssignment[]>([]);
+  const [workload, setWorkload] = useState<Record<string, ReviewerWorkload>>({});
+  const [unassignedIds, setUnassignedIds] = useState<string[]>([]);
+  const [applications, setApplications] = useState<MatchingApplication[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [assignReviewerId, setAssignReviewerId] = useState('');
+  const [scope, setScope] = useState<AssignmentScope>('faculty');
+  const [target, setTarget] = useState('');
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [isBalancing, setIsBalancing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const cycleId = cycle?.id;
+
+  const reload = useCallback(async () => {
+    if (!cycleId) return;
+
+    setIsLoading(true);
+    try {
+      const [reviewerData, assignmentData, workloadData, unassignedData, applicationData] = await Promise.all([
+        fetchReviewers(),
+        fetchReviewerAssignments(),
+        fetchReviewerWorkload(cycleId),
+        fetchUnassignedApplicationIds(cycleId),
+        fetchMatchingApplications(cycleId),
+      ]);
+      setReviewers(reviewerData);
+      setAssignments(assignmentData);
+      setWorkload(workloadData);
+      setUnassignedIds(unassignedData);
+      setApplications(applicationData);
+    } catch (error) {
+      logger.error('Error loading reviewers:', error);
+      toast.error('Failed to load reviewers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cycleId]);
+
+  useEffect(() => {
+    if (open) reload();
+  }, [open, reload]);
+
+  const describeAssignment = (assignment: ReviewerAssignment) => {
+    switch (getAssignmentScope(assignment)) {
+      case 'faculty':
+        return faculties.find(f => f.id === assignment.faculty_id)?.name ?? 'Faculty';
+      case 'department':
+        return departments.find(d => d.id === assignment.department_id)?.name ?? 'Department';
+      case 'application': {
+        const application = applications.find(a => a.id === assignment.application_id);
+        return application ? application.full_name : 'Application in another cycle';
+      }
+    }
+  };
+
+  const maxOutstanding = Math.max(1, ...Object.values(workload).map(w => w.outstanding));
+
+  const handleAddReviewer = async () => {
+    if (!email.trim()) return;
+
+    setIsAdding(true);
+    try {
+      const reviewer = await addReviewer(email);
+      toast.success(`${reviewer.full_name || reviewer.email} can now review applications`);
+      setEmail('');
+      await reload();
+    } catch (error: unknown) {
+      logger.error('Error adding reviewer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add reviewer');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemoveReviewer = async (reviewer: Reviewer) => {
+    setBusyId(reviewer.id);
+    try {
+      await removeReviewer(reviewer.id);
+      toast.success(`${reviewer.full_name || reviewer.email} is no longer a reviewer`);
+      await reload();
+    } catch (error) {
+      logger.error('Error removing reviewer:', error);
+      toast.error('Failed to remove reviewer');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAssign = async () => {
+    if (!assignReviewerId || !target) return;
+
+    setIsAssigning(true);
+    try {
+      await createReviewerAssignment({
+        reviewer_id: assignReviewerId,
+        faculty_id: scope === 'faculty' ? target : null,
+        department_id: scope === 'department' ? target : null,
+        application_id: scope === 'application' ? target : null,
+        assigned_by: adminId ?? null,
+      });
+      toast.success('Assignment added');
+      setTarget('');
+      await reload();
+    } catch (error: unknown) {
+      logger.error('Error creating assignment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add assignment');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleUnassign = async (assignment: ReviewerAssignment) => {
+    setBusyId(assignment.id);
+    try {
+      await deleteReviewerAssignment(assignment.id);
+      await reload();
+    } catch (error) {
+      logger.error('Error removing assignment:', error);
+      toast.error('Failed to remove assignment');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleBalance = async () => {
+    if (!cycleId) return;
+
+    setIsBalancing(true);
+    try {
+      const assigned = await balanceReviewerAssignments(cycleId);
+      toast.success(`${assigned} ${assigned === 1 ? 'application' : 'applications'} assigned`);
+      await reload();
+    } catch (error: unknown) {
+      logger.error('Error balancing assignments:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to distribute applications');
+    } finally {
+      setIsBalancing(false);
+    }
+  };
+
+  const targets = scope === 'faculty'
+    ? faculties.map(f => ({ id: f.id, label: f.name }))
+    : scope === 'department'
+      ? departments.map(d => ({ id: d.id, label: d.name }))
+      : applications.map(a => ({ id: a.id, label: `${a.full_name} (${a.student_number})` }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reviewers</DialogTitle>
+          <DialogDescription>
+            Reviewers only see applications in the faculties, departments or individual applications assigned to
+            them. Workload is for {cycle?.name ?? 'the selected cycle'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && reviewers.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {reviewers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No reviewers yet</p>
+            ) : (
+              reviewers.map(reviewer => {
+                const load = workload[reviewer.id] ?? { assigned: 0, outstanding: 0, scored: 0 };
+                const reviewerAssignments = assignments.filter(a => a.reviewer_id === reviewer.id);
+                return (
+                  <div key={reviewer.id} className="p-3 rounded-lg border space-y-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{reviewer.full_name || reviewer.email}</p>
+                        <p className="text-xs text-muted-foreground truncate">{reviewer.email}</p>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0 text-sm">
+                        <span>
+                          <span className="font-semibold">{load.outstanding}</span>{' '}
+                          <span className="text-muted-foreground">to decide</span>
+                        </span>
+                        <span className="text-muted-foreground">
+                          {load.scored}/{load.assigned} scored
+                        </span>
+                        {busyId === reviewer.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                        ) : (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            aria-label="Remove reviewer"
+                            onClick={() => handleRemoveReviewer(reviewer)}
+                          >
+                            <UserMinus className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <Progress value={(load.outstanding / maxOutstanding) * 100} className="h-1.5" />
+                    <div className="flex flex-wrap gap-1">
+                      {reviewerAssignments.length === 0 ? (
+                        <span className="text-xs text-muted-foreground">Nothing assigned</span>
+                      ) : (
+                        reviewerAssignments.map(assignment => (
+                          <Badge key={assignment.id} variant="outline" className="gap-1 font-normal">
+                            <span className="text-muted-foreground capitalize">{getAssignmentScope(assignment)}:</span>
+                            {describeAssignment(assignment)}
+                            <button
+                              type="button"
+                              aria-label="Remove assignment"
+                              className="ml-1 hover:text-destructive disabled:opacity-50"
+                              disabled={busyId === assignment.id}
+                              onClick={() => handleUnassign(assignment)}
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg bg-muted/50">
+          <p className="text-sm">
+            <span className="font-semibold">{unassignedIds.length}</span>{' '}
+            {unassignedIds.length === 1 ? 'application has' : 'applications have'} no reviewer
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleBalance}
+            disabled={isBalancing || unassignedIds.length === 0 || reviewers.length === 0}
+          >
+            {isBalancing ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Shuffle className="w-4 h-4 mr-2" />}
+            Distribute Evenly
+          </Button>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <h4 className="font-semibold">Assign</h4>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_9rem_1fr_auto] gap-2">
+            <Select value={assignReviewerId || undefined} onValueChange={setAssignReviewerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Reviewer" />
+              </SelectTrigger>
+              <SelectContent>
+                {reviewers.map(reviewer => (
+                  <SelectItem key={reviewer.id} value={reviewer.id}>{reviewer.full_name || reviewer.email}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={scope}
+              onValueChange={(value) => {
+                setScope(value as AssignmentScope);
+                setTarget('');
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="faculty">Faculty</SelectItem>
+                <SelectItem value="department">Department</SelectItem>
+                <SelectItem value="application">Application</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={target || undefined} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue placeholder={`Select ${scope}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAssign} disabled={isAssigning || !assignReviewerId || !target}>
+              {isAssigning ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+              Assign
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <h4 className="font-semibold">Add Reviewer</h4>
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="staff.member@ufh.ac.za"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddReviewer()}
+            />
+            <Button variant="outline" onClick={handleAddReviewer} disabled={isAdding || !email.trim()}>
+              {isAdding ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">The person must already have an account.</p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewersDialog;
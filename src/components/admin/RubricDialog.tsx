@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Loader2, Plus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { getWeightShare, type RubricCriterion, type ScoringSettings } from '@/lib/scoring';
+
+const criterionSchema = z.object({
+  name: z.string().trim().min(2, 'Name is required').max(100),
+  description: z.string().max(300).optional(),
+  weight: z.coerce.number().positive('Weight must be more than 0').max(999),
+  max_score: z.coerce.number().int().min(1).max(100),
+});
+
+type CriterionFormData = z.infer<typeof criterionSchema>;
+
+interface RubricDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  criteria: RubricCriterion[];
+  settings: ScoringSettings | null;
+  onRubricChanged: () => void;
+}
+
+export const RubricDialog = ({ open, onOpenChange, criteria, settings, onRubricChanged }: RubricDialogProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [spread, setSpread] = useState('');
+  const [isSavingSpread, setIsSavingSpread] = useState(false);
+
+  const form = useForm<CriterionFormData>({
+    resolver: zodResolver(criterionSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+      weight: 20,
+      max_score: 5,
+    },
+  });
+
+  useEffect(() => {
+    if (open) setSpread(settings ? String(Number(settings.moderation_spread)) : '');
+  }, [open, settings]);
+
+  const handleSave = async (data: CriterionFormData) => {
+    // Saving an existing name updates that criterion instead of duplicating it
+    const existing = criteria.find(c => c.name.toLowerCase() === data.name.toLowerCase());
+    const values = {
+      name: data.name,
+      description: data.description?.trim() || null,
+      weight: data.weight,
+      max_score: data.max_score,
+    };
+
+    setIsSaving(true);
+    try {
+      const { error } = existing
+        ? await supabase
+            .from('rubric_criteria')
+            .update(values)
+            .eq('id', existing.id)
+        : await supabase
+            .from('rubric_criteria')
+            .insert({ ...values, sort_order: Math.max(0, ...criteria.map(c => c.sort_order)) + 1 });
+
+      if (error) throw error;
+
+      toast.success(existing ? `${data.name} updated` : `${data.name} added to the rubric`);
+      form.reset();
+      onRubricChanged();
+    } catch (error: unknown) {
+      logger.error('Error saving rubric criterion:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save criterion');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Criteria are retired rather than deleted so earlier score sheets keep their totals
+  const handleToggleActive = async (criterion: RubricCriterion) => {
+    setUpdatingId(criterion.id);
+    try {
+      const { error } = await supabase
+        .from('rubric_criteria')
+        .update({ is_active: !criterion.is_active })
+        .eq('id', criterion.id);
+
+      if (error) throw error;
+
+      toast.success(`${criterion.name} ${criterion.is_active ? 'retired' : 'reactivated'}`);
+      onRubricChanged();
+    } catch (error) {
+      logger.error('Error updating rubric criterion:', error);
+      toast.error('Failed to update criterion');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleSaveSpread = async () => {
+    const value = Number(spread);
+    if (!settings || spread === '' || Number.isNaN(value) || value < 0 || value > 100) {
+      toast.error('Enter a spread between 0 and 100 points');
+      return;
+    }
+
+    setIsSavingSpread(true);
+    try {
+      const { error } = await supabase
+        .from('scoring_settings')
+        .update({ moderation_spread: value })
+        .eq('id', settings.id);
+
+      if (error) throw error;
+
+      toast.success('Moderation threshold updated');
+      onRubricChanged();
+    } catch (error) {
+      logger.error('Error saving scoring settings:', error);
+      toast.error('Failed to update moderation threshold');
+    } finally {
+      setIsSavingSpread(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scoring Rubric</DialogTitle>
+          <DialogDescription>
+            Reviewers score each active criterion. Weights are relative, so the shares below always add up to 100%.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {criteria.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No criteria configured</p>
+          ) : (
+            criteria.map(criterion => (
+              <div key={criterion.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{criterion.name}</span>
+                    {!criterion.is_active && <Badge variant="outline">Retired</Badge>}
+                  </div>
+                  {criterion.description && (
+                    <p className="text-xs text-muted-foreground">{criterion.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="text-sm text-muted-foreground">out of {criterion.max_score}</span>
+                  {criterion.is_active && (
+                    <span className="font-semibold w-12 text-right">{getWeightShare(criterion, criteria)}%</span>
+                  )}
+                  {updatingId === criterion.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  ) : (
+                    <Button size="sm" variant="ghost" onClick={() => handleToggleActive(criterion)}>
+                      {criterion.is_active ? 'Retire' : 'Reactivate'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">Add or Update Criterion</h4>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Motivation" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="weight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weight</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="max_score"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scored Out Of</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem className="col-span-2 md:col-span-4">
+                    <FormLabel>Guidance for Reviewers</FormLabel>
+                    <FormControl>
+                      <Input placeholder="What a high score looks like" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                Save Criterion
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        <div className="space-y-2 border-t pt-4">
+          <h4 className="font-semibold">Moderation</h4>
+          <Label htmlFor="moderation-spread" className="text-sm font-normal text-muted-foreground">
+            Flag an application when its reviewers' totals differ by more than this many percentage points
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="moderation-spread"
+              type="number"
+              min={0}
+              max={100}
+              value={spread}
+              onChange={(e) => setSpread(e.target.value)}
+              className="w-32"
+            />
+            <Button variant="outline" onClick={handleSaveSpread} disabled={isSavingSpread || !settings}>
+              {isSavingSpread && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Save Threshold
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RubricDialog;
@@ -8,6 +8,7 @@ interface AuthContextType {
   session: Session | null;
   isLoading: boolean;
   isAdmin: boolean | null;
+  isReviewer: boolean | null;
   signUp: (email: string, password: string, fullName: string) => Promise<{
     error: Error | null;
     userExists?: boolean;
@@ -26,6 +27,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [isReviewer, setIsReviewer] = useState<boolean | null>(null);
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -36,10 +38,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setUser(session?.user ?? null);
         setIsLoading(false);
 
-        // Check admin role after auth state change
+        // Check staff roles after auth state change
         if (session?.user) {
           setTimeout(() => {
-            checkAdminRole(session.user.id);
+            checkRoles(session.user.id);
             // Ensure profile exists as fallback
             ensureProfileExists(
               session.user.id,
@@ -49,6 +51,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           }, 0);
         } else {
           setIsAdmin(null);
+          setIsReviewer(null);
         }
       }
     );
@@ -61,7 +64,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setIsLoading(false);
 
       if (session?.user) {
-        checkAdminRole(session.user.id);
+        checkRoles(session.user.id);
         // Ensure profile exists as fallback
         ensureProfileExists(
           session.user.id,
@@ -70,13 +73,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         );
       } else {
         setIsAdmin(null);
+        setIsReviewer(null);
       }
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const checkAdminRole = async (userId: string) => {
+  const checkRoles = async (userId: string) => {
     try {
       const { data, error } = await supabase
         .from('user_roles')
@@ -86,6 +90,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       console.log('user_roles for', userId, data, error);
 
       if (error) throw error;
+      setIsReviewer(!!data?.some(r => r.role === 'reviewer'));
       if (data?.some(r => r.role === 'admin')) {
         setIsAdmin(true);
       } else {
@@ -93,6 +98,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
     } catch (err) {
       console.error('Admin role check failed:', err);
+      setIsReviewer(false);
       setIsAdmin(false);
     }
   };
@@ -254,6 +260,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async () => {
     await supabase.auth.signOut();
     setIsAdmin(null);
+    setIsReviewer(null);
   };
 
   return (
@@ -262,6 +269,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       session,
       isLoading,
       isAdmin,
+      isReviewer,
       signUp,
       signIn,
       signOut,
@@ -1,10 +1,13 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { logger } from '@/lib/logger';
+import { saveApplicationModules } from '@/lib/modules';
 
 interface UseAutoSaveOptions {
   userId: string | undefined;
   applicationId: string | undefined;
+  /** Recruitment cycle the application belongs to; nothing is saved without one */
+  cycleId: string | undefined;
   formData: Record<string, any>;
   debounceMs?: number;
   enabled?: boolean;
@@ -19,6 +22,7 @@ interface SaveStatus {
 export const useAutoSave = ({
   userId,
   applicationId,
+  cycleId,
   formData,
   debounceMs = 900,
   enabled = true,
@@ -79,7 +83,7 @@ export const useAutoSave = ({
 
   const performSave = useCallback(async () => {
     // Validation checks
-    if (!userId || !applicationId || isSavingRef.current || !enabled) {
+    if (!userId || !applicationId || !cycleId || isSavingRef.current || !enabled) {
       return;
     }
 
@@ -112,29 +116,22 @@ export const useAutoSave = ({
       const applicationData = {
         id: applicationId,
         user_id: userId,
+        cycle_id: cycleId,
         full_name: formData.full_name || '',
         student_number: formData.student_number || '',
         date_of_birth: formData.date_of_birth || null,
         gender: formData.gender || null,
         nationality: formData.nationality || '',
+        applicant_category: formData.applicant_category || 'local',
         residential_address: formData.residential_address || '',
         contact_number: formData.contact_number || '',
         email: formData.email || '',
         degree: formData.degree_program || '', // Map degree_program to degree
         degree_program: formData.degree_program || '',
-        faculty: formData.faculty || '',
-        department: formData.department || '',
+        faculty_id: formData.faculty_id || null,
+        department_id: formData.department_id || null,
         year_of_study: formData.year_of_study || 1,
-        subjects_completed: formData.subjects_completed
-          ? typeof formData.subjects_completed === 'string'
-            ? formData.subjects_completed.split(',').map((s: string) => s.trim())
-            : formData.subjects_completed
-          : [],
-        subjects_to_tutor: formData.subjects_to_tutor
-          ? typeof formData.subjects_to_tutor === 'string'
-            ? formData.subjects_to_tutor.split(',').map((s: string) => s.trim())
-            : formData.subjects_to_tutor
-          : [],
+        registration_year: formData.registration_year || null,
         previous_tutoring_experience: formData.previous_tutoring_experience || null,
         work_experience: formData.work_experience || null,
         skills_competencies: formData.skills_competencies
@@ -147,9 +144,10 @@ export const useAutoSave = ({
             ? formData.languages_spoken.split(',').map((s: string) => s.trim())
             : formData.languages_spoken
           : [],
-        availability: formData.availability || null,
+        availability: formData.availability || [],
+        availability_notes: formData.availability_notes || null,
         motivation_letter: formData.motivation_letter || '',
-        status: 'draft', // Always save as draft via autosave
+        status: 'draft' as const, // Always save as draft via autosave
         updated_at: new Date().toISOString(),
       };
 
@@ -161,6 +159,13 @@ export const useAutoSave = ({
         throw error;
       }
 
+      // Module choices live in application_modules rather than on the row
+      await saveApplicationModules(applicationId, {
+        completed: formData.subjects_completed || [],
+        tutor: formData.subjects_to_tutor || [],
+        marks: formData.module_marks || {},
+      });
+
       // Update previous data to track changes
       previousDataRef.current = formData;
       lastSaveTimeRef.current = now;
@@ -197,7 +202,7 @@ export const useAutoSave = ({
     } finally {
       isSavingRef.current = false;
     }
-  }, [userId, applicationId, formData, enabled, isOnline, saveToLocalStorage, clearLocalStorage]);
+  }, [userId, applicationId, cycleId, formData, enabled, isOnline, saveToLocalStorage, clearLocalStorage]);
 
   // Main autosave effect with debouncing
   useEffect(() => {
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { fetchDocumentRequirements, type DocumentRequirement } from '@/lib/documents';
+
+/**
+ * Load the configured document requirements once per mount
+ */
+export const useDocumentRequirements = (includeInactive = false) => {
+  const [requirements, setRequirements] = useState<DocumentRequirement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRequirements(await fetchDocumentRequirements(includeInactive));
+    } catch (error) {
+      logger.error('Error loading document requirements:', error);
+      toast.error('Failed to load document requirements');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { requirements, isLoading, reload };
+};
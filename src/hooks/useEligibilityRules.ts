@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { fetchEligibilityRules, type EligibilityRule } from '@/lib/eligibility';
+
+/**
+ * Load the configured eligibility rules once per mount
+ */
+export const useEligibilityRules = () => {
+  const [rules, setRules] = useState<EligibilityRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRules(await fetchEligibilityRules());
+    } catch (error) {
+      logger.error('Error loading eligibility rules:', error);
+      toast.error('Failed to load eligibility rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { rules, isLoading, reload };
+};
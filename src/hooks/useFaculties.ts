@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { fetchDepartments, fetchFaculties, type Department, type Faculty } from '@/lib/faculties';
+
+/**
+ * Load the faculty and department catalogue once per mount
+ */
+export const useFaculties = (includeInactive = false) => {
+  const [faculties, setFaculties] = useState<Faculty[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [facultyData, departmentData] = await Promise.all([
+        fetchFaculties(includeInactive),
+        fetchDepartments(includeInactive),
+      ]);
+      setFaculties(facultyData);
+      setDepartments(departmentData);
+    } catch (error) {
+      logger.error('Error loading faculties:', error);
+      toast.error('Failed to load faculties and departments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { faculties, departments, isLoading, reload };
+};
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { fetchMarkThresholds, type MarkThreshold } from '@/lib/marks';
+
+/**
+ * Load the configured minimum-mark thresholds once per mount
+ */
+export const useMarkThresholds = () => {
+  const [thresholds, setThresholds] = useState<MarkThreshold[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setThresholds(await fetchMarkThresholds());
+    } catch (error) {
+      logger.error('Error loading mark thresholds:', error);
+      toast.error('Failed to load minimum mark requirements');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { thresholds, isLoading, reload };
+};
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { fetchModules, type Module } from '@/lib/modules';
+
+/**
+ * Load the module catalogue once per mount
+ */
+export const useModules = (includeInactive = false) => {
+  const [modules, setModules] = useState<Module[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setModules(await fetchModules(includeInactive));
+    } catch (error) {
+      logger.error('Error loading modules:', error);
+      toast.error('Failed to load module catalogue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { modules, isLoading, reload };
+};
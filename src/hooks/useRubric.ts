@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import {
+  fetchRubricCriteria,
+  fetchScoringSettings,
+  type RubricCriterion,
+  type ScoringSettings,
+} from '@/lib/scoring';
+
+/**
+ * Load the scoring rubric and its moderation settings once per mount
+ */
+export const useRubric = () => {
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+  const [settings, setSettings] = useState<ScoringSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [criteriaData, settingsData] = await Promise.all([fetchRubricCriteria(), fetchScoringSettings()]);
+      setCriteria(criteriaData);
+      setSettings(settingsData);
+    } catch (error) {
+      logger.error('Error loading scoring rubric:', error);
+      toast.error('Failed to load scoring rubric');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { criteria, settings, isLoading, reload };
+};
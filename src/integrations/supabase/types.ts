@@ -17,36 +17,72 @@ export type Database = {
       application_documents: {
         Row: {
           application_id: string
+          certified_at: string | null
           document_type: string
           file_name: string
           file_path: string
           file_size: number
           id: string
+          is_current: boolean
           mime_type: string
+          rejection_reason: string | null
+          reused_from: string | null
+          scan_detail: string | null
+          scan_status: Database["public"]["Enums"]["document_scan_status"]
+          scanned_at: string | null
+          superseded_at: string | null
           uploaded_at: string
           user_id: string
+          verification_status: Database["public"]["Enums"]["document_verification_status"]
+          verified_at: string | null
+          verified_by: string | null
+          version: number
         }
         Insert: {
           application_id: string
+          certified_at?: string | null
           document_type: string
           file_name: string
           file_path: string
           file_size: number
           id?: string
+          is_current?: boolean
           mime_type: string
+          rejection_reason?: string | null
+          reused_from?: string | null
+          scan_detail?: string | null
+          scan_status?: Database["public"]["Enums"]["document_scan_status"]
+          scanned_at?: string | null
+          superseded_at?: string | null
           uploaded_at?: string
           user_id: string
+          verification_status?: Database["public"]["Enums"]["document_verification_status"]
+          verified_at?: string | null
+          verified_by?: string | null
+          version?: number
         }
         Update: {
           application_id?: string
+          certified_at?: string | null
           document_type?: string
           file_name?: string
           file_path?: string
           file_size?: number
           id?: string
+          is_current?: boolean
           mime_type?: string
+          rejection_reason?: string | null
+          reused_from?: string | null
+          scan_detail?: string | null
+          scan_status?: Database["public"]["Enums"]["document_scan_status"]
+          scanned_at?: string | null
+          superseded_at?: string | null
           uploaded_at?: string
           user_id?: string
+          verification_status?: Database["public"]["Enums"]["document_verification_status"]
+          verified_at?: string | null
+          verified_by?: string | null
+          version?: number
         }
         Relationships: [
           {
@@ -56,8 +92,438 @@ export type Database = {
             referencedRelation: "tutor_applications"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "application_documents_reused_from_fkey"
+            columns: ["reused_from"]
+            isOneToOne: false
+            referencedRelation: "application_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_modules: {
+        Row: {
+          application_id: string
+          created_at: string
+          mark: number | null
+          module_id: string
+          relation: Database["public"]["Enums"]["application_module_relation"]
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          mark?: number | null
+          module_id: string
+          relation: Database["public"]["Enums"]["application_module_relation"]
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          mark?: number | null
+          module_id?: string
+          relation?: Database["public"]["Enums"]["application_module_relation"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_modules_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_modules_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "modules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_status_events: {
+        Row: {
+          actor_id: string | null
+          application_id: string
+          created_at: string
+          from_status: Database["public"]["Enums"]["application_status"] | null
+          id: string
+          reason: string | null
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          application_id: string
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["application_status"] | null
+          id?: string
+          reason?: string | null
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          application_id?: string
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["application_status"] | null
+          id?: string
+          reason?: string | null
+          to_status?: Database["public"]["Enums"]["application_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_status_events_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      departments: {
+        Row: {
+          created_at: string
+          faculty_id: string
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          faculty_id: string
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          faculty_id?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "departments_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "faculties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_requirements: {
+        Row: {
+          allowed_mime_types: string[]
+          applicant_category: Database["public"]["Enums"]["applicant_category"] | null
+          certification_max_age_days: number | null
+          created_at: string
+          description: string
+          document_type: string
+          faculty_id: string | null
+          id: string
+          is_active: boolean
+          is_required: boolean
+          label: string
+          max_size_mb: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          allowed_mime_types?: string[]
+          applicant_category?: Database["public"]["Enums"]["applicant_category"] | null
+          certification_max_age_days?: number | null
+          created_at?: string
+          description?: string
+          document_type: string
+          faculty_id?: string | null
+          id?: string
+          is_active?: boolean
+          is_required?: boolean
+          label: string
+          max_size_mb?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          allowed_mime_types?: string[]
+          applicant_category?: Database["public"]["Enums"]["applicant_category"] | null
+          certification_max_age_days?: number | null
+          created_at?: string
+          description?: string
+          document_type?: string
+          faculty_id?: string | null
+          id?: string
+          is_active?: boolean
+          is_required?: boolean
+          label?: string
+          max_size_mb?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_requirements_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "faculties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      eligibility_results: {
+        Row: {
+          application_id: string
+          evaluated_at: string
+          passed: boolean
+          results: Json
+        }
+        Insert: {
+          application_id: string
+          evaluated_at?: string
+          passed: boolean
+          results?: Json
+        }
+        Update: {
+          application_id?: string
+          evaluated_at?: string
+          passed?: boolean
+          results?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "eligibility_results_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: true
+            referencedRelation: "tutor_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      eligibility_rules: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          params: Json
+          rule_type: Database["public"]["Enums"]["eligibility_rule_type"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          params?: Json
+          rule_type: Database["public"]["Enums"]["eligibility_rule_type"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          params?: Json
+          rule_type?: Database["public"]["Enums"]["eligibility_rule_type"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      faculties: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      interview_bookings: {
+        Row: {
+          application_id: string
+          attendance: Database["public"]["Enums"]["interview_attendance"]
+          booked_at: string
+          id: string
+          notes: string | null
+          outcome: Database["public"]["Enums"]["interview_outcome"] | null
+          recorded_at: string | null
+          recorded_by: string | null
+          slot_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          application_id: string
+          attendance?: Database["public"]["Enums"]["interview_attendance"]
+          booked_at?: string
+          id?: string
+          notes?: string | null
+          outcome?: Database["public"]["Enums"]["interview_outcome"] | null
+          recorded_at?: string | null
+          recorded_by?: string | null
+          slot_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          application_id?: string
+          attendance?: Database["public"]["Enums"]["interview_attendance"]
+          booked_at?: string
+          id?: string
+          notes?: string | null
+          outcome?: Database["public"]["Enums"]["interview_outcome"] | null
+          recorded_at?: string | null
+          recorded_by?: string | null
+          slot_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_bookings_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: true
+            referencedRelation: "tutor_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_bookings_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "interview_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_slots: {
+        Row: {
+          capacity: number
+          created_at: string
+          cycle_id: string
+          duration_minutes: number
+          id: string
+          meeting_url: string | null
+          starts_at: string
+          updated_at: string
+          venue: string | null
+        }
+        Insert: {
+          capacity?: number
+          created_at?: string
+          cycle_id: string
+          duration_minutes?: number
+          id?: string
+          meeting_url?: string | null
+          starts_at: string
+          updated_at?: string
+          venue?: string | null
+        }
+        Update: {
+          capacity?: number
+          created_at?: string
+          cycle_id?: string
+          duration_minutes?: number
+          id?: string
+          meeting_url?: string | null
+          starts_at?: string
+          updated_at?: string
+          venue?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_slots_cycle_id_fkey"
+            columns: ["cycle_id"]
+            isOneToOne: false
+            referencedRelation: "recruitment_cycles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mark_thresholds: {
+        Row: {
+          created_at: string
+          department: string | null
+          id: string
+          min_mark: number
+          module_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          id?: string
+          min_mark: number
+          module_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          id?: string
+          min_mark?: number
+          module_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mark_thresholds_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: true
+            referencedRelation: "modules"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      modules: {
+        Row: {
+          code: string
+          created_at: string
+          department: string
+          faculty: string
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+          year_level: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          department: string
+          faculty: string
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+          year_level: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          department?: string
+          faculty?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+          year_level?: number
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -85,28 +551,252 @@ export type Database = {
         }
         Relationships: []
       }
+      recruitment_cycles: {
+        Row: {
+          academic_year: number
+          closes_at: string
+          created_at: string
+          id: string
+          name: string
+          opens_at: string
+          semester: number
+          status: Database["public"]["Enums"]["cycle_status"]
+          updated_at: string
+        }
+        Insert: {
+          academic_year: number
+          closes_at: string
+          created_at?: string
+          id?: string
+          name: string
+          opens_at: string
+          semester: number
+          status?: Database["public"]["Enums"]["cycle_status"]
+          updated_at?: string
+        }
+        Update: {
+          academic_year?: number
+          closes_at?: string
+          created_at?: string
+          id?: string
+          name?: string
+          opens_at?: string
+          semester?: number
+          status?: Database["public"]["Enums"]["cycle_status"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      review_scores: {
+        Row: {
+          criterion_id: string
+          id: string
+          score: number
+          sheet_id: string
+        }
+        Insert: {
+          criterion_id: string
+          id?: string
+          score: number
+          sheet_id: string
+        }
+        Update: {
+          criterion_id?: string
+          id?: string
+          score?: number
+          sheet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_scores_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "rubric_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_scores_sheet_id_fkey"
+            columns: ["sheet_id"]
+            isOneToOne: false
+            referencedRelation: "review_sheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_sheets: {
+        Row: {
+          application_id: string
+          comments: string | null
+          created_at: string
+          id: string
+          reviewer_id: string
+          updated_at: string
+        }
+        Insert: {
+          application_id: string
+          comments?: string | null
+          created_at?: string
+          id?: string
+          reviewer_id: string
+          updated_at?: string
+        }
+        Update: {
+          application_id?: string
+          comments?: string | null
+          created_at?: string
+          id?: string
+          reviewer_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_sheets_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviewer_assignments: {
+        Row: {
+          application_id: string | null
+          assigned_by: string | null
+          created_at: string
+          department_id: string | null
+          faculty_id: string | null
+          id: string
+          reviewer_id: string
+        }
+        Insert: {
+          application_id?: string | null
+          assigned_by?: string | null
+          created_at?: string
+          department_id?: string | null
+          faculty_id?: string | null
+          id?: string
+          reviewer_id: string
+        }
+        Update: {
+          application_id?: string | null
+          assigned_by?: string | null
+          created_at?: string
+          department_id?: string | null
+          faculty_id?: string | null
+          id?: string
+          reviewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviewer_assignments_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviewer_assignments_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviewer_assignments_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "faculties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rubric_criteria: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          max_score: number
+          name: string
+          sort_order: number
+          updated_at: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          max_score?: number
+          name: string
+          sort_order?: number
+          updated_at?: string
+          weight: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          max_score?: number
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          weight?: number
+        }
+        Relationships: []
+      }
+      scoring_settings: {
+        Row: {
+          created_at: string
+          id: string
+          moderation_spread: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          moderation_spread?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          moderation_spread?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       tutor_applications: {
         Row: {
           admin_notes: string | null
-          availability: Json | null
+          applicant_category: Database["public"]["Enums"]["applicant_category"]
+          availability: Json
+          availability_notes: string | null
           contact_number: string
           created_at: string
+          cycle_id: string
           date_of_birth: string
           degree_program: string
           department: string
+          department_id: string | null
           email: string
           faculty: string
+          faculty_id: string | null
           full_name: string
           gender: Database["public"]["Enums"]["gender_type"] | null
           id: string
           languages_spoken: string | null
           motivation_letter: string
           nationality: string
+          previous_application_id: string | null
           previous_tutoring_experience: string | null
+          registration_year: number | null
           rejection_reason: string | null
           residential_address: string
           reviewed_at: string | null
           reviewed_by: string | null
+          search_vector: unknown | null
           skills_competencies: string | null
           status: Database["public"]["Enums"]["application_status"]
           student_number: string
@@ -115,30 +805,40 @@ export type Database = {
           submitted_at: string | null
           updated_at: string
           user_id: string
+          withdrawal_reason: string | null
+          withdrawn_at: string | null
           work_experience: string | null
           year_of_study: number
         }
         Insert: {
           admin_notes?: string | null
-          availability?: Json | null
+          applicant_category?: Database["public"]["Enums"]["applicant_category"]
+          availability?: Json
+          availability_notes?: string | null
           contact_number: string
           created_at?: string
+          cycle_id: string
           date_of_birth: string
           degree_program: string
-          department: string
+          department?: string
+          department_id?: string | null
           email: string
-          faculty: string
+          faculty?: string
+          faculty_id?: string | null
           full_name: string
           gender?: Database["public"]["Enums"]["gender_type"] | null
           id?: string
           languages_spoken?: string | null
           motivation_letter: string
           nationality: string
+          previous_application_id?: string | null
           previous_tutoring_experience?: string | null
+          registration_year?: number | null
           rejection_reason?: string | null
           residential_address: string
           reviewed_at?: string | null
           reviewed_by?: string | null
+          search_vector?: never
           skills_competencies?: string | null
           status?: Database["public"]["Enums"]["application_status"]
           student_number: string
@@ -147,30 +847,40 @@ export type Database = {
           submitted_at?: string | null
           updated_at?: string
           user_id: string
+          withdrawal_reason?: string | null
+          withdrawn_at?: string | null
           work_experience?: string | null
           year_of_study: number
         }
         Update: {
           admin_notes?: string | null
-          availability?: Json | null
+          applicant_category?: Database["public"]["Enums"]["applicant_category"]
+          availability?: Json
+          availability_notes?: string | null
           contact_number?: string
           created_at?: string
+          cycle_id?: string
           date_of_birth?: string
           degree_program?: string
           department?: string
+          department_id?: string | null
           email?: string
           faculty?: string
+          faculty_id?: string | null
           full_name?: string
           gender?: Database["public"]["Enums"]["gender_type"] | null
           id?: string
           languages_spoken?: string | null
           motivation_letter?: string
           nationality?: string
+          previous_application_id?: string | null
           previous_tutoring_experience?: string | null
+          registration_year?: number | null
           rejection_reason?: string | null
           residential_address?: string
           reviewed_at?: string | null
           reviewed_by?: string | null
+          search_vector?: never
           skills_competencies?: string | null
           status?: Database["public"]["Enums"]["application_status"]
           student_number?: string
@@ -179,10 +889,41 @@ export type Database = {
           submitted_at?: string | null
           updated_at?: string
           user_id?: string
+          withdrawal_reason?: string | null
+          withdrawn_at?: string | null
           work_experience?: string | null
           year_of_study?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tutor_applications_cycle_id_fkey"
+            columns: ["cycle_id"]
+            isOneToOne: false
+            referencedRelation: "recruitment_cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tutor_applications_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tutor_applications_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "faculties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tutor_applications_previous_application_id_fkey"
+            columns: ["previous_application_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_applications"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -207,9 +948,138 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      application_score_summaries: {
+        Row: {
+          application_id: string | null
+          average_score: number | null
+          cycle_id: string | null
+          needs_moderation: boolean | null
+          reviewer_count: number | null
+          spread: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_sheets_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tutor_applications_cycle_id_fkey"
+            columns: ["cycle_id"]
+            isOneToOne: false
+            referencedRelation: "recruitment_cycles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_sheet_totals: {
+        Row: {
+          application_id: string | null
+          reviewer_id: string | null
+          sheet_id: string | null
+          total: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_sheets_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      balance_reviewer_assignments: {
+        Args: {
+          _cycle_id: string
+        }
+        Returns: number
+      }
+      book_interview_slot: {
+        Args: {
+          _application_id: string
+          _slot_id: string
+        }
+        Returns: Database["public"]["Tables"]["interview_bookings"]["Row"]
+      }
+      bulk_update_applications: {
+        Args: {
+          _action: string
+          _application_ids: string[]
+          _reason?: string
+          _reviewer_id?: string
+        }
+        Returns: {
+          application_id: string
+          message: string
+          succeeded: boolean
+        }[]
+      }
+      clone_application: {
+        Args: {
+          _cycle_id: string
+          _reuse_documents?: boolean
+          _source_id: string
+        }
+        Returns: string
+      }
+      evaluate_eligibility: {
+        Args: {
+          _application_id: string
+        }
+        Returns: Json
+      }
+      get_application_status_counts: {
+        Args: {
+          _cycle_id: string
+        }
+        Returns: {
+          status: Database["public"]["Enums"]["application_status"]
+          total: number
+        }[]
+      }
+      get_interview_slot_availability: {
+        Args: {
+          _cycle_id: string
+        }
+        Returns: {
+          booked: number
+          slot_id: string
+        }[]
+      }
+      get_module_threshold: {
+        Args: {
+          _module_id: string
+        }
+        Returns: number
+      }
+      get_reviewer_workload: {
+        Args: {
+          _cycle_id: string
+        }
+        Returns: {
+          assigned: number
+          outstanding: number
+          reviewer_id: string
+          scored: number
+        }[]
+      }
+      get_unassigned_applications: {
+        Args: {
+          _cycle_id: string
+        }
+        Returns: string[]
+      }
+      get_unverified_required_documents: {
+        Args: {
+          _application_id: string
+        }
+        Returns: string[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -217,16 +1087,104 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_assigned_reviewer: {
+        Args: {
+          _application_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_cycle_finished: {
+        Args: {
+          _cycle_id: string
+        }
+        Returns: boolean
+      }
+      is_cycle_open: {
+        Args: {
+          _cycle_id: string
+        }
+        Returns: boolean
+      }
+      matches_availability: {
+        Args: {
+          _availability: Json
+          _end: string
+          _start: string
+          _weekday: number
+        }
+        Returns: boolean
+      }
+      save_review_sheet: {
+        Args: {
+          _application_id: string
+          _comments?: string
+          _scores: Json
+        }
+        Returns: Database["public"]["Tables"]["review_sheets"]["Row"]
+      }
+      search_applications: {
+        Args: {
+          _cycle_id: string
+          _end?: string
+          _faculty_id?: string
+          _limit?: number
+          _module_id?: string
+          _offset?: number
+          _search?: string
+          _sort?: string
+          _start?: string
+          _status?: Database["public"]["Enums"]["application_status"]
+          _weekday?: number
+        }
+        Returns: {
+          average_score: number
+          faculty: string
+          full_name: string
+          id: string
+          needs_moderation: boolean
+          rank: number
+          reviewer_count: number
+          snippet: string
+          spread: number
+          status: Database["public"]["Enums"]["application_status"]
+          student_number: string
+          submitted_at: string
+          total_count: number
+        }[]
+      }
+      set_application_modules: {
+        Args: {
+          _application_id: string
+          _modules: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "admin" | "student"
+      app_role: "admin" | "student" | "reviewer"
+      applicant_category: "local" | "international"
+      application_module_relation: "completed" | "tutor"
       application_status:
         | "draft"
         | "pending"
         | "under_review"
+        | "interview"
         | "approved"
         | "rejected"
+        | "withdrawn"
+      cycle_status: "draft" | "open" | "closed" | "archived"
+      document_scan_status: "pending" | "clean" | "quarantined"
+      document_verification_status: "unverified" | "verified" | "rejected"
+      eligibility_rule_type:
+        | "min_year_of_study"
+        | "current_registration"
+        | "min_module_mark"
+        | "required_documents"
+        | "age_range"
       gender_type: "male" | "female" | "other" | "prefer_not_to_say"
+      interview_attendance: "scheduled" | "attended" | "no_show"
+      interview_outcome: "recommended" | "not_recommended"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -354,15 +1312,31 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "student"],
+      app_role: ["admin", "student", "reviewer"],
+      applicant_category: ["local", "international"],
+      application_module_relation: ["completed", "tutor"],
       application_status: [
         "draft",
         "pending",
         "under_review",
+        "interview",
         "approved",
         "rejected",
+        "withdrawn",
+      ],
+      cycle_status: ["draft", "open", "closed", "archived"],
+      document_scan_status: ["pending", "clean", "quarantined"],
+      document_verification_status: ["unverified", "verified", "rejected"],
+      eligibility_rule_type: [
+        "min_year_of_study",
+        "current_registration",
+        "min_module_mark",
+        "required_documents",
+        "age_range",
       ],
       gender_type: ["male", "female", "other", "prefer_not_to_say"],
+      interview_attendance: ["scheduled", "attended", "no_show"],
+      interview_outcome: ["recommended", "not_recommended"],
     },
   },
 } as const
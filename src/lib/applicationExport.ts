@@ -0,0 +1,307 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ExportCell } from '@/lib/exports';
+import type { ApplicationModule, Module } from '@/lib/modules';
+import type { ScoreSummary } from '@/lib/scoring';
+import type { ApplicationStatus, StatusEvent } from '@/lib/statusEvents';
+import { parseAvailability, summarizeAvailability } from '@/lib/availability';
+import {
+  APPLICANT_CATEGORY_LABELS,
+  getApplicableRequirements,
+  type DocumentRequirement,
+  type DocumentVersion,
+} from '@/lib/documents';
+
+// Everything the columns read; motivation letters and addresses are left out
+const EXPORT_APPLICATION_COLUMNS =
+  'id, full_name, student_number, email, contact_number, nationality, applicant_category, faculty, faculty_id, department, degree_program, year_of_study, status, created_at, submitted_at, subjects_to_tutor, languages_spoken, skills_competencies, availability, rejection_reason, application_modules(module_id, relation, mark)';
+
+export type ExportApplication = Pick<
+  Tables<'tutor_applications'>,
+  | 'id'
+  | 'full_name'
+  | 'student_number'
+  | 'email'
+  | 'contact_number'
+  | 'nationality'
+  | 'applicant_category'
+  | 'faculty'
+  | 'faculty_id'
+  | 'department'
+  | 'degree_program'
+  | 'year_of_study'
+  | 'status'
+  | 'created_at'
+  | 'submitted_at'
+  | 'subjects_to_tutor'
+  | 'languages_spoken'
+  | 'skills_competencies'
+  | 'availability'
+  | 'rejection_reason'
+> & {
+  application_modules: Pick<ApplicationModule, 'module_id' | 'relation' | 'mark'>[];
+};
+
+type ExportDocument = Pick<DocumentVersion, 'application_id' | 'document_type' | 'verification_status' | 'scan_status'>;
+
+export interface ExportContext {
+  modules: Module[];
+  requirements: DocumentRequirement[];
+  statusLabels: Record<string, string>;
+  scoreSummaries: Record<string, ScoreSummary>;
+  /** Status history per application id, oldest first */
+  statusEvents: Record<string, StatusEvent[]>;
+  /** Current document versions per application id */
+  documents: Record<string, ExportDocument[]>;
+}
+
+export type ExportColumnGroup = 'Applicant' | 'Application' | 'Subjects' | 'Status history' | 'Documents';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  group: ExportColumnGroup;
+  /** Included until the admin changes the column selection */
+  isDefault: boolean;
+  value: (application: ExportApplication, context: ExportContext) => ExportCell;
+}
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString('en-ZA') : '';
+
+const moduleCodes = (application: ExportApplication, context: ExportContext, relation: ApplicationModule['relation']) =>
+  context.modules
+    .filter(m => application.application_modules.some(am => am.relation === relation && am.module_id === m.id))
+    .map(m => m.code);
+
+/** When an application most recently entered a status, from its history */
+const enteredStatus = (application: ExportApplication, context: ExportContext, status: ApplicationStatus) =>
+  formatDate(
+    (context.statusEvents[application.id] ?? []).filter(e => e.to_status === status).pop()?.created_at
+  );
+
+/** Required documents that apply to the applicant, with what was uploaded and verified */
+const documentCompleteness = (application: ExportApplication, context: ExportContext) => {
+  const required = getApplicableRequirements(context.requirements, application).filter(r => r.is_required);
+  const current = context.documents[application.id] ?? [];
+  const uploaded = required.filter(r =>
+    current.some(d => d.document_type === r.document_type && d.scan_status !== 'quarantined')
+  );
+  const verified = required.filter(r =>
+    current.some(d => d.document_type === r.document_type && d.verification_status === 'verified')
+  );
+
+  return { required, uploaded, verified };
+};
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'full_name', label: 'Name', group: 'Applicant', isDefault: true, value: a => a.full_name },
+  { key: 'student_number', label: 'Student Number', group: 'Applicant', isDefault: true, value: a => a.student_number },
+  { key: 'email', label: 'Email', group: 'Applicant', isDefault: true, value: a => a.email },
+  { key: 'contact_number', label: 'Contact Number', group: 'Applicant', isDefault: false, value: a => a.contact_number },
+  { key: 'nationality', label: 'Nationality', group: 'Applicant', isDefault: false, value: a => a.nationality },
+  {
+    key: 'applicant_category',
+    label: 'Category',
+    group: 'Applicant',
+    isDefault: false,
+    value: a => APPLICANT_CATEGORY_LABELS[a.applicant_category] ?? a.applicant_category,
+  },
+  { key: 'languages', label: 'Languages', group: 'Applicant', isDefault: false, value: a => a.languages_spoken },
+  { key: 'skills', label: 'Skills', group: 'Applicant', isDefault: false, value: a => a.skills_competencies },
+
+  { key: 'faculty', label: 'Faculty', group: 'Application', isDefault: true, value: a => a.faculty },
+  { key: 'department', label: 'Department', group: 'Application', isDefault: true, value: a => a.department },
+  { key: 'degree_program', label: 'Degree', group: 'Application', isDefault: false, value: a => a.degree_program },
+  { key: 'year_of_study', label: 'Year of Study', group: 'Application', isDefault: false, value: a => a.year_of_study },
+  {
+    key: 'status',
+    label: 'Status',
+    group: 'Application',
+    isDefault: true,
+    value: (a, context) => context.statusLabels[a.status] ?? a.status,
+  },
+  {
+    key: 'score',
+    label: 'Average Score',
+    group: 'Application',
+    isDefault: true,
+    value: (a, context) => context.scoreSummaries[a.id]?.average_score ?? null,
+  },
+  {
+    key: 'availability',
+    label: 'Availability',
+    group: 'Application',
+    isDefault: false,
+    value: a => summarizeAvailability(parseAvailability(a.availability)),
+  },
+  { key: 'rejection_reason', label: 'Rejection Reason', group: 'Application', isDefault: false, value: a => a.rejection_reason },
+
+  {
+    key: 'tutor_modules',
+    label: 'Modules to Tutor',
+    group: 'Subjects',
+    isDefault: true,
+    value: (a, context) => moduleCodes(a, context, 'tutor').join(', ') || a.subjects_to_tutor,
+  },
+  {
+    key: 'tutor_marks',
+    label: 'Marks',
+    group: 'Subjects',
+    isDefault: false,
+    value: (a, context) =>
+      context.modules
+        .flatMap(m => {
+          const row = a.application_modules.find(am => am.relation === 'tutor' && am.module_id === m.id);
+          return row && row.mark !== null ? [`${m.code} ${Number(row.mark)}%`] : [];
+        })
+        .join(', '),
+  },
+  {
+    key: 'completed_modules',
+    label: 'Completed Modules',
+    group: 'Subjects',
+    isDefault: false,
+    value: (a, context) => moduleCodes(a, context, 'completed').join(', '),
+  },
+
+  { key: 'started', label: 'Started', group: 'Status history', isDefault: false, value: a => formatDate(a.created_at) },
+  { key: 'submitted', label: 'Submitted', group: 'Status history', isDefault: true, value: a => formatDate(a.submitted_at) },
+  {
+    key: 'review_started',
+    label: 'Review Started',
+    group: 'Status history',
+    isDefault: false,
+    value: (a, context) => enteredStatus(a, context, 'under_review'),
+  },
+  {
+    key: 'shortlisted',
+    label: 'Shortlisted for Interview',
+    group: 'Status history',
+    isDefault: false,
+    value: (a, context) => enteredStatus(a, context, 'interview'),
+  },
+  {
+    key: 'decided',
+    label: 'Decision Date',
+    group: 'Status history',
+    isDefault: false,
+    value: (a, context) =>
+      a.status === 'approved' || a.status === 'rejected' ? enteredStatus(a, context, a.status) : '',
+  },
+  {
+    key: 'withdrawn',
+    label: 'Withdrawn',
+    group: 'Status history',
+    isDefault: false,
+    value: (a, context) => (a.status === 'withdrawn' ? enteredStatus(a, context, 'withdrawn') : ''),
+  },
+
+  {
+    key: 'documents_uploaded',
+    label: 'Documents Uploaded',
+    group: 'Documents',
+    isDefault: true,
+    value: (a, context) => {
+      const { required, uploaded } = documentCompleteness(a, context);
+      return `${uploaded.length}/${required.length}`;
+    },
+  },
+  {
+    key: 'documents_verified',
+    label: 'Documents Verified',
+    group: 'Documents',
+    isDefault: false,
+    value: (a, context) => {
+      const { required, verified } = documentCompleteness(a, context);
+      return `${verified.length}/${required.length}`;
+    },
+  },
+  {
+    key: 'documents_missing',
+    label: 'Missing Documents',
+    group: 'Documents',
+    isDefault: false,
+    value: (a, context) => {
+      const { required, uploaded } = documentCompleteness(a, context);
+      return required.filter(r => !uploaded.includes(r)).map(r => r.label).join(', ');
+    },
+  },
+];
+
+export const EXPORT_COLUMN_GROUPS: ExportColumnGroup[] = ['Applicant', 'Application', 'Subjects', 'Status history', 'Documents'];
+
+export const DEFAULT_EXPORT_COLUMNS = EXPORT_COLUMNS.filter(c => c.isDefault).map(c => c.key);
+
+// Ids are sent in the query string, so large exports are fetched in batches
+const ID_BATCH_SIZE = 150;
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+const groupByApplication = <T extends { application_id: string }>(rows: T[]) =>
+  rows.reduce<Record<string, T[]>>((groups, row) => {
+    groups[row.application_id] = [...(groups[row.application_id] ?? []), row];
+    return groups;
+  }, {});
+
+export type ExportData = Pick<ExportContext, 'scoreSummaries' | 'statusEvents' | 'documents'> & {
+  applications: ExportApplication[];
+};
+
+/**
+ * The exported applications, in the order of `applicationIds`, with their
+ * scores, status history and current documents
+ */
+export const fetchExportData = async (applicationIds: string[]): Promise<ExportData> => {
+  const batches = await Promise.all(
+    chunk(applicationIds, ID_BATCH_SIZE).map(async ids => {
+      const [applications, scores, events, documents] = await Promise.all([
+        supabase.from('tutor_applications').select(EXPORT_APPLICATION_COLUMNS).in('id', ids),
+        supabase.from('application_score_summaries').select('*').in('application_id', ids),
+        supabase.from('application_status_events').select('*').in('application_id', ids).order('created_at'),
+        supabase
+          .from('application_documents')
+          .select('application_id, document_type, verification_status, scan_status')
+          .in('application_id', ids)
+          .eq('is_current', true),
+      ]);
+
+      if (applications.error) throw applications.error;
+      if (scores.error) throw scores.error;
+      if (events.error) throw events.error;
+      if (documents.error) throw documents.error;
+      return {
+        applications: applications.data || [],
+        scores: scores.data || [],
+        events: events.data || [],
+        documents: documents.data || [],
+      };
+    })
+  );
+
+  const applications = new Map(batches.flatMap(b => b.applications).map(a => [a.id, a]));
+  return {
+    applications: applicationIds
+      .map(id => applications.get(id))
+      .filter((a): a is ExportApplication => !!a),
+    scoreSummaries: Object.fromEntries(batches.flatMap(b => b.scores).map(s => [s.application_id, s])),
+    statusEvents: groupByApplication(batches.flatMap(b => b.events)),
+    documents: groupByApplication(batches.flatMap(b => b.documents)),
+  };
+};
+
+/**
+ * Header row followed by one row per application, in the given column order
+ */
+export const buildExportRows = (
+  applications: ExportApplication[],
+  columnKeys: string[],
+  context: ExportContext
+): ExportCell[][] => {
+  const columns = EXPORT_COLUMNS.filter(c => columnKeys.includes(c.key));
+  return [
+    columns.map(c => c.label),
+    ...applications.map(application => columns.map(c => c.value(application, context))),
+  ];
+};
@@ -0,0 +1,376 @@
+import { z } from 'zod';
+import { BookOpen, Briefcase, CheckCircle2, Upload, User, type LucideIcon } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { isAvailabilitySlot, parseAvailability, summarizeAvailability, type AvailabilitySlot } from '@/lib/availability';
+import { APPLICANT_CATEGORY_LABELS, type ApplicantCategory } from '@/lib/documents';
+import { getDepartmentsForFaculty, type Department, type Faculty } from '@/lib/faculties';
+import { formatModuleCodes, type Module, type ModuleSelection } from '@/lib/modules';
+import { formatMark } from '@/lib/marks';
+
+/**
+ * Declarative definition of the tutor application form. Apply, EditApplication,
+ * the Review step and ApplicationView all render from APPLICATION_STEPS, so a
+ * new field only needs adding to the schema and to one step here.
+ */
+
+export const REGISTRATION_YEARS = [-1, 0, 1].map(offset => new Date().getFullYear() + offset);
+
+export const applicationSchema = z.object({
+  // Personal Information
+  full_name: z.string().min(2, 'Full name is required').max(100),
+  student_number: z.string().min(5, 'Valid student number is required').max(20),
+  date_of_birth: z.string().min(1, 'Date of birth is required'),
+  gender: z.enum(['male', 'female', 'other', 'prefer_not_to_say']).optional(),
+  nationality: z.string().min(2, 'Nationality is required'),
+  applicant_category: z.enum(['local', 'international']),
+  residential_address: z.string().min(10, 'Full address is required'),
+  contact_number: z.string().min(10, 'Valid contact number is required').max(15),
+
+  // Academic Information
+  degree_program: z.string().min(2, 'Degree program is required'),
+  faculty_id: z.string().min(1, 'Faculty is required'),
+  department_id: z.string().min(1, 'Department is required'),
+  year_of_study: z.coerce.number().min(1).max(7),
+  registration_year: z.coerce.number().min(2000, 'Registration year is required').max(2100),
+  subjects_completed: z.array(z.string()).min(1, 'Select at least one module'),
+  subjects_to_tutor: z.array(z.string()).min(1, 'Select at least one module'),
+  module_marks: z.record(z.string(), z.number().min(0, 'Marks cannot be negative').max(100, 'Marks are out of 100')),
+
+  // Employment Information
+  previous_tutoring_experience: z.string().optional(),
+  work_experience: z.string().optional(),
+  skills_competencies: z.string().min(1, 'List your skills'),
+  languages_spoken: z.string().min(1, 'List languages you speak'),
+  availability: z.array(z.custom<AvailabilitySlot>(isAvailabilitySlot)).min(1, 'Select at least one time slot'),
+  availability_notes: z.string().max(500).optional(),
+  motivation_letter: z.string().min(100, 'Motivation letter must be at least 100 characters').max(2000),
+});
+
+export type ApplicationFormData = z.infer<typeof applicationSchema>;
+export type ApplicationFieldName = keyof ApplicationFormData;
+export type ApplicationFormValues = Partial<ApplicationFormData>;
+
+export const DEFAULT_FORM_VALUES: ApplicationFormData = {
+  full_name: '',
+  student_number: '',
+  date_of_birth: '',
+  gender: undefined,
+  nationality: 'South African',
+  applicant_category: 'local',
+  residential_address: '',
+  contact_number: '',
+  degree_program: '',
+  faculty_id: '',
+  department_id: '',
+  year_of_study: 1,
+  registration_year: new Date().getFullYear(),
+  subjects_completed: [],
+  subjects_to_tutor: [],
+  module_marks: {},
+  previous_tutoring_experience: '',
+  work_experience: '',
+  skills_competencies: '',
+  languages_spoken: 'English',
+  availability: [],
+  availability_notes: '',
+  motivation_letter: '',
+};
+
+export type FieldType = 'text' | 'tel' | 'date' | 'textarea' | 'select' | 'modules' | 'marks' | 'availability';
+
+export interface FieldOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Catalogue data that field options and summaries are drawn from
+ */
+export interface FormCatalogue {
+  modules: Module[];
+  faculties: Faculty[];
+  departments: Department[];
+}
+
+export interface FieldDefinition {
+  name: ApplicationFieldName;
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  placeholder?: string;
+  description?: string;
+  /** Select options, which may depend on other answers (e.g. departments of the chosen faculty) */
+  options?: (values: ApplicationFormValues, catalogue: FormCatalogue) => FieldOption[];
+  /** Answers that no longer apply once this field changes */
+  clears?: ApplicationFieldName[];
+  /** Store the selected option as a number rather than a string */
+  numeric?: boolean;
+  /** Sit side by side with the neighbouring half-width field */
+  half?: boolean;
+  /** Extra classes for the input, e.g. a taller textarea */
+  className?: string;
+  /** Hidden fields are not rendered, validated on Next, or shown in summaries */
+  visibleWhen?: (values: ApplicationFormValues) => boolean;
+  disabledWhen?: (values: ApplicationFormValues) => boolean;
+}
+
+export interface StepDefinition {
+  id: number;
+  title: string;
+  heading: string;
+  description: string;
+  icon: LucideIcon;
+  fields: FieldDefinition[];
+}
+
+/**
+ * Active catalogue entries, plus the current answer if it has since been retired
+ */
+const toCatalogueOptions = (entries: (Faculty | Department)[], selectedId: string | undefined): FieldOption[] =>
+  entries
+    .filter(entry => entry.is_active || entry.id === selectedId)
+    .map(entry => ({ value: entry.id, label: entry.name }));
+
+const APPLICANT_CATEGORY_OPTIONS: FieldOption[] = (Object.keys(APPLICANT_CATEGORY_LABELS) as ApplicantCategory[])
+  .map(category => ({ value: category, label: APPLICANT_CATEGORY_LABELS[category] }));
+
+const GENDER_OPTIONS: FieldOption[] = [
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+  { value: 'other', label: 'Other' },
+  { value: 'prefer_not_to_say', label: 'Prefer not to say' },
+];
+
+export const APPLICATION_STEPS: StepDefinition[] = [
+  {
+    id: 1,
+    title: 'Personal Info',
+    heading: 'Personal Information',
+    description: 'Tell us about yourself',
+    icon: User,
+    fields: [
+      { name: 'full_name', label: 'Full Name', type: 'text', required: true, placeholder: 'Enter your full name' },
+      { name: 'student_number', label: 'Student Number', type: 'text', required: true, placeholder: 'e.g., 201900001', half: true },
+      { name: 'date_of_birth', label: 'Date of Birth', type: 'date', required: true, half: true },
+      { name: 'gender', label: 'Gender', type: 'select', placeholder: 'Select gender', options: () => GENDER_OPTIONS, half: true },
+      { name: 'nationality', label: 'Nationality', type: 'text', required: true, placeholder: 'e.g., South African', half: true },
+      {
+        name: 'applicant_category',
+        label: 'Applicant Type',
+        type: 'select',
+        required: true,
+        placeholder: 'Select applicant type',
+        description: 'Determines which supporting documents you need to upload',
+        options: () => APPLICANT_CATEGORY_OPTIONS,
+      },
+      { name: 'residential_address', label: 'Residential Address', type: 'textarea', required: true, placeholder: 'Enter your full residential address' },
+      { name: 'contact_number', label: 'Contact Number', type: 'tel', required: true, placeholder: 'e.g., 0821234567' },
+    ],
+  },
+  {
+    id: 2,
+    title: 'Academic Info',
+    heading: 'Academic Information',
+    description: 'Tell us about your studies',
+    icon: BookOpen,
+    fields: [
+      { name: 'degree_program', label: 'Degree Program', type: 'text', required: true, placeholder: 'e.g., Bachelor of Science in Computer Science' },
+      {
+        name: 'faculty_id',
+        label: 'Faculty',
+        type: 'select',
+        required: true,
+        placeholder: 'Select faculty',
+        options: (values, { faculties }) => toCatalogueOptions(faculties, values.faculty_id),
+        clears: ['department_id'],
+        half: true,
+      },
+      {
+        name: 'department_id',
+        label: 'Department',
+        type: 'select',
+        required: true,
+        placeholder: 'Select department',
+        options: (values, { departments }) =>
+          toCatalogueOptions(getDepartmentsForFaculty(departments, values.faculty_id), values.department_id),
+        disabledWhen: (values) => !values.faculty_id,
+        half: true,
+      },
+      {
+        name: 'year_of_study',
+        label: 'Year of Study',
+        type: 'select',
+        required: true,
+        placeholder: 'Select year',
+        options: () => [1, 2, 3, 4, 5, 6, 7].map(year => ({ value: year.toString(), label: `Year ${year}` })),
+        numeric: true,
+      },
+      {
+        name: 'registration_year',
+        label: 'Registered For',
+        type: 'select',
+        required: true,
+        placeholder: 'Select academic year',
+        description: 'The academic year you are currently registered for',
+        options: () => REGISTRATION_YEARS.map(year => ({ value: year.toString(), label: `${year} academic year` })),
+        numeric: true,
+      },
+      { name: 'subjects_completed', label: 'Modules Completed', type: 'modules', required: true, description: 'Search by module code, e.g. MAT 112' },
+      { name: 'subjects_to_tutor', label: 'Modules You Want to Tutor', type: 'modules', required: true, description: 'Pick the modules you are able to tutor' },
+      {
+        name: 'module_marks',
+        label: 'Final Marks',
+        type: 'marks',
+        required: true,
+        description: 'Enter the final mark you achieved for each module you want to tutor',
+        visibleWhen: (values) => (values.subjects_to_tutor?.length ?? 0) > 0,
+      },
+    ],
+  },
+  {
+    id: 3,
+    title: 'Experience',
+    heading: 'Experience & Skills',
+    description: 'Share your experience and competencies',
+    icon: Briefcase,
+    fields: [
+      { name: 'previous_tutoring_experience', label: 'Previous Tutoring Experience', type: 'textarea', placeholder: 'Describe any previous tutoring experience (optional)' },
+      { name: 'work_experience', label: 'Work Experience', type: 'textarea', placeholder: 'Describe any relevant work experience (optional)' },
+      {
+        name: 'skills_competencies',
+        label: 'Skills & Competencies',
+        type: 'textarea',
+        required: true,
+        placeholder: 'e.g., Communication, Patience, Problem-solving',
+        description: 'Separate each skill with a comma',
+      },
+      {
+        name: 'languages_spoken',
+        label: 'Languages Spoken',
+        type: 'text',
+        required: true,
+        placeholder: 'e.g., English, Xhosa, Afrikaans',
+        description: 'Separate each language with a comma',
+      },
+      { name: 'availability', label: 'Availability', type: 'availability', required: true, description: 'Select every time slot you could regularly tutor in' },
+      { name: 'availability_notes', label: 'Availability Notes', type: 'text', placeholder: 'e.g., Not available during test weeks (optional)' },
+      {
+        name: 'motivation_letter',
+        label: 'Motivation Letter',
+        type: 'textarea',
+        required: true,
+        placeholder: 'Tell us why you want to become a tutor and what you can offer...',
+        className: 'min-h-[150px]',
+        description: 'Minimum 100 characters',
+      },
+    ],
+  },
+  {
+    id: 4,
+    title: 'Documents',
+    heading: 'Required Documents',
+    description: 'Upload the documents that apply to your application',
+    icon: Upload,
+    fields: [],
+  },
+  {
+    id: 5,
+    title: 'Review',
+    heading: 'Review Your Application',
+    description: 'Please review your information before submitting',
+    icon: CheckCircle2,
+    fields: [],
+  },
+];
+
+export const DOCUMENTS_STEP = 4;
+export const REVIEW_STEP = APPLICATION_STEPS.length;
+
+/** Steps that collect form fields, in order, for rendering summaries */
+export const FIELD_STEPS = APPLICATION_STEPS.filter(step => step.fields.length > 0);
+
+export const getStep = (stepId: number) => APPLICATION_STEPS.find(step => step.id === stepId) ?? APPLICATION_STEPS[0];
+
+export const isFieldVisible = (field: FieldDefinition, values: ApplicationFormValues) =>
+  !field.visibleWhen || field.visibleWhen(values);
+
+export const getVisibleFields = (step: StepDefinition, values: ApplicationFormValues) =>
+  step.fields.filter(field => isFieldVisible(field, values));
+
+/**
+ * Names of the visible fields on a step, for validating before moving on
+ */
+export const getFieldsForStep = (stepId: number, values: ApplicationFormValues): ApplicationFieldName[] =>
+  getVisibleFields(getStep(stepId), values).map(field => field.name);
+
+/**
+ * Summaries print long answers on their own row
+ */
+export const isWideField = (field: FieldDefinition) =>
+  field.type === 'textarea' || field.type === 'modules' || field.type === 'marks' || field.type === 'availability';
+
+const joinList = (value: string | string[] | null | undefined) =>
+  Array.isArray(value) ? value.join(', ') : (value || '');
+
+/**
+ * Form values for a stored application and its module selection
+ */
+export const toFormValues = (
+  application: Tables<'tutor_applications'>,
+  selection: ModuleSelection
+): ApplicationFormData => ({
+  full_name: application.full_name || '',
+  student_number: application.student_number || '',
+  date_of_birth: application.date_of_birth || '',
+  gender: application.gender || undefined,
+  nationality: application.nationality || '',
+  applicant_category: application.applicant_category || 'local',
+  residential_address: application.residential_address || '',
+  contact_number: application.contact_number || '',
+  degree_program: application.degree_program || '',
+  faculty_id: application.faculty_id || '',
+  department_id: application.department_id || '',
+  year_of_study: application.year_of_study || 1,
+  registration_year: application.registration_year || new Date().getFullYear(),
+  subjects_completed: selection.completed,
+  subjects_to_tutor: selection.tutor,
+  module_marks: selection.marks ?? {},
+  previous_tutoring_experience: application.previous_tutoring_experience || '',
+  work_experience: application.work_experience || '',
+  skills_competencies: joinList(application.skills_competencies),
+  languages_spoken: joinList(application.languages_spoken),
+  availability: parseAvailability(application.availability),
+  availability_notes: application.availability_notes || '',
+  motivation_letter: application.motivation_letter || '',
+});
+
+/**
+ * Display text for a field's answer in the Review step and ApplicationView
+ */
+export const formatFieldValue = (field: FieldDefinition, values: ApplicationFormValues, catalogue: FormCatalogue) => {
+  const { modules } = catalogue;
+  const value = values[field.name];
+  const empty = field.required ? '—' : 'Not specified';
+
+  switch (field.type) {
+    case 'modules':
+      return formatModuleCodes((value as string[] | undefined) ?? [], modules) || empty;
+    case 'marks': {
+      const marks = (value as Record<string, number> | undefined) ?? {};
+      const tutorIds = values.subjects_to_tutor ?? [];
+      return modules
+        .filter(m => tutorIds.includes(m.id))
+        .map(m => `${m.code}: ${formatMark(marks[m.id])}`)
+        .join(', ') || empty;
+    }
+    case 'availability':
+      return summarizeAvailability((value as AvailabilitySlot[] | undefined) ?? []);
+    case 'select': {
+      if (value === undefined || value === null || value === '') return empty;
+      const option = field.options?.(values, catalogue).find(o => o.value === String(value));
+      return option?.label ?? String(value);
+    }
+    default:
+      return typeof value === 'string' && value.trim() ? value : empty;
+  }
+};
@@ -0,0 +1,229 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Constants, type Database } from '@/integrations/supabase/types';
+import { TIME_SLOTS } from '@/lib/availability';
+import type { ApplicationStatus } from '@/lib/statusEvents';
+
+type SearchRow = Database['public']['Functions']['search_applications']['Returns'][number];
+
+/**
+ * A row of the admin list. Score columns are null until someone scores the
+ * application, and rank and snippet are null unless the search matched what
+ * the applicant wrote.
+ */
+export type ApplicationListItem = Omit<
+  SearchRow,
+  'reviewer_count' | 'average_score' | 'spread' | 'needs_moderation' | 'submitted_at' | 'rank' | 'snippet' | 'total_count'
+> & {
+  reviewer_count: number | null;
+  average_score: number | null;
+  spread: number | null;
+  needs_moderation: boolean | null;
+  submitted_at: string | null;
+  rank: number | null;
+  snippet: string | null;
+};
+
+export type MatchingApplication = Pick<ApplicationListItem, 'id' | 'full_name' | 'student_number'>;
+
+export const APPLICATION_SORTS = {
+  relevance: 'Best match',
+  submitted_desc: 'Newest first',
+  submitted_asc: 'Oldest first',
+  name_asc: 'Name (A–Z)',
+  name_desc: 'Name (Z–A)',
+  student_number: 'Student number',
+  status: 'Status',
+  score_desc: 'Highest score',
+  score_asc: 'Lowest score',
+  spread: 'Most disagreement',
+};
+
+export type ApplicationSort = keyof typeof APPLICATION_SORTS;
+
+export const APPLICATION_PAGE_SIZE = 25;
+
+/**
+ * Search, filters, sort and page of the admin list. Kept in the URL so a
+ * filtered list can be bookmarked, shared and returned to.
+ */
+export interface ApplicationListQuery {
+  search: string;
+  status: ApplicationStatus | 'all';
+  facultyId: string;
+  moduleId: string;
+  weekday: string;
+  time: string;
+  sort: ApplicationSort;
+  page: number;
+}
+
+export const DEFAULT_LIST_QUERY: ApplicationListQuery = {
+  search: '',
+  status: 'all',
+  facultyId: 'all',
+  moduleId: 'all',
+  weekday: 'all',
+  time: 'all',
+  sort: 'submitted_desc',
+  page: 1,
+};
+
+const QUERY_PARAMS: Record<keyof ApplicationListQuery, string> = {
+  search: 'q',
+  status: 'status',
+  facultyId: 'faculty',
+  moduleId: 'module',
+  weekday: 'day',
+  time: 'time',
+  sort: 'sort',
+  page: 'page',
+};
+
+export const parseListQuery = (params: URLSearchParams): ApplicationListQuery => {
+  const value = (key: keyof ApplicationListQuery) => params.get(QUERY_PARAMS[key]) ?? String(DEFAULT_LIST_QUERY[key]);
+  const status = value('status');
+  const sort = value('sort');
+  const page = Number(value('page'));
+
+  // Hand-edited or stale links fall back to the defaults rather than failing the query
+  return {
+    search: value('search'),
+    status: (Constants.public.Enums.application_status as readonly string[]).includes(status)
+      ? (status as ApplicationStatus)
+      : 'all',
+    facultyId: value('facultyId'),
+    moduleId: value('moduleId'),
+    weekday: value('weekday'),
+    time: value('time'),
+    sort: sort in APPLICATION_SORTS ? (sort as ApplicationSort) : DEFAULT_LIST_QUERY.sort,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+};
+
+/**
+ * Apply changes to the query in `params`, leaving other parameters alone.
+ * Defaults are left out of the URL, and any change other than the page
+ * goes back to the first page.
+ */
+export const withListQuery = (params: URLSearchParams, changes: Partial<ApplicationListQuery>) => {
+  const next = new URLSearchParams(params);
+  const query = { ...parseListQuery(params), page: 1, ...changes };
+
+  (Object.keys(QUERY_PARAMS) as (keyof ApplicationListQuery)[]).forEach(key => {
+    if (String(query[key]) === String(DEFAULT_LIST_QUERY[key])) {
+      next.delete(QUERY_PARAMS[key]);
+    } else {
+      next.set(QUERY_PARAMS[key], String(query[key]));
+    }
+  });
+
+  return next;
+};
+
+/**
+ * Change the search term. A new search is sorted by best match unless the
+ * admin picked another order, and clearing it goes back to the default.
+ */
+export const withSearch = (params: URLSearchParams, search: string) => {
+  const { sort } = parseListQuery(params);
+  const isSearching = search.trim() !== '';
+
+  if (isSearching && sort === DEFAULT_LIST_QUERY.sort) {
+    return withListQuery(params, { search, sort: 'relevance' });
+  }
+  if (!isSearching && sort === 'relevance') {
+    return withListQuery(params, { search, sort: DEFAULT_LIST_QUERY.sort });
+  }
+  return withListQuery(params, { search });
+};
+
+// Match markers set in search_applications' ts_headline options
+const SNIPPET_START = '⟦';
+const SNIPPET_STOP = '⟧';
+
+/**
+ * Split a search snippet into plain text and matched words, so matches can
+ * be highlighted without rendering the applicant's text as HTML
+ */
+export const splitSnippet = (snippet: string) =>
+  snippet.split(SNIPPET_START).flatMap((part, index) => {
+    if (index === 0) return [{ text: part, isMatch: false }];
+    const [match, ...rest] = part.split(SNIPPET_STOP);
+    return [{ text: match, isMatch: true }, { text: rest.join(SNIPPET_STOP), isMatch: false }];
+  }).filter(part => part.text !== '');
+
+const toSearchArgs = (cycleId: string, query: ApplicationListQuery) => {
+  const timeSlot = TIME_SLOTS.find(t => t.start === query.time);
+
+  return {
+    _cycle_id: cycleId,
+    _search: query.search.trim() || undefined,
+    _status: query.status === 'all' ? undefined : query.status,
+    _faculty_id: query.facultyId === 'all' ? undefined : query.facultyId,
+    _module_id: query.moduleId === 'all' ? undefined : query.moduleId,
+    _weekday: query.weekday === 'all' ? undefined : Number(query.weekday),
+    _start: timeSlot?.start,
+    _end: timeSlot?.end,
+    _sort: query.sort,
+  };
+};
+
+/** How many applications match the query across all pages */
+const countMatchingApplications = async (cycleId: string, query: ApplicationListQuery) => {
+  const { count, error } = await supabase.rpc('search_applications', toSearchArgs(cycleId, query), {
+    count: 'exact',
+    head: true,
+  });
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+/**
+ * One page of a cycle's submitted applications and how many match in total.
+ * The total comes with the rows, so a page past the end is counted separately.
+ */
+export const fetchApplicationPage = async (
+  cycleId: string,
+  query: ApplicationListQuery
+): Promise<{ applications: ApplicationListItem[]; total: number }> => {
+  const { data, error } = await supabase.rpc('search_applications', {
+    ...toSearchArgs(cycleId, query),
+    _limit: APPLICATION_PAGE_SIZE,
+    _offset: (query.page - 1) * APPLICATION_PAGE_SIZE,
+  });
+
+  if (error) throw error;
+  const rows = data || [];
+  if (rows.length === 0 && query.page > 1) {
+    return { applications: [], total: await countMatchingApplications(cycleId, query) };
+  }
+
+  return {
+    applications: rows.map(({ total_count, ...application }) => application),
+    total: rows[0]?.total_count ?? 0,
+  };
+};
+
+/**
+ * Every application matching the query across all pages, in list order
+ */
+export const fetchMatchingApplications = async (
+  cycleId: string,
+  query: ApplicationListQuery = DEFAULT_LIST_QUERY
+): Promise<MatchingApplication[]> => {
+  const { data, error } = await supabase
+    .rpc('search_applications', toSearchArgs(cycleId, query))
+    .select('id, full_name, student_number');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/** Submitted applications per status in a cycle */
+export const fetchStatusCounts = async (cycleId: string): Promise<Partial<Record<ApplicationStatus, number>>> => {
+  const { data, error } = await supabase.rpc('get_application_status_counts', { _cycle_id: cycleId });
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(({ status, total }) => [status, total]));
+};
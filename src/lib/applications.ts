@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { requestDocumentScan } from '@/lib/documents';
+import { isCycleFinished, type RecruitmentCycle } from '@/lib/recruitmentCycles';
+import type { ApplicationStatus } from '@/lib/statusEvents';
+
+/** Statuses a student can still edit until the application's cycle is finished */
+export const EDITABLE_STATUSES: ApplicationStatus[] = ['draft', 'pending'];
+
+/** Outcomes a student can start a new application from */
+export const REAPPLY_STATUSES: ApplicationStatus[] = ['rejected', 'withdrawn'];
+
+export type PreviousApplication = Pick<
+  Tables<'tutor_applications'>,
+  'id' | 'status' | 'cycle_id' | 'created_at' | 'submitted_at'
+> & {
+  recruitment_cycles: Pick<Tables<'recruitment_cycles'>, 'name'> | null;
+};
+
+export type StudentApplication = Pick<
+  Tables<'tutor_applications'>,
+  | 'id'
+  | 'status'
+  | 'cycle_id'
+  | 'created_at'
+  | 'submitted_at'
+  | 'reviewed_at'
+  | 'rejection_reason'
+  | 'withdrawal_reason'
+  | 'withdrawn_at'
+  | 'full_name'
+  | 'degree_program'
+  | 'faculty'
+> & {
+  recruitment_cycles: RecruitmentCycle | null;
+};
+
+/**
+ * Every application a student has made, newest first, with its cycle
+ */
+export const fetchStudentApplications = async (userId: string): Promise<StudentApplication[]> => {
+  const { data, error } = await supabase
+    .from('tutor_applications')
+    .select(
+      'id, status, cycle_id, created_at, submitted_at, reviewed_at, rejection_reason, withdrawal_reason, withdrawn_at, full_name, degree_program, faculty, recruitment_cycles(*)'
+    )
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * The application to feature on the dashboard: the most recent one in a
+ * cycle that is still running, otherwise the most recent
+ */
+export const getCurrentApplication = (applications: StudentApplication[]) =>
+  applications.find(a => !isCycleFinished(a.recruitment_cycles)) ?? applications[0] ?? null;
+
+/**
+ * Applications from finished cycles are kept as history and can only be viewed
+ */
+export const isApplicationEditable = (
+  application: Pick<Tables<'tutor_applications'>, 'status'>,
+  cycle: Pick<RecruitmentCycle, 'status'> | null | undefined
+) => EDITABLE_STATUSES.includes(application.status) && !isCycleFinished(cycle);
+
+/**
+ * The student's most recent rejected or withdrawn application, offered as a
+ * starting point when they have not applied in `cycleId` yet. Mirrors the
+ * checks in public.clone_application.
+ */
+export const fetchReapplySource = async (userId: string, cycleId: string): Promise<PreviousApplication | null> => {
+  const { data, error } = await supabase
+    .from('tutor_applications')
+    .select('id, status, cycle_id, created_at, submitted_at, recruitment_cycles(name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const applications = data || [];
+  if (applications.some(a => a.cycle_id === cycleId)) return null;
+  return applications.find(a => REAPPLY_STATUSES.includes(a.status)) ?? null;
+};
+
+/**
+ * Start a draft in `cycleId` from an earlier application. Reused documents
+ * are checked again before reviewers can open them; a scan that cannot run
+ * now is retried on review.
+ */
+export const cloneApplication = async (sourceId: string, cycleId: string, reuseDocuments: boolean): Promise<string> => {
+  const { data: applicationId, error } = await supabase.rpc('clone_application', {
+    _source_id: sourceId,
+    _cycle_id: cycleId,
+    _reuse_documents: reuseDocuments,
+  });
+
+  if (error) throw error;
+
+  if (reuseDocuments) {
+    const { data: documents, error: documentsError } = await supabase
+      .from('application_documents')
+      .select('id')
+      .eq('application_id', applicationId)
+      .eq('scan_status', 'pending');
+
+    if (documentsError) throw documentsError;
+    await Promise.all((documents || []).map(d => requestDocumentScan(d.id)));
+  }
+
+  return applicationId;
+};
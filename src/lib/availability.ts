@@ -0,0 +1,114 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * A single block of weekly availability. Weekdays use ISO numbering
+ * (1 = Monday ... 7 = Sunday) and times are 24-hour "HH:MM" strings.
+ */
+export type AvailabilitySlot = {
+  weekday: number;
+  start: string;
+  end: string;
+};
+
+export const WEEKDAYS = [
+  { value: 1, label: 'Monday', short: 'Mon' },
+  { value: 2, label: 'Tuesday', short: 'Tue' },
+  { value: 3, label: 'Wednesday', short: 'Wed' },
+  { value: 4, label: 'Thursday', short: 'Thu' },
+  { value: 5, label: 'Friday', short: 'Fri' },
+  { value: 6, label: 'Saturday', short: 'Sat' },
+];
+
+export const TIME_SLOTS = [
+  { start: '08:00', end: '10:00' },
+  { start: '10:00', end: '12:00' },
+  { start: '12:00', end: '14:00' },
+  { start: '14:00', end: '16:00' },
+  { start: '16:00', end: '18:00' },
+  { start: '18:00', end: '20:00' },
+];
+
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+export const formatTimeRange = (start: string, end: string) => `${start}–${end}`;
+
+export const getWeekdayLabel = (weekday: number, short = false) => {
+  const day = WEEKDAYS.find(d => d.value === weekday);
+  if (!day) return `Day ${weekday}`;
+  return short ? day.short : day.label;
+};
+
+export const isSameSlot = (a: AvailabilitySlot, b: AvailabilitySlot) =>
+  a.weekday === b.weekday && a.start === b.start && a.end === b.end;
+
+export const isAvailabilitySlot = (value: unknown): value is AvailabilitySlot => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const slot = value as Record<string, unknown>;
+  return (
+    typeof slot.weekday === 'number' && slot.weekday >= 1 && slot.weekday <= 7 &&
+    typeof slot.start === 'string' && TIME_PATTERN.test(slot.start) &&
+    typeof slot.end === 'string' && TIME_PATTERN.test(slot.end) &&
+    slot.start < slot.end
+  );
+};
+
+/**
+ * Normalise the availability column into slots, dropping anything that is
+ * not a well-formed slot (e.g. legacy prose or the old {description} object).
+ */
+export const parseAvailability = (value: Json | null | undefined): AvailabilitySlot[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(isAvailabilitySlot)
+    .map(({ weekday, start, end }) => ({ weekday, start, end }));
+};
+
+/**
+ * Collapse adjacent or overlapping slots on the same day into continuous
+ * blocks, sorted by weekday then start time.
+ */
+export const mergeSlots = (slots: AvailabilitySlot[]): AvailabilitySlot[] => {
+  const sorted = [...slots].sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start));
+
+  return sorted.reduce<AvailabilitySlot[]>((merged, slot) => {
+    const last = merged[merged.length - 1];
+    if (last && last.weekday === slot.weekday && slot.start <= last.end) {
+      if (slot.end > last.end) last.end = slot.end;
+    } else {
+      merged.push({ ...slot });
+    }
+    return merged;
+  }, []);
+};
+
+export interface AvailabilityFilter {
+  weekday?: number | null;
+  start?: string | null;
+  end?: string | null;
+}
+
+/**
+ * Check whether the slots cover the requested window. Missing parts of the
+ * filter act as wildcards, so { weekday: 2 } matches anyone free on Tuesday.
+ */
+export const matchesAvailability = (slots: AvailabilitySlot[], filter: AvailabilityFilter) => {
+  const { weekday, start, end } = filter;
+
+  return mergeSlots(slots).some(block => {
+    if (weekday && block.weekday !== weekday) return false;
+    if (start && end) return block.start <= start && block.end >= end;
+    return true;
+  });
+};
+
+/**
+ * Human-readable summary, e.g. "Mon 08:00–12:00, Tue 14:00–16:00"
+ */
+export const summarizeAvailability = (slots: AvailabilitySlot[]) => {
+  if (slots.length === 0) return 'Not specified';
+
+  return mergeSlots(slots)
+    .map(block => `${getWeekdayLabel(block.weekday, true)} ${formatTimeRange(block.start, block.end)}`)
+    .join(', ');
+};
@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type BulkAction = 'under_review' | 'approve' | 'reject' | 'assign_reviewer';
+
+export interface BulkResult {
+  application_id: string;
+  succeeded: boolean;
+  message: string;
+}
+
+export const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+  under_review: 'Move to review',
+  approve: 'Approve',
+  reject: 'Reject',
+  assign_reviewer: 'Assign reviewer',
+};
+
+/** Starting points for a rejection reason shared by every selected applicant */
+export const REJECTION_TEMPLATES = [
+  {
+    label: 'Places filled',
+    reason: 'Thank you for applying. All tutor places for your modules have been filled this intake.',
+  },
+  {
+    label: 'Marks below minimum',
+    reason: 'Your marks in the modules you applied to tutor are below the minimum required for tutors.',
+  },
+  {
+    label: 'Incomplete documents',
+    reason: 'Your application could not be considered because required documents were missing or could not be verified.',
+  },
+  {
+    label: 'Not shortlisted after interview',
+    reason: 'Thank you for attending an interview. You were not selected for a tutor post this intake.',
+  },
+];
+
+/**
+ * Apply one action to many applications in a single transaction. Rows that
+ * fail are rolled back individually and reported with the reason.
+ */
+export const runBulkAction = async (
+  applicationIds: string[],
+  action: BulkAction,
+  options: { reason?: string; reviewerId?: string } = {}
+): Promise<BulkResult[]> => {
+  const { data, error } = await supabase.rpc('bulk_update_applications', {
+    _application_ids: applicationIds,
+    _action: action,
+    _reason: options.reason,
+    _reviewer_id: options.reviewerId,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,151 @@
+/**
+ * Prepare phone photos of documents for upload: downscale and re-encode them
+ * as JPEG, or combine several (e.g. ID front and back) into a single PDF.
+ * Everything runs in the browser so large originals never leave the device.
+ */
+
+/** Longest side after downscaling; still legible for IDs and transcripts */
+const MAX_IMAGE_DIMENSION = 2000;
+const JPEG_QUALITY = 0.8;
+
+/** A4 portrait in PDF points, with a small margin around each photo */
+const PDF_PAGE_WIDTH = 595.28;
+const PDF_PAGE_HEIGHT = 841.89;
+const PDF_PAGE_MARGIN = 36;
+
+const COMPRESSIBLE_TYPES = ['image/jpeg', 'image/png'];
+
+interface RenderedJpeg {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export const isCompressibleImage = (file: File) => COMPRESSIBLE_TYPES.includes(file.type);
+
+const replaceExtension = (fileName: string, extension: string) =>
+  `${fileName.replace(/\.[^.]+$/, '')}.${extension}`;
+
+const renderJpeg = async (file: File): Promise<RenderedJpeg> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Image processing is not supported in this browser');
+
+  // JPEG has no transparency, so flatten PNGs onto white rather than black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error('Could not compress image');
+
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), width, height };
+};
+
+/**
+ * Downscale and re-encode an image as JPEG. The original is kept when it is
+ * already smaller, e.g. a PNG screenshot.
+ */
+export const compressImage = async (file: File): Promise<File> => {
+  const { bytes } = await renderJpeg(file);
+  if (bytes.length >= file.size) return file;
+
+  return new File([bytes], replaceExtension(file.name, 'jpg'), { type: 'image/jpeg' });
+};
+
+/**
+ * Minimal PDF writer: one A4 page per image, each embedded as a JPEG
+ * (DCTDecode) stream and scaled to fit inside the page margins.
+ */
+const buildPdf = (images: RenderedJpeg[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects 1 and 2 are the catalog and page tree; each page then takes three
+  const pageIds = images.map((_, index) => 3 + index * 3);
+
+  write('%PDF-1.4\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${images.length} >>`);
+
+  images.forEach((image, index) => {
+    const pageId = pageIds[index];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+
+    const scale = Math.min(
+      (PDF_PAGE_WIDTH - PDF_PAGE_MARGIN * 2) / image.width,
+      (PDF_PAGE_HEIGHT - PDF_PAGE_MARGIN * 2) / image.height
+    );
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    const x = (PDF_PAGE_WIDTH - drawWidth) / 2;
+    const y = (PDF_PAGE_HEIGHT - drawHeight) / 2;
+    const content = encoder.encode(
+      `q ${drawWidth.toFixed(2)} 0 0 ${drawHeight.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Im0 Do Q`
+    );
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    writeObject(contentId, `<< /Length ${content.length} >>`, content);
+    writeObject(
+      imageId,
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>`,
+      image.bytes
+    );
+  });
+
+  const xrefOffset = length;
+  const objectCount = offsets.length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+/**
+ * Combine photos into one PDF, one page each, in the order given
+ */
+export const combineImagesToPdf = async (files: File[], fileName: string): Promise<File> => {
+  const images: RenderedJpeg[] = [];
+  for (const file of files) {
+    images.push(await renderJpeg(file));
+  }
+
+  return new File([buildPdf(images)], replaceExtension(fileName, 'pdf'), { type: 'application/pdf' });
+};
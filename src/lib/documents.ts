@@ -0,0 +1,278 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables } from '@/integrations/supabase/types';
+import { logger } from '@/lib/logger';
+
+export type DocumentRequirement = Tables<'document_requirements'>;
+export type DocumentVersion = Tables<'application_documents'>;
+export type ApplicantCategory = Enums<'applicant_category'>;
+export type VerificationStatus = Enums<'document_verification_status'>;
+export type ScanStatus = Enums<'document_scan_status'>;
+
+export const APPLICANT_CATEGORY_LABELS: Record<ApplicantCategory, string> = {
+  local: 'South African student',
+  international: 'International student',
+};
+
+export const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  unverified: 'Awaiting verification',
+  verified: 'Verified',
+  rejected: 'Rejected',
+};
+
+export const SCAN_LABELS: Record<ScanStatus, string> = {
+  pending: 'Checking file',
+  clean: 'File checked',
+  quarantined: 'Quarantined',
+};
+
+/** File types admins can allow for a document, with the label shown to applicants */
+export const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  'application/pdf': 'PDF',
+  'image/jpeg': 'JPG',
+  'image/png': 'PNG',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'DOCX',
+};
+
+const MIME_EXTENSIONS: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+};
+
+/**
+ * Fetch document requirements in display order. Retired requirements are
+ * only included on request so uploads made against them can still be labelled.
+ */
+export const fetchDocumentRequirements = async (includeInactive = false): Promise<DocumentRequirement[]> => {
+  let query = supabase
+    .from('document_requirements')
+    .select('*')
+    .order('sort_order')
+    .order('label');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+interface ApplicantScope {
+  faculty_id?: string | null;
+  applicant_category?: ApplicantCategory | null;
+}
+
+/**
+ * Requirements that apply to an applicant. A requirement without a faculty
+ * or category applies to everyone.
+ */
+export const getApplicableRequirements = (requirements: DocumentRequirement[], applicant: ApplicantScope) =>
+  requirements.filter(requirement =>
+    requirement.is_active &&
+    (!requirement.faculty_id || requirement.faculty_id === applicant.faculty_id) &&
+    (!requirement.applicant_category || requirement.applicant_category === (applicant.applicant_category ?? 'local'))
+  );
+
+/** Required documents without an upload; quarantined files do not count */
+export const getMissingDocuments = (
+  requirements: DocumentRequirement[],
+  uploaded: { document_type: string; scan_status?: ScanStatus }[]
+) =>
+  requirements.filter(requirement =>
+    requirement.is_required &&
+    !uploaded.some(d => d.document_type === requirement.document_type && d.scan_status !== 'quarantined')
+  );
+
+export const formatAllowedTypes = (requirement: Pick<DocumentRequirement, 'allowed_mime_types'>) =>
+  requirement.allowed_mime_types.map(type => DOCUMENT_MIME_TYPES[type] ?? type).join(', ');
+
+/** Value for a file input's accept attribute */
+export const getAcceptAttribute = (requirement: Pick<DocumentRequirement, 'allowed_mime_types'>) =>
+  requirement.allowed_mime_types.flatMap(type => [type, ...(MIME_EXTENSIONS[type] ?? [])]).join(',');
+
+/**
+ * Check a file against a requirement, returning the message to show or null
+ */
+export const validateDocumentFile = (requirement: DocumentRequirement, file: File): string | null => {
+  if (!requirement.allowed_mime_types.includes(file.type)) {
+    return `${requirement.label} must be one of: ${formatAllowedTypes(requirement)}`;
+  }
+
+  if (file.size > requirement.max_size_mb * 1024 * 1024) {
+    return `${requirement.label} must be smaller than ${requirement.max_size_mb}MB`;
+  }
+
+  return null;
+};
+
+/** Local calendar date as YYYY-MM-DD, the format of a date input and a DATE column */
+export const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Oldest certification date still accepted on `asOf` */
+export const getCertificationCutoff = (maxAgeDays: number, asOf: Date = new Date()) => {
+  const cutoff = new Date(asOf);
+  cutoff.setDate(cutoff.getDate() - maxAgeDays);
+  return toDateInputValue(cutoff);
+};
+
+/**
+ * Whether a certified copy is undated or older than the requirement allows.
+ * Requirements without a certification limit never expire.
+ */
+export const isCertificationExpired = (
+  requirement: Pick<DocumentRequirement, 'certification_max_age_days'> | undefined,
+  certifiedAt: string | null | undefined,
+  asOf?: Date
+) =>
+  !!requirement?.certification_max_age_days &&
+  (!certifiedAt || certifiedAt < getCertificationCutoff(requirement.certification_max_age_days, asOf));
+
+/**
+ * Uploaded certified copies that are too old. Mirrors the certification
+ * check in public.evaluate_eligibility.
+ */
+export const getExpiredCertifications = <T extends { document_type: string; certified_at?: string | null }>(
+  requirements: DocumentRequirement[],
+  documents: T[],
+  asOf?: Date
+) =>
+  documents.filter(d =>
+    isCertificationExpired(requirements.find(r => r.document_type === d.document_type), d.certified_at, asOf)
+  );
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+export const getDocumentLabel = (requirements: DocumentRequirement[], documentType: string) =>
+  requirements.find(d => d.document_type === documentType)?.label ?? documentType;
+
+/**
+ * Every uploaded version for an application, newest first within each document type
+ */
+export const fetchDocumentVersions = async (applicationId: string): Promise<DocumentVersion[]> => {
+  const { data, error } = await supabase
+    .from('application_documents')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('document_type')
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const groupVersionsByType = (versions: DocumentVersion[]) =>
+  versions.reduce<Record<string, DocumentVersion[]>>((groups, version) => {
+    groups[version.document_type] = [...(groups[version.document_type] ?? []), version];
+    return groups;
+  }, {});
+
+/**
+ * Storage path for a new upload. Every version gets its own object so
+ * earlier uploads stay available to reviewers.
+ */
+export const buildDocumentPath = (userId: string, applicationId: string, documentType: string, file: File) => {
+  const fileExt = file.name.split('.').pop();
+  return `${userId}/${applicationId}/${documentType}/${Date.now()}.${fileExt}`;
+};
+
+/** Signed preview links expire quickly; the viewer requests a fresh one each time */
+export const SIGNED_URL_TTL_SECONDS = 300;
+
+export const getSignedDocumentUrl = async (filePath: string, download?: string) => {
+  const { data, error } = await supabase.storage
+    .from('application-documents')
+    .createSignedUrl(filePath, SIGNED_URL_TTL_SECONDS, download ? { download } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const isPreviewableImage = (mimeType: string) => mimeType.startsWith('image/');
+
+/** Uploaded after the application was last reviewed, e.g. a corrected ID copy */
+export const isNewSinceReview = (version: Pick<DocumentVersion, 'uploaded_at'>, reviewedAt: string | null | undefined) =>
+  !!reviewedAt && new Date(version.uploaded_at) > new Date(reviewedAt);
+
+/**
+ * Required documents without a verified current version. Mirrors
+ * public.get_unverified_required_documents, which blocks approval.
+ */
+export const getUnverifiedRequirements = (requirements: DocumentRequirement[], versions: DocumentVersion[]) =>
+  requirements.filter(requirement =>
+    requirement.is_required &&
+    !versions.some(v =>
+      v.document_type === requirement.document_type && v.is_current && v.verification_status === 'verified'
+    )
+  );
+
+/**
+ * Upload a file as the next version of a document and record it
+ */
+export const uploadDocumentVersion = async (
+  userId: string,
+  applicationId: string,
+  documentType: string,
+  file: File,
+  certifiedAt: string | null = null
+): Promise<DocumentVersion> => {
+  const filePath = buildDocumentPath(userId, applicationId, documentType, file);
+
+  const { error: uploadError } = await supabase.storage
+    .from('application-documents')
+    .upload(filePath, file);
+
+  if (uploadError) {
+    if (uploadError.message.toLowerCase().includes('bucket not found')) {
+      throw new Error('Document storage is not configured. Please contact an administrator.');
+    }
+    throw uploadError;
+  }
+
+  const { data, error } = await supabase
+    .from('application_documents')
+    .insert({
+      application_id: applicationId,
+      user_id: userId,
+      document_type: documentType,
+      file_name: file.name,
+      file_path: filePath,
+      file_size: file.size,
+      mime_type: file.type,
+      certified_at: certifiedAt,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave the stored file behind without a row pointing at it
+    const { error: removeError } = await supabase.storage
+      .from('application-documents')
+      .remove([filePath]);
+    if (removeError) logger.error('Error removing orphaned upload:', removeError);
+    throw error;
+  }
+  return (await requestDocumentScan(data.id)) ?? data;
+};
+
+/**
+ * Ask the scan-document edge function to check a stored upload against its
+ * declared type. Returns the row with its scan result, or null if the scan
+ * could not run; the document then stays pending and is retried on review.
+ */
+export const requestDocumentScan = async (documentId: string): Promise<DocumentVersion | null> => {
+  const { data, error } = await supabase.functions.invoke<{ document: DocumentVersion }>('scan-document', {
+    body: { document_id: documentId },
+  });
+
+  if (error) {
+    logger.error('Error scanning document:', error);
+    return null;
+  }
+  return data?.document ?? null;
+};
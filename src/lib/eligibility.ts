@@ -0,0 +1,252 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Constants, type Json, type Tables } from '@/integrations/supabase/types';
+import {
+  getApplicableRequirements,
+  getDocumentLabel,
+  getExpiredCertifications,
+  getMissingDocuments,
+  type ApplicantCategory,
+  type DocumentRequirement,
+  type ScanStatus,
+} from '@/lib/documents';
+import { resolveThreshold, type MarkThreshold } from '@/lib/marks';
+import type { Module } from '@/lib/modules';
+
+export type EligibilityRule = Tables<'eligibility_rules'>;
+export type EligibilityRuleType = EligibilityRule['rule_type'];
+export type EligibilityResult = Tables<'eligibility_results'>;
+
+export interface RuleParams {
+  min?: number | null;
+  max?: number | null;
+}
+
+export interface RuleOutcomeDetails {
+  actual?: number | null;
+  expected?: number | null;
+  min?: number | null;
+  max?: number | null;
+  failing?: string[];
+  missing?: string[];
+  /** Certified copies that are undated or older than their requirement allows */
+  expired?: string[];
+}
+
+export interface RuleOutcome {
+  rule_type: EligibilityRuleType;
+  passed: boolean;
+  details: RuleOutcomeDetails;
+}
+
+export const RULE_LABELS: Record<EligibilityRuleType, string> = {
+  min_year_of_study: 'Minimum year of study',
+  current_registration: 'Registered for the current year',
+  min_module_mark: 'Minimum module marks',
+  required_documents: 'Required documents',
+  age_range: 'Age range',
+};
+
+const RULE_ORDER = Constants.public.Enums.eligibility_rule_type;
+
+const byRuleOrder = (a: { rule_type: EligibilityRuleType }, b: { rule_type: EligibilityRuleType }) =>
+  RULE_ORDER.indexOf(a.rule_type) - RULE_ORDER.indexOf(b.rule_type);
+
+export const getRuleParams = (rule: Pick<EligibilityRule, 'params'>): RuleParams => {
+  const params = rule.params;
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return {};
+
+  return {
+    min: typeof params.min === 'number' ? params.min : null,
+    max: typeof params.max === 'number' ? params.max : null,
+  };
+};
+
+const formatRange = (min?: number | null, max?: number | null) => {
+  if (min != null && max != null) return `${min}–${max}`;
+  if (min != null) return `${min} or older`;
+  if (max != null) return `up to ${max}`;
+  return 'any age';
+};
+
+/**
+ * One-line description of what a rule requires, for the admin rule list
+ */
+export const describeRule = (rule: Pick<EligibilityRule, 'rule_type' | 'params'>, documents: DocumentRequirement[] = []) => {
+  const params = getRuleParams(rule);
+
+  switch (rule.rule_type) {
+    case 'min_year_of_study':
+      return `Year ${params.min ?? 1} or higher`;
+    case 'current_registration':
+      return 'Registration year matches the recruitment cycle';
+    case 'min_module_mark':
+      return 'Every tutor module meets its minimum mark';
+    case 'required_documents': {
+      const required = documents.filter(d => d.is_active && d.is_required);
+      return required.length > 0
+        ? `Required documents for the applicant's faculty and category: ${required.map(d => d.label).join(', ')}`
+        : 'No documents required';
+    }
+    case 'age_range':
+      return `Aged ${formatRange(params.min, params.max)}`;
+  }
+};
+
+/**
+ * Explain an individual outcome, e.g. "Year 1 (minimum 2)"
+ */
+export const describeOutcome = (outcome: RuleOutcome, documents: DocumentRequirement[] = []) => {
+  const { details } = outcome;
+
+  switch (outcome.rule_type) {
+    case 'min_year_of_study':
+      return `Year ${details.actual ?? '—'} (minimum ${details.min ?? 1})`;
+    case 'current_registration':
+      return outcome.passed
+        ? `Registered for ${details.expected}`
+        : `Registration year ${details.actual ?? 'not given'}, cycle is ${details.expected ?? 'unknown'}`;
+    case 'min_module_mark':
+      if (details.failing?.length) return `Below minimum or missing mark: ${details.failing.join(', ')}`;
+      return outcome.passed ? 'All tutor modules meet their minimum' : 'No modules selected to tutor';
+    case 'required_documents': {
+      const problems = [
+        details.missing?.length && `Missing: ${details.missing.map(type => getDocumentLabel(documents, type)).join(', ')}`,
+        details.expired?.length && `Certification too old: ${details.expired.map(type => getDocumentLabel(documents, type)).join(', ')}`,
+      ].filter(Boolean);
+      return problems.length > 0 ? problems.join('; ') : 'All required documents uploaded';
+    }
+    case 'age_range':
+      return `Age ${details.actual ?? 'unknown'} (${formatRange(details.min, details.max)})`;
+  }
+};
+
+export const calculateAge = (dateOfBirth: string, today: Date = new Date()) => {
+  const dob = new Date(dateOfBirth);
+  let age = today.getFullYear() - dob.getFullYear();
+  const beforeBirthday =
+    today.getMonth() < dob.getMonth() ||
+    (today.getMonth() === dob.getMonth() && today.getDate() < dob.getDate());
+  if (beforeBirthday) age -= 1;
+  return age;
+};
+
+export interface EligibilityInput {
+  year_of_study: number | null;
+  registration_year: number | null;
+  date_of_birth: string | null;
+  academic_year: number | null;
+  tutorModules: Pick<Module, 'id' | 'code' | 'department'>[];
+  marks: Record<string, number>;
+  thresholds: MarkThreshold[];
+  /** Current version of each uploaded document */
+  documents: { document_type: string; certified_at?: string | null; scan_status?: ScanStatus }[];
+  documentRequirements: DocumentRequirement[];
+  faculty_id: string | null;
+  applicant_category: ApplicantCategory | null;
+  today?: Date;
+}
+
+/**
+ * Evaluate active rules in the browser so applicants see problems before
+ * submitting. Mirrors public.evaluate_eligibility, which is authoritative.
+ */
+export const evaluateEligibility = (rules: EligibilityRule[], input: EligibilityInput): RuleOutcome[] =>
+  rules
+    .filter(rule => rule.is_active)
+    .sort(byRuleOrder)
+    .map((rule): RuleOutcome => {
+      const params = getRuleParams(rule);
+
+      switch (rule.rule_type) {
+        case 'min_year_of_study': {
+          const min = params.min ?? 1;
+          return {
+            rule_type: rule.rule_type,
+            passed: input.year_of_study != null && input.year_of_study >= min,
+            details: { actual: input.year_of_study, min },
+          };
+        }
+        case 'current_registration':
+          return {
+            rule_type: rule.rule_type,
+            passed: input.registration_year != null && input.registration_year === input.academic_year,
+            details: { actual: input.registration_year, expected: input.academic_year },
+          };
+        case 'min_module_mark': {
+          const failing = input.tutorModules
+            .filter(m => {
+              const mark = input.marks[m.id];
+              return mark === undefined || mark < (resolveThreshold(m, input.thresholds) ?? 0);
+            })
+            .map(m => m.code)
+            .sort();
+          return {
+            rule_type: rule.rule_type,
+            passed: failing.length === 0 && input.tutorModules.length > 0,
+            details: { failing },
+          };
+        }
+        case 'required_documents': {
+          const applicable = getApplicableRequirements(input.documentRequirements, input);
+          const missing = getMissingDocuments(applicable, input.documents).map(r => r.document_type);
+          const expired = getExpiredCertifications(
+            input.documentRequirements,
+            input.documents.filter(d => d.scan_status !== 'quarantined'),
+            input.today
+          )
+            .map(d => d.document_type)
+            .sort();
+          return {
+            rule_type: rule.rule_type,
+            passed: missing.length === 0 && expired.length === 0,
+            details: { missing, expired },
+          };
+        }
+        case 'age_range': {
+          const age = input.date_of_birth ? calculateAge(input.date_of_birth, input.today) : null;
+          return {
+            rule_type: rule.rule_type,
+            passed: age !== null &&
+              (params.min == null || age >= params.min) &&
+              (params.max == null || age <= params.max),
+            details: { actual: age, min: params.min, max: params.max },
+          };
+        }
+      }
+    });
+
+const isRuleOutcome = (value: unknown): value is RuleOutcome => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const outcome = value as Record<string, unknown>;
+  return (
+    RULE_ORDER.includes(outcome.rule_type as EligibilityRuleType) &&
+    typeof outcome.passed === 'boolean' &&
+    !!outcome.details && typeof outcome.details === 'object'
+  );
+};
+
+/**
+ * Read the stored eligibility_results.results column
+ */
+export const parseRuleOutcomes = (value: Json | null | undefined): RuleOutcome[] =>
+  Array.isArray(value) ? (value as unknown[]).filter(isRuleOutcome) : [];
+
+export const fetchEligibilityRules = async (): Promise<EligibilityRule[]> => {
+  const { data, error } = await supabase
+    .from('eligibility_rules')
+    .select('*');
+
+  if (error) throw error;
+  return (data || []).sort(byRuleOrder);
+};
+
+export const fetchEligibilityResult = async (applicationId: string): Promise<EligibilityResult | null> => {
+  const { data, error } = await supabase
+    .from('eligibility_results')
+    .select('*')
+    .eq('application_id', applicationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
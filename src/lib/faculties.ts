@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Faculty = Tables<'faculties'>;
+export type Department = Tables<'departments'>;
+
+/**
+ * Fetch faculties ordered by name. Retired faculties are only included on
+ * request so existing applications can still display them.
+ */
+export const fetchFaculties = async (includeInactive = false): Promise<Faculty[]> => {
+  let query = supabase
+    .from('faculties')
+    .select('*')
+    .order('name');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchDepartments = async (includeInactive = false): Promise<Department[]> => {
+  let query = supabase
+    .from('departments')
+    .select('*')
+    .order('name');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getDepartmentsForFaculty = (departments: Department[], facultyId: string | null | undefined) =>
+  departments.filter(d => d.faculty_id === facultyId);
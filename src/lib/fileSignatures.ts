@@ -0,0 +1,56 @@
+/**
+ * Identify uploads by their leading bytes instead of trusting File.type,
+ * which browsers derive from the file extension. The scan-document edge
+ * function repeats these checks on the stored object.
+ */
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const SIGNATURES: { mimeType: string; bytes: number[] }[] = [
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: DOCX_MIME_TYPE, bytes: [0x50, 0x4b, 0x03, 0x04] }, // ZIP container
+];
+
+/** MIME type implied by a file's header, or null when it is not a supported format */
+export const detectMimeType = (bytes: Uint8Array) =>
+  SIGNATURES.find(signature => signature.bytes.every((byte, index) => bytes[index] === byte))?.mimeType ?? null;
+
+/**
+ * Reasons a correctly-typed file still cannot be reviewed, or null
+ */
+export const inspectContent = (mimeType: string, bytes: Uint8Array): string | null => {
+  // latin1 maps every byte to one character, so offsets and markers survive
+  const text = new TextDecoder('latin1').decode(bytes);
+
+  if (mimeType === 'application/pdf') {
+    if (!text.slice(-1024).includes('%%EOF')) {
+      return 'This PDF appears to be damaged or incomplete. Please save or export it again.';
+    }
+    if (/\/Encrypt\b/.test(text)) {
+      return 'Password-protected PDFs cannot be reviewed. Please remove the password and upload again.';
+    }
+  }
+
+  if (mimeType === DOCX_MIME_TYPE && !text.includes('word/')) {
+    return 'This file is not a Word document.';
+  }
+
+  return null;
+};
+
+/**
+ * Check that a file's content matches its declared type. Returns the message
+ * to show or null.
+ */
+export const validateFileContent = async (file: File): Promise<string | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const detected = detectMimeType(bytes);
+
+  if (!detected || detected !== file.type) {
+    return `${file.name} does not match its file type. Please upload the original file rather than a renamed one.`;
+  }
+
+  return inspectContent(detected, bytes);
+};
@@ -0,0 +1,150 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { toDateInputValue } from '@/lib/documents';
+
+export type InterviewSlot = Tables<'interview_slots'>;
+export type InterviewBooking = Tables<'interview_bookings'>;
+export type InterviewAttendance = Enums<'interview_attendance'>;
+export type InterviewOutcome = Enums<'interview_outcome'>;
+
+export const ATTENDANCE_LABELS: Record<InterviewAttendance, string> = {
+  scheduled: 'Scheduled',
+  attended: 'Attended',
+  no_show: 'Did not attend',
+};
+
+export const OUTCOME_LABELS: Record<InterviewOutcome, string> = {
+  recommended: 'Recommended',
+  not_recommended: 'Not recommended',
+};
+
+/** A booking with the applicant it belongs to, for the admin roster */
+export type RosterBooking = InterviewBooking & {
+  tutor_applications: Pick<Tables<'tutor_applications'>, 'full_name' | 'student_number' | 'status'> | null;
+};
+
+/**
+ * Interview slots for a cycle in time order
+ */
+export const fetchInterviewSlots = async (cycleId: string): Promise<InterviewSlot[]> => {
+  const { data, error } = await supabase
+    .from('interview_slots')
+    .select('*')
+    .eq('cycle_id', cycleId)
+    .order('starts_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Places taken per slot id. Applicants cannot read each other's bookings,
+ * so this comes from public.get_interview_slot_availability.
+ */
+export const fetchSlotAvailability = async (cycleId: string): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.rpc('get_interview_slot_availability', { _cycle_id: cycleId });
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.slot_id, row.booked]));
+};
+
+/** A booking with the slot it is for */
+export type ApplicationBooking = InterviewBooking & {
+  interview_slots: InterviewSlot | null;
+};
+
+export const fetchApplicationBooking = async (applicationId: string): Promise<ApplicationBooking | null> => {
+  const { data, error } = await supabase
+    .from('interview_bookings')
+    .select('*, interview_slots(*)')
+    .eq('application_id', applicationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Bookings for the given slots with the applicant's name
+ */
+export const fetchRosterBookings = async (slotIds: string[]): Promise<RosterBooking[]> => {
+  if (slotIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('interview_bookings')
+    .select('*, tutor_applications(full_name, student_number, status)')
+    .in('slot_id', slotIds)
+    .order('booked_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Book or move an applicant's interview. Capacity and the interview stage
+ * are checked by public.book_interview_slot.
+ */
+export const bookInterviewSlot = async (applicationId: string, slotId: string): Promise<InterviewBooking> => {
+  const { data, error } = await supabase.rpc('book_interview_slot', {
+    _application_id: applicationId,
+    _slot_id: slotId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Save attendance, outcome and notes for a booking
+ */
+export const recordInterviewResult = async (
+  bookingId: string,
+  result: Pick<InterviewBooking, 'attendance' | 'outcome' | 'notes'>,
+  recordedBy: string
+): Promise<InterviewBooking> => {
+  const { data, error } = await supabase
+    .from('interview_bookings')
+    .update({ ...result, recorded_by: recordedBy, recorded_at: new Date().toISOString() })
+    .eq('id', bookingId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const createInterviewSlot = async (slot: TablesInsert<'interview_slots'>) => {
+  const { error } = await supabase.from('interview_slots').insert(slot);
+  if (error) throw error;
+};
+
+export const deleteInterviewSlot = async (slotId: string) => {
+  const { error } = await supabase.from('interview_slots').delete().eq('id', slotId);
+  if (error) throw error;
+};
+
+export const getSlotEnd = (slot: Pick<InterviewSlot, 'starts_at' | 'duration_minutes'>) =>
+  new Date(new Date(slot.starts_at).getTime() + slot.duration_minutes * 60 * 1000);
+
+export const formatSlotDay = (value: string) =>
+  new Date(value).toLocaleDateString('en-ZA', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+/**
+ * Time range of a slot, e.g. "09:00 – 09:20"
+ */
+export const formatSlotTime = (slot: Pick<InterviewSlot, 'starts_at' | 'duration_minutes'>) => {
+  const format = (date: Date) => date.toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit' });
+  return `${format(new Date(slot.starts_at))} – ${format(getSlotEnd(slot))}`;
+};
+
+export const formatSlotLocation = (slot: Pick<InterviewSlot, 'venue' | 'meeting_url'>) => slot.venue || 'Online';
+
+/** Local calendar day of a slot as YYYY-MM-DD, used to group the roster */
+export const getSlotDayKey = (slot: Pick<InterviewSlot, 'starts_at'>) => toDateInputValue(new Date(slot.starts_at));
+
+export const groupSlotsByDay = (slots: InterviewSlot[]) =>
+  slots.reduce<Record<string, InterviewSlot[]>>((days, slot) => {
+    const key = getSlotDayKey(slot);
+    days[key] = [...(days[key] ?? []), slot];
+    return days;
+  }, {});
@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Module } from '@/lib/modules';
+
+export type MarkThreshold = Tables<'mark_thresholds'>;
+
+export type MarkResult = 'pass' | 'fail' | 'missing' | 'unknown';
+
+/**
+ * Minimum mark for a module: a module-specific threshold wins over the
+ * department one, which wins over the global default. Mirrors
+ * public.get_module_threshold.
+ */
+export const resolveThreshold = (
+  module: Pick<Module, 'id' | 'department'>,
+  thresholds: MarkThreshold[]
+): number | null => {
+  const byModule = thresholds.find(t => t.module_id === module.id);
+  if (byModule) return byModule.min_mark;
+
+  const byDepartment = thresholds.find(t => !t.module_id && t.department === module.department);
+  if (byDepartment) return byDepartment.min_mark;
+
+  const fallback = thresholds.find(t => !t.module_id && !t.department);
+  return fallback ? fallback.min_mark : null;
+};
+
+/**
+ * Compare a mark against its threshold. "unknown" means no threshold is
+ * configured, so the mark cannot be judged either way.
+ */
+export const evaluateMark = (mark: number | null | undefined, threshold: number | null): MarkResult => {
+  if (mark === null || mark === undefined) return 'missing';
+  if (threshold === null) return 'unknown';
+  return mark >= threshold ? 'pass' : 'fail';
+};
+
+export const formatMark = (mark: number | null | undefined) =>
+  mark === null || mark === undefined ? '—' : `${Number(mark)}%`;
+
+/**
+ * Describe what a threshold row applies to, e.g. "MAT 112" or "Mathematics"
+ */
+export const describeThresholdScope = (threshold: MarkThreshold, modules: Module[]) => {
+  if (threshold.module_id) {
+    return modules.find(m => m.id === threshold.module_id)?.code ?? 'Unknown module';
+  }
+  return threshold.department ?? 'Default';
+};
+
+export const fetchMarkThresholds = async (): Promise<MarkThreshold[]> => {
+  const { data, error } = await supabase
+    .from('mark_thresholds')
+    .select('*');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Selected tutor modules whose recorded mark is under the applicable minimum
+ */
+export const getModulesBelowThreshold = (
+  moduleIds: string[],
+  marks: Record<string, number>,
+  modules: Module[],
+  thresholds: MarkThreshold[]
+) =>
+  modules.filter(m =>
+    moduleIds.includes(m.id) && evaluateMark(marks[m.id], resolveThreshold(m, thresholds)) === 'fail'
+  );
@@ -0,0 +1,97 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Module = Tables<'modules'>;
+export type ApplicationModule = Tables<'application_modules'>;
+export type ModuleRelation = ApplicationModule['relation'];
+
+export interface ModuleSelection {
+  completed: string[];
+  tutor: string[];
+  /** Final mark per tutor module id, out of 100 */
+  marks?: Record<string, number>;
+}
+
+/**
+ * Canonical form of a module code for comparisons, e.g. "mat 112" -> "MAT112".
+ * Mirrors the modules_code_key unique index.
+ */
+export const normalizeModuleCode = (code: string) => code.replace(/\s+/g, '').toUpperCase();
+
+export const formatModule = (module: Pick<Module, 'code' | 'name'>) => `${module.code} – ${module.name}`;
+
+/**
+ * Comma-separated codes for the given module ids, in catalogue order
+ */
+export const formatModuleCodes = (ids: string[], modules: Module[]) =>
+  modules
+    .filter(m => ids.includes(m.id))
+    .map(m => m.code)
+    .join(', ');
+
+/**
+ * Fetch the module catalogue ordered by code. Inactive modules are only
+ * included on request so existing selections can still be displayed.
+ */
+export const fetchModules = async (includeInactive = false): Promise<Module[]> => {
+  let query = supabase
+    .from('modules')
+    .select('*')
+    .order('code');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Load an application's selected module ids, split by relation, with the
+ * marks recorded against tutor modules
+ */
+export const fetchApplicationModules = async (applicationId: string): Promise<ModuleSelection> => {
+  const { data, error } = await supabase
+    .from('application_modules')
+    .select('module_id, relation, mark')
+    .eq('application_id', applicationId);
+
+  if (error) throw error;
+
+  const tutorRows = (data || []).filter(row => row.relation === 'tutor');
+
+  return {
+    completed: (data || []).filter(row => row.relation === 'completed').map(row => row.module_id),
+    tutor: tutorRows.map(row => row.module_id),
+    marks: Object.fromEntries(
+      tutorRows
+        .filter(row => row.mark !== null)
+        .map(row => [row.module_id, Number(row.mark)])
+    ),
+  };
+};
+
+/**
+ * Replace an application's module selection. The RPC also refreshes the
+ * legacy subjects_completed/subjects_to_tutor text columns.
+ */
+export const saveApplicationModules = async (applicationId: string, selection: ModuleSelection) => {
+  const modules = [
+    ...selection.completed.map(module_id => ({ module_id, relation: 'completed' })),
+    ...selection.tutor.map(module_id => ({
+      module_id,
+      relation: 'tutor',
+      mark: selection.marks?.[module_id] ?? null,
+    })),
+  ];
+
+  const { error } = await supabase.rpc('set_application_modules', {
+    _application_id: applicationId,
+    _modules: modules,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type RecruitmentCycle = Tables<'recruitment_cycles'>;
+
+export const CYCLE_STATUS_LABELS: Record<RecruitmentCycle['status'], string> = {
+  draft: 'Draft',
+  open: 'Open',
+  closed: 'Closed',
+  archived: 'Archived',
+};
+
+/**
+ * A cycle accepts submissions only while it is marked open and the current
+ * time falls inside its opens_at/closes_at window. Mirrors public.is_cycle_open.
+ */
+export const isCycleOpen = (cycle: RecruitmentCycle | null | undefined, now: Date = new Date()) => {
+  if (!cycle || cycle.status !== 'open') return false;
+  return now >= new Date(cycle.opens_at) && now < new Date(cycle.closes_at);
+};
+
+/**
+ * Closed and archived cycles are finished intakes; their applications are
+ * kept as history. Mirrors public.is_cycle_finished.
+ */
+export const isCycleFinished = (cycle: Pick<RecruitmentCycle, 'status'> | null | undefined) =>
+  cycle?.status === 'closed' || cycle?.status === 'archived';
+
+export const formatCycleDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-ZA', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+/**
+ * Format a cycle's window for display, e.g. "1 February 2026 – 28 February 2026"
+ */
+export const formatCycleWindow = (cycle: RecruitmentCycle) =>
+  `${formatCycleDate(cycle.opens_at)} – ${formatCycleDate(cycle.closes_at)}`;
+
+/**
+ * Fetch the cycle currently accepting applications, if any
+ */
+export const fetchOpenCycle = async (): Promise<RecruitmentCycle | null> => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('recruitment_cycles')
+    .select('*')
+    .eq('status', 'open')
+    .lte('opens_at', now)
+    .gt('closes_at', now)
+    .order('opens_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Fetch all cycles, newest intake first
+ */
+export const fetchCycles = async (): Promise<RecruitmentCycle[]> => {
+  const { data, error } = await supabase
+    .from('recruitment_cycles')
+    .select('*')
+    .order('academic_year', { ascending: false })
+    .order('semester', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+
+export type ReviewerAssignment = Tables<'reviewer_assignments'>;
+
+export type Reviewer = Pick<Tables<'profiles'>, 'id' | 'email' | 'full_name'>;
+
+export interface ReviewerWorkload {
+  assigned: number;
+  outstanding: number;
+  scored: number;
+}
+
+export type AssignmentScope = 'faculty' | 'department' | 'application';
+
+export const getAssignmentScope = (assignment: ReviewerAssignment): AssignmentScope =>
+  assignment.faculty_id ? 'faculty' : assignment.department_id ? 'department' : 'application';
+
+/**
+ * Everyone with the reviewer role. Roles and profiles both key on the user
+ * id but have no foreign key between them, so they are read separately.
+ */
+export const fetchReviewers = async (): Promise<Reviewer[]> => {
+  const { data: roles, error: rolesError } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', 'reviewer');
+
+  if (rolesError) throw rolesError;
+  if (!roles || roles.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, email, full_name')
+    .in('id', roles.map(r => r.user_id))
+    .order('full_name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Give an existing account the reviewer role by its email address
+ */
+export const addReviewer = async (email: string): Promise<Reviewer> => {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('id, email, full_name')
+    .eq('email', email.trim().toLowerCase())
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  if (!profile) throw new Error('No account uses that email address. Ask them to sign up first.');
+
+  const { error } = await supabase
+    .from('user_roles')
+    .upsert({ user_id: profile.id, role: 'reviewer' }, { onConflict: 'user_id,role', ignoreDuplicates: true });
+
+  if (error) throw error;
+  return profile;
+};
+
+/**
+ * Take away the reviewer role along with everything assigned to the reviewer
+ */
+export const removeReviewer = async (reviewerId: string) => {
+  const { error: assignmentsError } = await supabase
+    .from('reviewer_assignments')
+    .delete()
+    .eq('reviewer_id', reviewerId);
+
+  if (assignmentsError) throw assignmentsError;
+
+  const { error } = await supabase
+    .from('user_roles')
+    .delete()
+    .eq('user_id', reviewerId)
+    .eq('role', 'reviewer');
+
+  if (error) throw error;
+};
+
+export const fetchReviewerAssignments = async (): Promise<ReviewerAssignment[]> => {
+  const { data, error } = await supabase
+    .from('reviewer_assignments')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createReviewerAssignment = async (assignment: TablesInsert<'reviewer_assignments'>) => {
+  const { error } = await supabase.from('reviewer_assignments').insert(assignment);
+  if (error) throw error;
+};
+
+export const deleteReviewerAssignment = async (assignmentId: string) => {
+  const { error } = await supabase.from('reviewer_assignments').delete().eq('id', assignmentId);
+  if (error) throw error;
+};
+
+/**
+ * Assigned, outstanding and scored applications per reviewer id in a cycle
+ */
+export const fetchReviewerWorkload = async (cycleId: string): Promise<Record<string, ReviewerWorkload>> => {
+  const { data, error } = await supabase.rpc('get_reviewer_workload', { _cycle_id: cycleId });
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(({ reviewer_id, ...workload }) => [reviewer_id, workload]));
+};
+
+export const fetchUnassignedApplicationIds = async (cycleId: string): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('get_unassigned_applications', { _cycle_id: cycleId });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Assign every unassigned application in a cycle to the least loaded
+ * reviewer. Returns how many were assigned.
+ */
+export const balanceReviewerAssignments = async (cycleId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('balance_reviewer_assignments', { _cycle_id: cycleId });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,102 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type RubricCriterion = Tables<'rubric_criteria'>;
+export type ScoringSettings = Tables<'scoring_settings'>;
+export type ScoreSummary = Tables<'application_score_summaries'>;
+
+export type ReviewSheet = Tables<'review_sheets'> & {
+  review_scores: Pick<Tables<'review_scores'>, 'criterion_id' | 'score'>[];
+};
+
+export const fetchRubricCriteria = async (): Promise<RubricCriterion[]> => {
+  const { data, error } = await supabase
+    .from('rubric_criteria')
+    .select('*')
+    .order('sort_order')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchScoringSettings = async (): Promise<ScoringSettings | null> => {
+  const { data, error } = await supabase
+    .from('scoring_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Aggregated score per application id for a cycle. Applications nobody has
+ * scored yet are missing from the result.
+ */
+export const fetchScoreSummaries = async (cycleId: string): Promise<Record<string, ScoreSummary>> => {
+  const { data, error } = await supabase
+    .from('application_score_summaries')
+    .select('*')
+    .eq('cycle_id', cycleId);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(summary => [summary.application_id, summary]));
+};
+
+export const fetchReviewSheets = async (applicationId: string): Promise<ReviewSheet[]> => {
+  const { data, error } = await supabase
+    .from('review_sheets')
+    .select('*, review_scores(criterion_id, score)')
+    .eq('application_id', applicationId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Save the caller's score sheet. Every active criterion must be scored;
+ * public.save_review_sheet checks this and the score ranges.
+ */
+export const saveReviewSheet = async (applicationId: string, scores: Record<string, number>, comments: string) => {
+  const { error } = await supabase.rpc('save_review_sheet', {
+    _application_id: applicationId,
+    _scores: scores,
+    _comments: comments,
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Weighted total of a sheet as a percentage, to one decimal place. Mirrors
+ * the public.review_sheet_totals view.
+ */
+export const computeSheetTotal = (
+  scores: Pick<Tables<'review_scores'>, 'criterion_id' | 'score'>[],
+  criteria: RubricCriterion[]
+): number | null => {
+  let weighted = 0;
+  let totalWeight = 0;
+
+  scores.forEach(({ criterion_id, score }) => {
+    const criterion = criteria.find(c => c.id === criterion_id);
+    if (!criterion) return;
+    weighted += (score / criterion.max_score) * criterion.weight;
+    totalWeight += criterion.weight;
+  });
+
+  return totalWeight > 0 ? Math.round((weighted / totalWeight) * 1000) / 10 : null;
+};
+
+/**
+ * A criterion's share of the total active weight, e.g. 35 for 35%
+ */
+export const getWeightShare = (criterion: RubricCriterion, criteria: RubricCriterion[]) => {
+  const total = criteria.filter(c => c.is_active).reduce((sum, c) => sum + Number(c.weight), 0);
+  return total > 0 ? Math.round((Number(criterion.weight) / total) * 100) : 0;
+};
+
+export const formatScore = (score: number | null | undefined) =>
+  score === null || score === undefined ? '—' : `${Number(score).toFixed(1)}`;
@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables } from '@/integrations/supabase/types';
+
+export type StatusEvent = Tables<'application_status_events'>;
+export type ApplicationStatus = Enums<'application_status'>;
+
+/**
+ * Status history for an application, oldest first. Rows are written by the
+ * record_application_status_event trigger whenever the status changes.
+ */
+export const fetchStatusEvents = async (applicationId: string): Promise<StatusEvent[]> => {
+  const { data, error } = await supabase
+    .from('application_status_events')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/** Timeline heading for a status change, e.g. "Review started" */
+export const describeStatusEvent = (event: Pick<StatusEvent, 'from_status' | 'to_status'>) => {
+  switch (event.to_status) {
+    case 'draft':
+      return event.from_status ? 'Returned to draft' : 'Application started';
+    case 'pending':
+      return !event.from_status || event.from_status === 'draft' ? 'Application submitted' : 'Returned to pending review';
+    case 'under_review':
+      return 'Review started';
+    case 'interview':
+      return 'Shortlisted for interview';
+    case 'approved':
+      return 'Application approved';
+    case 'rejected':
+      return 'Application rejected';
+    case 'withdrawn':
+      return 'Application withdrawn';
+  }
+};
+
+/**
+ * Names of the people who changed an application's status, for reviewers.
+ * Profiles are only readable by admins, so students see "You" and "Reviewer".
+ */
+export const fetchActorNames = async (events: Pick<StatusEvent, 'actor_id'>[]): Promise<Record<string, string>> => {
+  const actorIds = [...new Set(events.map(e => e.actor_id).filter((id): id is string => !!id))];
+  if (actorIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .in('id', actorIds);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(p => [p.id, p.full_name || p.email]));
+};
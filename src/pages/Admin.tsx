@@ -1,5 +1,5 @@
-import { useEffect, useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   GraduationCap, 
   Search, 
@@ -20,14 +21,92 @@ import {
   Users,
   FileText,
   AlertCircle,
+  ChevronLeft,
   ChevronRight,
+  CalendarRange,
+  BookOpen,
+  AlertTriangle,
+  Undo2,
+  CalendarClock,
+  Scale,
+  UserCheck,
   Download
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLoading } from '@/contexts/LoadingContext';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
 import { logger } from '@/lib/logger';
+import { fetchCycles, formatCycleWindow, isCycleOpen, type RecruitmentCycle } from '@/lib/recruitmentCycles';
+import { TIME_SLOTS, WEEKDAYS, formatTimeRange, parseAvailability, summarizeAvailability } from '@/lib/availability';
+import { AvailabilityGrid } from '@/components/AvailabilityGrid';
+import { RecruitmentCycleDialog } from '@/components/admin/RecruitmentCycleDialog';
+import { ModuleCatalogueDialog } from '@/components/admin/ModuleCatalogueDialog';
+import { FacultyCatalogueDialog } from '@/components/admin/FacultyCatalogueDialog';
+import { DocumentRequirementsDialog } from '@/components/admin/DocumentRequirementsDialog';
+import { MarkThresholdDialog } from '@/components/admin/MarkThresholdDialog';
+import { EligibilityRulesDialog } from '@/components/admin/EligibilityRulesDialog';
+import { EligibilityChecklist } from '@/components/EligibilityChecklist';
+import { MarkBadge } from '@/components/MarkBadge';
+import { DocumentVersionHistory } from '@/components/DocumentVersionHistory';
+import { DocumentPreview } from '@/components/admin/DocumentPreview';
+import { StatusTimeline } from '@/components/StatusTimeline';
+import { DocumentVerificationControls } from '@/components/admin/DocumentVerificationControls';
+import { InterviewScheduleDialog } from '@/components/admin/InterviewScheduleDialog';
+import { RubricDialog } from '@/components/admin/RubricDialog';
+import { ReviewScoreSheet } from '@/components/admin/ReviewScoreSheet';
+import { ReviewersDialog } from '@/components/admin/ReviewersDialog';
+import { BulkActionBar } from '@/components/admin/BulkActionBar';
+import { ExportDialog } from '@/components/admin/ExportDialog';
+import { useModules } from '@/hooks/useModules';
+import { useFaculties } from '@/hooks/useFaculties';
+import { useDocumentRequirements } from '@/hooks/useDocumentRequirements';
+import { useMarkThresholds } from '@/hooks/useMarkThresholds';
+import { useEligibilityRules } from '@/hooks/useEligibilityRules';
+import { useRubric } from '@/hooks/useRubric';
+import type { ApplicationModule } from '@/lib/modules';
+import { evaluateMark, formatMark, resolveThreshold } from '@/lib/marks';
+import { fetchEligibilityResult, parseRuleOutcomes, type EligibilityResult } from '@/lib/eligibility';
+import {
+  fetchDocumentVersions,
+  getApplicableRequirements,
+  getDocumentLabel,
+  getExpiredCertifications,
+  getUnverifiedRequirements,
+  groupVersionsByType,
+  requestDocumentScan,
+  type ApplicantCategory,
+  type DocumentVersion,
+} from '@/lib/documents';
+import { fetchActorNames, fetchStatusEvents, type StatusEvent } from '@/lib/statusEvents';
+import {
+  ATTENDANCE_LABELS,
+  OUTCOME_LABELS,
+  fetchApplicationBooking,
+  formatSlotDay,
+  formatSlotLocation,
+  formatSlotTime,
+  type ApplicationBooking,
+} from '@/lib/interviews';
+import { formatScore } from '@/lib/scoring';
+import {
+  APPLICATION_PAGE_SIZE,
+  APPLICATION_SORTS,
+  fetchApplicationPage,
+  fetchMatchingApplications,
+  fetchStatusCounts,
+  parseListQuery,
+  splitSnippet,
+  withListQuery,
+  withSearch,
+  type ApplicationListItem,
+  type ApplicationListQuery,
+  type ApplicationSort,
+  type MatchingApplication,
+} from '@/lib/applicationList';
+import type { ApplicationStatus } from '@/lib/statusEvents';
+import type { BulkResult } from '@/lib/bulkActions';
 
 interface Application {
   id: string;
@@ -36,112 +115,293 @@ interface Application {
   email: string;
   faculty: string;
   department: string;
+  faculty_id: string | null;
+  department_id: string | null;
   degree_program: string;
   year_of_study: number;
   status: string;
   created_at: string;
   submitted_at: string | null;
-  subjects_to_tutor: string[];
+  subjects_to_tutor: string | null;
+  application_modules: Pick<ApplicationModule, 'module_id' | 'relation' | 'mark'>[];
   motivation_letter: string;
   contact_number: string;
   nationality: string;
+  applicant_category: ApplicantCategory;
   residential_address: string;
   date_of_birth: string;
   languages_spoken: string[];
   skills_competencies: string[];
   previous_tutoring_experience: string | null;
   work_experience: string | null;
-  availability: any;
+  availability: Json;
+  availability_notes: string | null;
   rejection_reason: string | null;
-}
-
-interface Document {
-  id: string;
-  document_type: string;
-  file_name: string;
-  file_path: string;
+  reviewed_at: string | null;
+  withdrawal_reason: string | null;
+  withdrawn_at: string | null;
 }
 
 const statusConfig = {
   draft: { label: 'Draft', color: 'bg-muted text-muted-foreground' },
   pending: { label: 'Pending', color: 'bg-warning/20 text-warning' },
   under_review: { label: 'Under Review', color: 'bg-primary/20 text-primary' },
+  interview: { label: 'Interview', color: 'bg-accent/20 text-accent-foreground' },
   approved: { label: 'Approved', color: 'bg-success/20 text-success' },
   rejected: { label: 'Rejected', color: 'bg-destructive/20 text-destructive' },
+  withdrawn: { label: 'Withdrawn', color: 'bg-muted text-muted-foreground' },
 };
 
+const statusLabels = Object.fromEntries(Object.entries(statusConfig).map(([status, { label }]) => [status, label]));
+
 const Admin = () => {
   const navigate = useNavigate();
-  const { user, isAdmin, isLoading: authLoading, signOut } = useAuth();
+  const { user, isAdmin, isReviewer, isLoading: authLoading, signOut } = useAuth();
+  // Reviewers use the same screen; RLS limits them to their assigned applications
+  const canReview = isAdmin === true || isReviewer === true;
   const { setLoading, setMessage } = useLoading();
-  const [applications, setApplications] = useState<Application[]>([]);
+  // The cycle, search, filters, sort and page live in the URL
+  const [searchParams, setSearchParams] = useSearchParams();
+  const listQuery = useMemo(() => parseListQuery(searchParams), [searchParams]);
+  const selectedCycleId = searchParams.get('cycle');
+  const [applications, setApplications] = useState<ApplicationListItem[]>([]);
+  const [totalApplications, setTotalApplications] = useState(0);
+  const [statusCounts, setStatusCounts] = useState<Partial<Record<ApplicationStatus, number>>>({});
   const [isLoading, setIsLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [facultyFilter, setFacultyFilter] = useState('all');
+  const [isFetching, setIsFetching] = useState(false);
+  const [searchInput, setSearchInput] = useState(listQuery.search);
+  const [selected, setSelected] = useState<MatchingApplication[]>([]);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const [exportScope, setExportScope] = useState<'filtered' | 'selected' | null>(null);
   const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
-  const [documents, setDocuments] = useState<Document[]>([]);
+  const [documents, setDocuments] = useState<DocumentVersion[]>([]);
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
+  const [statusEvents, setStatusEvents] = useState<StatusEvent[]>([]);
+  const [interviewBooking, setInterviewBooking] = useState<ApplicationBooking | null>(null);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [eligibility, setEligibility] = useState<EligibilityResult | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isRejecting, setIsRejecting] = useState(false);
   const [rejectionReason, setRejectionReason] = useState('');
   const [isUpdating, setIsUpdating] = useState(false);
+  const [cycles, setCycles] = useState<RecruitmentCycle[]>([]);
+  const [isCycleDialogOpen, setIsCycleDialogOpen] = useState(false);
+  const [isModuleDialogOpen, setIsModuleDialogOpen] = useState(false);
+  const [isThresholdDialogOpen, setIsThresholdDialogOpen] = useState(false);
+  const { modules, reload: reloadModules } = useModules(true);
+  const [isFacultyDialogOpen, setIsFacultyDialogOpen] = useState(false);
+  const { faculties, departments, reload: reloadFaculties } = useFaculties(true);
+  const [isDocumentsDialogOpen, setIsDocumentsDialogOpen] = useState(false);
+  const { requirements: documentRequirements, reload: reloadDocumentRequirements } = useDocumentRequirements(true);
+  const { thresholds, reload: reloadThresholds } = useMarkThresholds();
+  const [isRulesDialogOpen, setIsRulesDialogOpen] = useState(false);
+  const [isInterviewDialogOpen, setIsInterviewDialogOpen] = useState(false);
+  const [isRubricDialogOpen, setIsRubricDialogOpen] = useState(false);
+  const [isReviewersDialogOpen, setIsReviewersDialogOpen] = useState(false);
+  const { criteria: rubricCriteria, settings: scoringSettings, reload: reloadRubric } = useRubric();
+  const { rules: eligibilityRules, reload: reloadEligibilityRules } = useEligibilityRules();
 
   useEffect(() => {
     if (!authLoading && isAdmin !== null) {
       if (!user) {
         navigate('/auth');
-      } else if (isAdmin === false) {
+      } else if (!canReview) {
         navigate('/dashboard');
-        toast.error('Access denied. Admin privileges required.');
+        toast.error('Access denied. Admin or reviewer privileges required.');
       }
     }
-  }, [user, isAdmin, authLoading, navigate]);
+  }, [user, isAdmin, canReview, authLoading, navigate]);
 
   useEffect(() => {
-    if (isAdmin === true) {
-      fetchApplications();
+    if (canReview) {
+      loadCycles();
     }
-  }, [isAdmin]);
+  }, [canReview]);
 
-  const fetchApplications = async () => {
-    setMessage('Loading applications...');
-    setLoading(true);
+  useEffect(() => {
+    setSelected([]);
+  }, [selectedCycleId]);
+
+  // Default to the open intake, falling back to the most recent one
+  useEffect(() => {
+    if (cycles.length === 0 || cycles.some(c => c.id === selectedCycleId)) return;
+
+    const fallback = (cycles.find(c => isCycleOpen(c)) || cycles[0]).id;
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set('cycle', fallback);
+      return next;
+    }, { replace: true });
+  }, [cycles, selectedCycleId, setSearchParams]);
+
+  useEffect(() => {
+    if (canReview && selectedCycleId && cycles.some(c => c.id === selectedCycleId)) {
+      fetchApplications(selectedCycleId, listQuery);
+    }
+  }, [canReview, selectedCycleId, cycles, listQuery]);
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    if (searchInput.trim() === listQuery.search) return;
+
+    const timer = setTimeout(() => {
+      setSearchParams(prev => withSearch(prev, searchInput.trim()), { replace: true });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, listQuery.search, setSearchParams]);
+
+  // Follow the URL when it changes underneath the input, e.g. going back
+  useEffect(() => {
+    setSearchInput(current => current.trim() === listQuery.search ? current : listQuery.search);
+  }, [listQuery.search]);
+
+  const loadCycles = async () => {
     try {
-      const { data, error } = await supabase
-        .from('tutor_applications')
-        .select('*')
-        .neq('status', 'draft')
-        .order('submitted_at', { ascending: false });
+      const data = await fetchCycles();
+      setCycles(data);
 
-      if (error) throw error;
-      setApplications(data || []);
+      if (data.length === 0) {
+        setIsLoading(false);
+      }
+    } catch (error) {
+      logger.error('Error fetching recruitment cycles:', error);
+      toast.error('Failed to load recruitment cycles');
+      setIsLoading(false);
+    }
+  };
+
+  const fetchApplications = async (cycleId: string, query: ApplicationListQuery) => {
+    setIsFetching(true);
+    try {
+      const [page, counts] = await Promise.all([fetchApplicationPage(cycleId, query), fetchStatusCounts(cycleId)]);
+
+      // A page can empty out after applications change status; show the last one instead
+      if (page.applications.length === 0 && query.page > 1) {
+        updateListQuery({ page: Math.max(1, Math.ceil(page.total / APPLICATION_PAGE_SIZE)) }, true);
+        return;
+      }
+
+      setApplications(page.applications);
+      setTotalApplications(page.total);
+      setStatusCounts(counts);
     } catch (error) {
       logger.error('Error fetching applications:', error);
       toast.error('Failed to load applications');
     } finally {
       setIsLoading(false);
-      setLoading(false);
-      setMessage('Loading...');
+      setIsFetching(false);
     }
   };
 
+  const reloadApplications = async () => {
+    if (selectedCycleId) {
+      await fetchApplications(selectedCycleId, listQuery);
+    }
+  };
+
+  const updateListQuery = (changes: Partial<ApplicationListQuery>, replace = false) => {
+    setSearchParams(prev => withListQuery(prev, changes), { replace });
+  };
+
+  const handleCycleChange = (cycleId: string) => {
+    setSearchParams(prev => {
+      const next = withListQuery(prev, {});
+      next.set('cycle', cycleId);
+      return next;
+    });
+  };
+
   const fetchDocuments = async (applicationId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('application_documents')
-        .select('*')
-        .eq('application_id', applicationId);
+      const versions = await fetchDocumentVersions(applicationId);
+      setDocuments(versions);
 
-      if (error) throw error;
-      setDocuments(data || []);
+      // Files uploaded before content checks, or whose scan failed, are checked now
+      const pending = versions.filter(v => v.scan_status === 'pending');
+      if (pending.length > 0) {
+        const scanned = (await Promise.all(pending.map(v => requestDocumentScan(v.id)))).filter(Boolean);
+        setDocuments(prev => prev.map(d => scanned.find(s => s.id === d.id) ?? d));
+      }
     } catch (error) {
       logger.error('Error fetching documents:', error);
     }
   };
 
-  const handleViewApplication = async (application: Application) => {
-    setSelectedApplication(application);
-    await fetchDocuments(application.id);
+  const loadStatusEvents = async (applicationId: string) => {
+    try {
+      const events = await fetchStatusEvents(applicationId);
+      setStatusEvents(events);
+      setActorNames(await fetchActorNames(events));
+    } catch (error) {
+      logger.error('Error fetching status history:', error);
+    }
+  };
+
+  const loadInterviewBooking = async (applicationId: string) => {
+    try {
+      setInterviewBooking(await fetchApplicationBooking(applicationId));
+    } catch (error) {
+      logger.error('Error fetching interview booking:', error);
+    }
+  };
+
+  const loadEligibility = async (applicationId: string) => {
+    try {
+      setEligibility(await fetchEligibilityResult(applicationId));
+    } catch (error) {
+      logger.error('Error fetching eligibility result:', error);
+    }
+  };
+
+  const handleReevaluate = async () => {
+    if (!selectedApplication) return;
+
+    setIsEvaluating(true);
+    try {
+      const { error } = await supabase.rpc('evaluate_eligibility', {
+        _application_id: selectedApplication.id,
+      });
+
+      if (error) throw error;
+
+      await loadEligibility(selectedApplication.id);
+      toast.success('Eligibility re-evaluated');
+    } catch (error) {
+      logger.error('Error evaluating eligibility:', error);
+      toast.error('Failed to evaluate eligibility');
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const handleViewApplication = async (applicationId: string) => {
+    // The list only holds the columns it shows, so load the full application
+    try {
+      const { data, error } = await supabase
+        .from('tutor_applications')
+        .select('*, application_modules(module_id, relation, mark)')
+        .eq('id', applicationId)
+        .single();
+
+      if (error) throw error;
+      setSelectedApplication(data);
+    } catch (error) {
+      logger.error('Error fetching application:', error);
+      toast.error('Failed to load application');
+      return;
+    }
+
+    setEligibility(null);
+    setPreviewVersionId(null);
+    setStatusEvents([]);
+    setInterviewBooking(null);
+    await Promise.all([
+      fetchDocuments(applicationId),
+      loadEligibility(applicationId),
+      loadStatusEvents(applicationId),
+      loadInterviewBooking(applicationId),
+    ]);
     setIsDialogOpen(true);
   };
 
@@ -153,6 +413,11 @@ const Admin = () => {
       return;
     }
 
+    if (newStatus === 'approved' && unverifiedDocuments.length > 0) {
+      toast.error(`Verify all required documents before approving: ${unverifiedDocuments.map(d => d.label).join(', ')}`);
+      return;
+    }
+
     setIsUpdating(true);
     setMessage('Updating application status...');
     setLoading(true);
@@ -175,17 +440,16 @@ const Admin = () => {
 
       if (error) throw error;
 
-      toast.success(`Application ${newStatus === 'approved' ? 'approved' : newStatus === 'rejected' ? 'rejected' : 'updated'} successfully`);
-      
-      setApplications(prev => prev.map(app => 
-        app.id === selectedApplication.id 
-          ? { ...app, status: newStatus, rejection_reason: newStatus === 'rejected' ? rejectionReason : app.rejection_reason }
-          : app
-      ));
-      
+      toast.success(
+        newStatus === 'interview'
+          ? 'Applicant shortlisted for interview'
+          : `Application ${newStatus === 'approved' ? 'approved' : newStatus === 'rejected' ? 'rejected' : 'updated'} successfully`
+      );
+
       setIsDialogOpen(false);
       setIsRejecting(false);
       setRejectionReason('');
+      await reloadApplications();
     } catch (error: any) {
       logger.error('Error updating application:', error);
       toast.error(error.message || 'Failed to update application');
@@ -196,26 +460,45 @@ const Admin = () => {
     }
   };
 
-  const downloadDocument = async (doc: Document) => {
-    try {
-      const { data, error } = await supabase.storage
-        .from('application-documents')
-        .download(doc.file_path);
+  const toggleSelected = (application: MatchingApplication, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, application] : prev.filter(a => a.id !== application.id));
+  };
 
-      if (error) throw error;
+  const togglePageSelected = (checked: boolean) => {
+    setSelected(prev => {
+      const others = prev.filter(a => !applications.some(app => app.id === a.id));
+      return checked ? [...others, ...applications] : others;
+    });
+  };
+
+  const handleSelectAllMatching = async () => {
+    if (!selectedCycleId) return;
 
-      const url = URL.createObjectURL(data);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = doc.file_name;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+    setIsSelectingAll(true);
+    try {
+      const matching = await fetchMatchingApplications(selectedCycleId, listQuery);
+      const matchingIds = new Set(matching.map(a => a.id));
+      setSelected(prev => [...prev.filter(a => !matchingIds.has(a.id)), ...matching]);
     } catch (error) {
-      logger.error('Error downloading document:', error);
-      toast.error('Failed to download document');
+      logger.error('Error selecting applications:', error);
+      toast.error('Failed to select applications');
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  const handleBulkCompleted = async (results: BulkResult[]) => {
+    const failedCount = results.filter(r => !r.succeeded).length;
+    if (failedCount === 0) {
+      toast.success(`${results.length} ${results.length === 1 ? 'application' : 'applications'} updated`);
+    } else {
+      toast.warning(`${results.length - failedCount} updated, ${failedCount} failed`);
     }
+
+    // Keep the rows that failed selected so they can be fixed and retried
+    const failedIds = results.filter(r => !r.succeeded).map(r => r.application_id);
+    setSelected(prev => prev.filter(a => failedIds.includes(a.id)));
+    await reloadApplications();
   };
 
   const handleSignOut = async () => {
@@ -223,27 +506,47 @@ const Admin = () => {
     navigate('/auth');
   };
 
-  const filteredApplications = applications.filter(app => {
-    const matchesSearch = 
-      app.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      app.student_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      app.email.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = statusFilter === 'all' || app.status === statusFilter;
-    const matchesFaculty = facultyFilter === 'all' || app.faculty === facultyFilter;
-    
-    return matchesSearch && matchesStatus && matchesFaculty;
-  });
+  const getModulesFor = (app: Application, relation: ApplicationModule['relation']) => {
+    const ids = app.application_modules
+      .filter(am => am.relation === relation)
+      .map(am => am.module_id);
+    return modules.filter(m => ids.includes(m.id));
+  };
+
+  const getMarkFor = (app: Application, moduleId: string) => {
+    const row = app.application_modules.find(am => am.relation === 'tutor' && am.module_id === moduleId);
+    return row?.mark ?? null;
+  };
+
+  const selectedIds = new Set(selected.map(a => a.id));
+  const isPageSelected = applications.length > 0 && applications.every(app => selectedIds.has(app.id));
+  const pageCount = Math.max(1, Math.ceil(totalApplications / APPLICATION_PAGE_SIZE));
+  const firstOnPage = (listQuery.page - 1) * APPLICATION_PAGE_SIZE + 1;
+
+  const unverifiedDocuments = selectedApplication
+    ? getUnverifiedRequirements(getApplicableRequirements(documentRequirements, selectedApplication), documents)
+    : [];
+
+  // Certified copies are judged as of submission, matching the eligibility rule
+  const expiredCertifications = selectedApplication
+    ? getExpiredCertifications(
+        documentRequirements,
+        documents.filter(d => d.is_current),
+        selectedApplication.submitted_at ? new Date(selectedApplication.submitted_at) : undefined
+      )
+    : [];
 
   const stats = {
-    total: applications.length,
-    pending: applications.filter(a => a.status === 'pending').length,
-    underReview: applications.filter(a => a.status === 'under_review').length,
-    approved: applications.filter(a => a.status === 'approved').length,
-    rejected: applications.filter(a => a.status === 'rejected').length,
+    total: Object.values(statusCounts).reduce((sum, count) => sum + (count ?? 0), 0),
+    pending: statusCounts.pending ?? 0,
+    underReview: statusCounts.under_review ?? 0,
+    interview: statusCounts.interview ?? 0,
+    approved: statusCounts.approved ?? 0,
+    rejected: statusCounts.rejected ?? 0,
+    withdrawn: statusCounts.withdrawn ?? 0,
   };
 
-  const faculties = [...new Set(applications.map(a => a.faculty))];
+  const selectedCycle = cycles.find(c => c.id === selectedCycleId);
 
   if (authLoading || isLoading || isAdmin === null) {
     return (
@@ -264,7 +567,7 @@ const Admin = () => {
             </div>
             <div>
               <h1 className="font-bold text-lg">UFH Tutors</h1>
-              <p className="text-xs text-sidebar-foreground/70">Admin Dashboard</p>
+              <p className="text-xs text-sidebar-foreground/70">{isAdmin ? 'Admin Dashboard' : 'Reviewer Dashboard'}</p>
             </div>
           </Link>
           <Button variant="ghost" onClick={handleSignOut} className="gap-2 text-sidebar-foreground hover:bg-sidebar-accent">
@@ -276,8 +579,66 @@ const Admin = () => {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
+        {/* Recruitment Cycle */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold">{selectedCycle?.name || 'No recruitment cycle'}</h2>
+            <p className="text-sm text-muted-foreground">
+              {selectedCycle ? formatCycleWindow(selectedCycle) : 'Create a recruitment cycle to start accepting applications'}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={selectedCycleId ?? undefined} onValueChange={handleCycleChange}>
+              <SelectTrigger className="w-full md:w-64">
+                <CalendarRange className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Select cycle" />
+              </SelectTrigger>
+              <SelectContent>
+                {cycles.map(cycle => (
+                  <SelectItem key={cycle.id} value={cycle.id}>{cycle.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isAdmin && (
+              <>
+                <Button variant="outline" onClick={() => setIsCycleDialogOpen(true)}>
+                  Manage Cycles
+                </Button>
+                <Button variant="outline" onClick={() => setIsModuleDialogOpen(true)}>
+                  <BookOpen className="w-4 h-4 mr-2" />
+                  Modules
+                </Button>
+                <Button variant="outline" onClick={() => setIsFacultyDialogOpen(true)}>
+                  Faculties
+                </Button>
+                <Button variant="outline" onClick={() => setIsDocumentsDialogOpen(true)}>
+                  Documents
+                </Button>
+                <Button variant="outline" onClick={() => setIsThresholdDialogOpen(true)}>
+                  Minimum Marks
+                </Button>
+                <Button variant="outline" onClick={() => setIsRulesDialogOpen(true)}>
+                  Eligibility Rules
+                </Button>
+                <Button variant="outline" onClick={() => setIsRubricDialogOpen(true)}>
+                  <Scale className="w-4 h-4 mr-2" />
+                  Rubric
+                </Button>
+                <Button variant="outline" onClick={() => setIsInterviewDialogOpen(true)} disabled={!selectedCycle}>
+                  <CalendarClock className="w-4 h-4 mr-2" />
+                  Interviews
+                </Button>
+                <Button variant="outline" onClick={() => setIsReviewersDialogOpen(true)} disabled={!selectedCycle}>
+                  <UserCheck className="w-4 h-4 mr-2" />
+                  Reviewers
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
         {/* Stats */}
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-4 mb-8">
           <Card className="border-0 shadow-md">
             <CardContent className="p-4">
               <div className="flex items-center gap-3">
@@ -317,6 +678,19 @@ const Admin = () => {
               </div>
             </CardContent>
           </Card>
+          <Card className="border-0 shadow-md">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-accent/10 flex items-center justify-center">
+                  <CalendarClock className="w-5 h-5 text-accent" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{stats.interview}</p>
+                  <p className="text-xs text-muted-foreground">Interview</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
           <Card className="border-0 shadow-md">
             <CardContent className="p-4">
               <div className="flex items-center gap-3">
@@ -343,6 +717,19 @@ const Admin = () => {
               </div>
             </CardContent>
           </Card>
+          <Card className="border-0 shadow-md">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center">
+                  <Undo2 className="w-5 h-5 text-muted-foreground" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{stats.withdrawn}</p>
+                  <p className="text-xs text-muted-foreground">Withdrawn</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Filters */}
@@ -352,13 +739,16 @@ const Admin = () => {
               <div className="flex-1 relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search by name, student number, or email..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Search names, student numbers, skills, experience or motivation..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="pl-10"
                 />
               </div>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select
+                value={listQuery.status}
+                onValueChange={(value) => updateListQuery({ status: value as ApplicationListQuery['status'] })}
+              >
                 <SelectTrigger className="w-full md:w-48">
                   <Filter className="w-4 h-4 mr-2" />
                   <SelectValue placeholder="Filter by status" />
@@ -367,18 +757,57 @@ const Admin = () => {
                   <SelectItem value="all">All Statuses</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="under_review">Under Review</SelectItem>
+                  <SelectItem value="interview">Interview</SelectItem>
                   <SelectItem value="approved">Approved</SelectItem>
                   <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="withdrawn">Withdrawn</SelectItem>
                 </SelectContent>
               </Select>
-              <Select value={facultyFilter} onValueChange={setFacultyFilter}>
+              <Select value={listQuery.facultyId} onValueChange={(value) => updateListQuery({ facultyId: value })}>
                 <SelectTrigger className="w-full md:w-64">
                   <SelectValue placeholder="Filter by faculty" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Faculties</SelectItem>
                   {faculties.map(faculty => (
-                    <SelectItem key={faculty} value={faculty}>{faculty}</SelectItem>
+                    <SelectItem key={faculty.id} value={faculty.id}>{faculty.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col md:flex-row md:items-center gap-4 mt-4">
+              <span className="text-sm text-muted-foreground">Available on</span>
+              <Select value={listQuery.weekday} onValueChange={(value) => updateListQuery({ weekday: value })}>
+                <SelectTrigger className="w-full md:w-40">
+                  <SelectValue placeholder="Any day" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any day</SelectItem>
+                  {WEEKDAYS.map(day => (
+                    <SelectItem key={day.value} value={day.value.toString()}>{day.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={listQuery.time} onValueChange={(value) => updateListQuery({ time: value })}>
+                <SelectTrigger className="w-full md:w-40">
+                  <SelectValue placeholder="Any time" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any time</SelectItem>
+                  {TIME_SLOTS.map(time => (
+                    <SelectItem key={time.start} value={time.start}>{formatTimeRange(time.start, time.end)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">Wants to tutor</span>
+              <Select value={listQuery.moduleId} onValueChange={(value) => updateListQuery({ moduleId: value })}>
+                <SelectTrigger className="w-full md:w-64">
+                  <SelectValue placeholder="Any module" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any module</SelectItem>
+                  {modules.map(module => (
+                    <SelectItem key={module.id} value={module.id}>{module.code} – {module.name}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
@@ -388,34 +817,119 @@ const Admin = () => {
 
         {/* Applications List */}
         <Card className="border-0 shadow-lg">
-          <CardHeader>
-            <CardTitle>Applications ({filteredApplications.length})</CardTitle>
-            <CardDescription>Review and manage tutor applications</CardDescription>
+          <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4 space-y-0">
+            <div className="flex items-center gap-4">
+              <Checkbox
+                checked={isPageSelected}
+                onCheckedChange={(checked) => togglePageSelected(checked === true)}
+                disabled={applications.length === 0}
+                aria-label="Select all applications on this page"
+              />
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  Applications ({totalApplications})
+                  {isFetching && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                </CardTitle>
+                <CardDescription>Review and manage tutor applications</CardDescription>
+              </div>
+            </div>
+            <div className="flex gap-2 w-full md:w-auto">
+              <Button
+                variant="outline"
+                onClick={() => setExportScope('filtered')}
+                disabled={totalApplications === 0}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+              <Select value={listQuery.sort} onValueChange={(value) => updateListQuery({ sort: value as ApplicationSort })}>
+                <SelectTrigger className="w-full md:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(APPLICATION_SORTS)
+                    .filter(([value]) => value !== 'relevance' || listQuery.search)
+                    .map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
           </CardHeader>
           <CardContent>
-            {filteredApplications.length === 0 ? (
+            <BulkActionBar
+              applications={selected}
+              canAssign={isAdmin === true}
+              onCompleted={handleBulkCompleted}
+              onExport={() => setExportScope('selected')}
+              onClear={() => setSelected([])}
+            />
+            {isPageSelected && selected.length < totalApplications && (
+              <div className="flex flex-wrap items-center justify-center gap-2 mb-4 text-sm">
+                <span className="text-muted-foreground">
+                  {selected.length} selected.
+                </span>
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={handleSelectAllMatching} disabled={isSelectingAll}>
+                  {isSelectingAll && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                  Select all {totalApplications} matching applications
+                </Button>
+              </div>
+            )}
+            {applications.length === 0 ? (
               <div className="text-center py-12">
                 <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground">No applications found</p>
               </div>
             ) : (
               <div className="space-y-3">
-                {filteredApplications.map((app) => (
+                {applications.map((app) => (
                   <div
                     key={app.id}
                     className="flex items-center justify-between p-4 rounded-lg border bg-card hover:shadow-md transition-shadow cursor-pointer"
-                    onClick={() => handleViewApplication(app)}
+                    onClick={() => handleViewApplication(app.id)}
                   >
                     <div className="flex items-center gap-4">
+                      <Checkbox
+                        checked={selectedIds.has(app.id)}
+                        onCheckedChange={(checked) => toggleSelected(app, checked === true)}
+                        onClick={(e) => e.stopPropagation()}
+                        aria-label={`Select ${app.full_name}`}
+                      />
                       <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center text-primary font-semibold">
                         {app.full_name.split(' ').map(n => n[0]).join('').slice(0, 2).toUpperCase()}
                       </div>
-                      <div>
+                      <div className="min-w-0">
                         <p className="font-medium">{app.full_name}</p>
                         <p className="text-sm text-muted-foreground">{app.student_number} • {app.faculty}</p>
+                        {app.snippet && (
+                          <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                            {splitSnippet(app.snippet).map((part, index) =>
+                              part.isMatch ? (
+                                <mark key={index} className="bg-primary/15 text-foreground rounded-sm px-0.5">{part.text}</mark>
+                              ) : (
+                                <span key={index}>{part.text}</span>
+                              )
+                            )}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-3">
+                      {app.needs_moderation && (
+                        <Badge variant="destructive" className="gap-1 hidden sm:inline-flex">
+                          <AlertTriangle className="w-3 h-3" />
+                          Moderate
+                        </Badge>
+                      )}
+                      {app.reviewer_count !== null && (
+                        <div className="text-right hidden sm:block">
+                          <p className="font-semibold leading-none">{formatScore(app.average_score)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {app.reviewer_count} scored
+                            {app.reviewer_count > 1 && ` • spread ${formatScore(app.spread)}`}
+                          </p>
+                        </div>
+                      )}
                       <Badge className={statusConfig[app.status as keyof typeof statusConfig]?.color}>
                         {statusConfig[app.status as keyof typeof statusConfig]?.label}
                       </Badge>
@@ -428,13 +942,135 @@ const Admin = () => {
                 ))}
               </div>
             )}
+            {totalApplications > APPLICATION_PAGE_SIZE && (
+              <div className="flex items-center justify-between gap-4 mt-6">
+                <p className="text-sm text-muted-foreground">
+                  Showing {firstOnPage}–{firstOnPage + applications.length - 1} of {totalApplications}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateListQuery({ page: listQuery.page - 1 })}
+                    disabled={listQuery.page <= 1 || isFetching}
+                  >
+                    <ChevronLeft className="w-4 h-4 mr-1" />
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {listQuery.page} of {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateListQuery({ page: listQuery.page + 1 })}
+                    disabled={listQuery.page >= pageCount || isFetching}
+                  >
+                    Next
+                    <ChevronRight className="w-4 h-4 ml-1" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       </main>
 
+      <RecruitmentCycleDialog
+        open={isCycleDialogOpen}
+        onOpenChange={setIsCycleDialogOpen}
+        cycles={cycles}
+        onCyclesChanged={loadCycles}
+      />
+
+      <ModuleCatalogueDialog
+        open={isModuleDialogOpen}
+        onOpenChange={setIsModuleDialogOpen}
+        modules={modules}
+        onModulesChanged={reloadModules}
+      />
+
+      <FacultyCatalogueDialog
+        open={isFacultyDialogOpen}
+        onOpenChange={setIsFacultyDialogOpen}
+        faculties={faculties}
+        departments={departments}
+        onCatalogueChanged={reloadFaculties}
+      />
+
+      <DocumentRequirementsDialog
+        open={isDocumentsDialogOpen}
+        onOpenChange={setIsDocumentsDialogOpen}
+        requirements={documentRequirements}
+        faculties={faculties}
+        onRequirementsChanged={reloadDocumentRequirements}
+      />
+
+      <MarkThresholdDialog
+        open={isThresholdDialogOpen}
+        onOpenChange={setIsThresholdDialogOpen}
+        thresholds={thresholds}
+        modules={modules}
+        onThresholdsChanged={reloadThresholds}
+      />
+
+      <EligibilityRulesDialog
+        open={isRulesDialogOpen}
+        onOpenChange={setIsRulesDialogOpen}
+        rules={eligibilityRules}
+        documents={documentRequirements}
+        onRulesChanged={reloadEligibilityRules}
+      />
+
+      <RubricDialog
+        open={isRubricDialogOpen}
+        onOpenChange={setIsRubricDialogOpen}
+        criteria={rubricCriteria}
+        settings={scoringSettings}
+        onRubricChanged={reloadRubric}
+      />
+
+      <ExportDialog
+        open={exportScope !== null}
+        onOpenChange={(open) => !open && setExportScope(null)}
+        count={exportScope === 'selected' ? selected.length : totalApplications}
+        loadApplicationIds={async () =>
+          exportScope === 'selected'
+            ? selected.map(a => a.id)
+            : selectedCycleId
+              ? (await fetchMatchingApplications(selectedCycleId, listQuery)).map(a => a.id)
+              : []
+        }
+        description={
+          exportScope === 'selected'
+            ? `${selected.length} selected applications`
+            : `${totalApplications} applications matching the current search and filters, in list order`
+        }
+        fileName={`tutor-applications-${selectedCycle?.name ?? 'export'}`.replace(/[^\w-]+/g, '-').toLowerCase()}
+        modules={modules}
+        requirements={documentRequirements}
+        statusLabels={statusLabels}
+      />
+
+      <ReviewersDialog
+        open={isReviewersDialogOpen}
+        onOpenChange={setIsReviewersDialogOpen}
+        cycle={selectedCycle}
+        faculties={faculties}
+        departments={departments}
+        adminId={user?.id}
+      />
+
+      <InterviewScheduleDialog
+        open={isInterviewDialogOpen}
+        onOpenChange={setIsInterviewDialogOpen}
+        cycle={selectedCycle}
+        reviewerId={user?.id}
+      />
+
       {/* Application Detail Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
           {selectedApplication && (
             <>
               <DialogHeader>
@@ -449,118 +1085,265 @@ const Admin = () => {
                 </div>
               </DialogHeader>
 
-              <div className="space-y-6 py-4">
-                {/* Personal Information */}
-                <div>
-                  <h4 className="font-semibold mb-3">Personal Information</h4>
-                  <dl className="grid grid-cols-2 gap-3 text-sm">
-                    <div><dt className="text-muted-foreground">Email</dt><dd>{selectedApplication.email}</dd></div>
-                    <div><dt className="text-muted-foreground">Contact</dt><dd>{selectedApplication.contact_number}</dd></div>
-                    <div><dt className="text-muted-foreground">Date of Birth</dt><dd>{selectedApplication.date_of_birth}</dd></div>
-                    <div><dt className="text-muted-foreground">Nationality</dt><dd>{selectedApplication.nationality}</dd></div>
-                    <div className="col-span-2"><dt className="text-muted-foreground">Address</dt><dd>{selectedApplication.residential_address}</dd></div>
-                  </dl>
-                </div>
+              <div className="grid lg:grid-cols-2 gap-6 py-4">
+                <div className="space-y-6 min-w-0">
+                  {/* Personal Information */}
+                  <div>
+                    <h4 className="font-semibold mb-3">Personal Information</h4>
+                    <dl className="grid grid-cols-2 gap-3 text-sm">
+                      <div><dt className="text-muted-foreground">Email</dt><dd>{selectedApplication.email}</dd></div>
+                      <div><dt className="text-muted-foreground">Contact</dt><dd>{selectedApplication.contact_number}</dd></div>
+                      <div><dt className="text-muted-foreground">Date of Birth</dt><dd>{selectedApplication.date_of_birth}</dd></div>
+                      <div><dt className="text-muted-foreground">Nationality</dt><dd>{selectedApplication.nationality}</dd></div>
+                      <div className="col-span-2"><dt className="text-muted-foreground">Address</dt><dd>{selectedApplication.residential_address}</dd></div>
+                    </dl>
+                  </div>
 
-                {/* Academic Information */}
-                <div>
-                  <h4 className="font-semibold mb-3">Academic Information</h4>
-                  <dl className="grid grid-cols-2 gap-3 text-sm">
-                    <div><dt className="text-muted-foreground">Degree</dt><dd>{selectedApplication.degree_program}</dd></div>
-                    <div><dt className="text-muted-foreground">Year</dt><dd>Year {selectedApplication.year_of_study}</dd></div>
-                    <div><dt className="text-muted-foreground">Faculty</dt><dd>{selectedApplication.faculty}</dd></div>
-                    <div><dt className="text-muted-foreground">Department</dt><dd>{selectedApplication.department}</dd></div>
-                    <div className="col-span-2">
-                      <dt className="text-muted-foreground">Subjects to Tutor</dt>
-                      <dd className="flex flex-wrap gap-1 mt-1">
-                        {selectedApplication.subjects_to_tutor?.split(',').map((subj, index) => (
-                          <Badge key={index} variant="secondary">{subj.trim()}</Badge>
-                        ))}
-                      </dd>
-                    </div>
-                  </dl>
-                </div>
+                  {/* Academic Information */}
+                  <div>
+                    <h4 className="font-semibold mb-3">Academic Information</h4>
+                    <dl className="grid grid-cols-2 gap-3 text-sm">
+                      <div><dt className="text-muted-foreground">Degree</dt><dd>{selectedApplication.degree_program}</dd></div>
+                      <div><dt className="text-muted-foreground">Year</dt><dd>Year {selectedApplication.year_of_study}</dd></div>
+                      <div><dt className="text-muted-foreground">Faculty</dt><dd>{selectedApplication.faculty}</dd></div>
+                      <div><dt className="text-muted-foreground">Department</dt><dd>{selectedApplication.department}</dd></div>
+                      <div className="col-span-2">
+                        <dt className="text-muted-foreground">Modules to Tutor</dt>
+                        <dd className="space-y-2 mt-1">
+                          {getModulesFor(selectedApplication, 'tutor').map(module => {
+                            const mark = getMarkFor(selectedApplication, module.id);
+                            const threshold = resolveThreshold(module, thresholds);
+                            return (
+                              <div key={module.id} className="flex items-center justify-between gap-3 p-2 rounded-md border">
+                                <div className="min-w-0">
+                                  <span className="font-medium mr-2">{module.code}</span>
+                                  <span className="text-muted-foreground">{module.name}</span>
+                                </div>
+                                <div className="flex items-center gap-2 shrink-0">
+                                  <span className="font-semibold">{formatMark(mark)}</span>
+                                  <MarkBadge result={evaluateMark(mark, threshold)} threshold={threshold} />
+                                </div>
+                              </div>
+                            );
+                          })}
+                          {/* Applications from before the catalogue only have free text */}
+                          {getModulesFor(selectedApplication, 'tutor').length === 0 && (
+                            <span>{selectedApplication.subjects_to_tutor || 'Not specified'}</span>
+                          )}
+                        </dd>
+                      </div>
+                      <div className="col-span-2">
+                        <dt className="text-muted-foreground">Modules Completed</dt>
+                        <dd className="flex flex-wrap gap-1 mt-1">
+                          {getModulesFor(selectedApplication, 'completed').map(module => (
+                            <Badge key={module.id} variant="outline" title={module.name}>{module.code}</Badge>
+                          ))}
+                        </dd>
+                      </div>
+                    </dl>
+                  </div>
 
-                {/* Skills & Experience */}
-                <div>
-                  <h4 className="font-semibold mb-3">Skills & Experience</h4>
-                  <dl className="space-y-3 text-sm">
-                    <div>
-                      <dt className="text-muted-foreground">Languages</dt>
-                      <dd className="flex flex-wrap gap-1 mt-1">
-                        {selectedApplication.languages_spoken?.split(',').map((lang, index) => (
-                          <Badge key={index} variant="outline">{lang.trim()}</Badge>
-                        ))}
-                      </dd>
-                    </div>
-                    <div>
-                      <dt className="text-muted-foreground">Skills</dt>
-                      <dd className="flex flex-wrap gap-1 mt-1">
-                        {selectedApplication.skills_competencies?.split(',').map((skill, index) => (
-                          <Badge key={index} variant="outline">{skill.trim()}</Badge>
-                        ))}
-                      </dd>
+                  {/* Eligibility */}
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="font-semibold flex items-center gap-2">
+                        Eligibility
+                        {eligibility && (
+                          <Badge className={eligibility.passed ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'}>
+                            {eligibility.passed ? 'Eligible' : 'Not eligible'}
+                          </Badge>
+                        )}
+                      </h4>
+                      {isAdmin && (
+                        <Button size="sm" variant="ghost" onClick={handleReevaluate} disabled={isEvaluating}>
+                          {isEvaluating && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                          Re-evaluate
+                        </Button>
+                      )}
                     </div>
-                    {selectedApplication.previous_tutoring_experience && (
+                    {eligibility ? (
+                      <>
+                        <EligibilityChecklist outcomes={parseRuleOutcomes(eligibility.results)} documents={documentRequirements} />
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Evaluated {new Date(eligibility.evaluated_at).toLocaleString('en-ZA')}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Not evaluated yet</p>
+                    )}
+                  </div>
+
+                  {/* Skills & Experience */}
+                  <div>
+                    <h4 className="font-semibold mb-3">Skills & Experience</h4>
+                    <dl className="space-y-3 text-sm">
                       <div>
-                        <dt className="text-muted-foreground">Previous Tutoring Experience</dt>
-                        <dd className="mt-1">{selectedApplication.previous_tutoring_experience}</dd>
+                        <dt className="text-muted-foreground">Languages</dt>
+                        <dd className="flex flex-wrap gap-1 mt-1">
+                          {selectedApplication.languages_spoken?.split(',').map((lang, index) => (
+                            <Badge key={index} variant="outline">{lang.trim()}</Badge>
+                          ))}
+                        </dd>
                       </div>
-                    )}
-                    <div>
-                      <dt className="text-muted-foreground">Availability</dt>
-                      <dd className="mt-1">{selectedApplication.availability?.description || 'Not specified'}</dd>
-                    </div>
-                  </dl>
-                </div>
+                      <div>
+                        <dt className="text-muted-foreground">Skills</dt>
+                        <dd className="flex flex-wrap gap-1 mt-1">
+                          {selectedApplication.skills_competencies?.split(',').map((skill, index) => (
+                            <Badge key={index} variant="outline">{skill.trim()}</Badge>
+                          ))}
+                        </dd>
+                      </div>
+                      {selectedApplication.previous_tutoring_experience && (
+                        <div>
+                          <dt className="text-muted-foreground">Previous Tutoring Experience</dt>
+                          <dd className="mt-1">{selectedApplication.previous_tutoring_experience}</dd>
+                        </div>
+                      )}
+                      <div>
+                        <dt className="text-muted-foreground">Availability</dt>
+                        <dd className="mt-1 space-y-2">
+                          <p>{summarizeAvailability(parseAvailability(selectedApplication.availability))}</p>
+                          <AvailabilityGrid value={parseAvailability(selectedApplication.availability)} readOnly />
+                          {selectedApplication.availability_notes && (
+                            <p className="text-muted-foreground">{selectedApplication.availability_notes}</p>
+                          )}
+                        </dd>
+                      </div>
+                    </dl>
+                  </div>
 
-                {/* Motivation Letter */}
-                <div>
-                  <h4 className="font-semibold mb-3">Motivation Letter</h4>
-                  <p className="text-sm bg-muted/50 p-4 rounded-lg whitespace-pre-wrap">
-                    {selectedApplication.motivation_letter}
-                  </p>
-                </div>
+                  {/* Motivation Letter */}
+                  <div>
+                    <h4 className="font-semibold mb-3">Motivation Letter</h4>
+                    <p className="text-sm bg-muted/50 p-4 rounded-lg whitespace-pre-wrap">
+                      {selectedApplication.motivation_letter}
+                    </p>
+                  </div>
 
-                {/* Documents */}
-                <div>
-                  <h4 className="font-semibold mb-3">Documents</h4>
-                  <div className="space-y-2">
-                    {documents.length === 0 ? (
-                      <p className="text-sm text-muted-foreground">No documents uploaded</p>
-                    ) : (
-                      documents.map(doc => (
-                        <div key={doc.id} className="flex items-center justify-between p-3 rounded-lg border">
-                          <div className="flex items-center gap-2">
-                            <FileText className="w-4 h-4 text-muted-foreground" />
-                            <span className="text-sm">{doc.file_name}</span>
-                            <Badge variant="outline" className="text-xs">{doc.document_type.replace('_', ' ')}</Badge>
-                          </div>
-                          <Button variant="ghost" size="sm" onClick={() => downloadDocument(doc)}>
-                            <Download className="w-4 h-4" />
-                          </Button>
-                        </div>
-                      ))
+                  {/* Documents */}
+                  <div>
+                    <h4 className="font-semibold mb-3">Documents</h4>
+                    {unverifiedDocuments.length > 0 && (
+                      <p className="flex items-start gap-2 text-sm text-warning mb-3">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        Approval needs verified copies of: {unverifiedDocuments.map(d => d.label).join(', ')}
+                      </p>
+                    )}
+                    {expiredCertifications.length > 0 && (
+                      <p className="flex items-start gap-2 text-sm text-warning mb-3">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        Certification too old or undated at submission: {expiredCertifications.map(d => getDocumentLabel(documentRequirements, d.document_type)).join(', ')}
+                      </p>
                     )}
+                    <div className="space-y-2">
+                      {documents.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No documents uploaded</p>
+                      ) : (
+                        Object.entries(groupVersionsByType(documents)).map(([documentType, versions]) => (
+                          <div key={documentType} className="p-3 rounded-lg border space-y-2">
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-medium">{getDocumentLabel(documentRequirements, documentType)}</span>
+                              {versions.length > 1 && (
+                                <Badge variant="outline" className="text-xs">{versions.length} versions</Badge>
+                              )}
+                            </div>
+                            <DocumentVersionHistory
+                              versions={versions}
+                              reviewedAt={selectedApplication.reviewed_at}
+                              requirement={documentRequirements.find(r => r.document_type === documentType)}
+                              certificationCheckedAt={selectedApplication.submitted_at}
+                              onOpen={(version) => setPreviewVersionId(version.id)}
+                              renderActions={(version) => version.is_current && version.scan_status === 'clean' && (
+                                <DocumentVerificationControls
+                                  version={version}
+                                  reviewerId={user?.id}
+                                  onVerificationChanged={(updated) =>
+                                    setDocuments(prev => prev.map(d => (d.id === updated.id ? updated : d)))
+                                  }
+                                />
+                              )}
+                            />
+                          </div>
+                        ))
+                      )}
+                    </div>
                   </div>
-                </div>
 
-                {/* Rejection Reason Input */}
-                {isRejecting && (
+                  {/* Scores */}
                   <div>
-                    <h4 className="font-semibold mb-3 text-destructive">Rejection Reason</h4>
-                    <Textarea
-                      placeholder="Please provide a reason for rejection. This will be visible to the applicant."
-                      value={rejectionReason}
-                      onChange={(e) => setRejectionReason(e.target.value)}
-                      className="min-h-[100px]"
+                    <h4 className="font-semibold mb-3">Scores</h4>
+                    <ReviewScoreSheet
+                      applicationId={selectedApplication.id}
+                      criteria={rubricCriteria}
+                      moderationSpread={scoringSettings ? Number(scoringSettings.moderation_spread) : null}
+                      reviewerId={user?.id}
+                      canScore={selectedApplication.status !== 'withdrawn'}
+                      onSaved={reloadApplications}
                     />
                   </div>
-                )}
+
+                  {/* Interview */}
+                  {interviewBooking?.interview_slots && (
+                    <div>
+                      <h4 className="font-semibold mb-3">Interview</h4>
+                      <div className="p-3 rounded-lg bg-muted/50 text-sm space-y-1">
+                        <p className="font-medium">
+                          {formatSlotDay(interviewBooking.interview_slots.starts_at)}, {formatSlotTime(interviewBooking.interview_slots)}
+                        </p>
+                        <p className="text-muted-foreground">{formatSlotLocation(interviewBooking.interview_slots)}</p>
+                        <div className="flex flex-wrap gap-2 pt-1">
+                          <Badge variant="outline">{ATTENDANCE_LABELS[interviewBooking.attendance]}</Badge>
+                          {interviewBooking.outcome && (
+                            <Badge variant={interviewBooking.outcome === 'recommended' ? 'default' : 'destructive'}>
+                              {OUTCOME_LABELS[interviewBooking.outcome]}
+                            </Badge>
+                          )}
+                        </div>
+                        {interviewBooking.notes && <p className="pt-1">{interviewBooking.notes}</p>}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Status History */}
+                  <div>
+                    <h4 className="font-semibold mb-3">Status History</h4>
+                    <StatusTimeline events={statusEvents} actorNames={actorNames} />
+                  </div>
+
+                  {/* Rejection Reason Input */}
+                  {isRejecting && (
+                    <div>
+                      <h4 className="font-semibold mb-3 text-destructive">Rejection Reason</h4>
+                      <Textarea
+                        placeholder="Please provide a reason for rejection. This will be visible to the applicant."
+                        value={rejectionReason}
+                        onChange={(e) => setRejectionReason(e.target.value)}
+                        className="min-h-[100px]"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Document Preview, kept in view beside the form data */}
+                <div className="min-w-0 lg:sticky lg:top-0 self-start">
+                  <h4 className="font-semibold mb-3">Preview</h4>
+                  <DocumentPreview
+                    versions={documents}
+                    requirements={documentRequirements}
+                    activeVersionId={previewVersionId}
+                    onActiveVersionChange={setPreviewVersionId}
+                  />
+                </div>
               </div>
 
               <DialogFooter className="flex-col sm:flex-row gap-2">
-                {!isRejecting ? (
+                {selectedApplication.status === 'withdrawn' ? (
+                  <p className="text-sm text-muted-foreground">
+                    Withdrawn by the applicant
+                    {selectedApplication.withdrawn_at && ` on ${new Date(selectedApplication.withdrawn_at).toLocaleDateString('en-ZA')}`}
+                    {selectedApplication.withdrawal_reason && `: ${selectedApplication.withdrawal_reason}`}
+                  </p>
+                ) : !isRejecting ? (
                   <>
                     {selectedApplication.status !== 'approved' && (
                       <Button
@@ -582,6 +1365,16 @@ const Admin = () => {
                         Reject
                       </Button>
                     )}
+                    {(selectedApplication.status === 'pending' || selectedApplication.status === 'under_review') && (
+                      <Button
+                        variant="outline"
+                        onClick={() => handleUpdateStatus('interview')}
+                        disabled={isUpdating}
+                      >
+                        <CalendarClock className="w-4 h-4 mr-2" />
+                        Shortlist for Interview
+                      </Button>
+                    )}
                     {selectedApplication.status === 'pending' && (
                       <Button
                         variant="outline"
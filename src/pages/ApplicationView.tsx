@@ -7,38 +7,32 @@ import {
   GraduationCap, 
   ArrowLeft, 
   Loader2, 
-  User, 
-  BookOpen, 
-  Briefcase, 
-  Upload, 
   CheckCircle2,
   FileText,
   LogOut,
   Clock,
   AlertCircle,
-  XCircle
+  XCircle,
+  Undo2,
+  CalendarClock
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLoading } from '@/contexts/LoadingContext';
+import { ApplicationSummary } from '@/components/ApplicationSummary';
+import { DocumentVersionHistory } from '@/components/DocumentVersionHistory';
+import { useModules } from '@/hooks/useModules';
+import { useFaculties } from '@/hooks/useFaculties';
+import { useDocumentRequirements } from '@/hooks/useDocumentRequirements';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { logger } from '@/lib/logger';
-
-interface UploadedDocument {
-  id?: string;
-  document_type: string;
-  file_name: string;
-  file_path: string;
-  file_size: number;
-  mime_type: string;
-}
-
-const REQUIRED_DOCUMENTS = [
-  { type: 'certified_id', label: 'Certified ID Copy', description: 'Must be certified within the last 3 months' },
-  { type: 'academic_transcript', label: 'Academic Transcript', description: 'Official UFH transcript' },
-  { type: 'cv', label: 'CV / Resume', description: 'PDF format preferred' },
-  { type: 'proof_of_registration', label: 'Proof of Registration', description: 'Current year registration' },
-];
+import { fetchDocumentVersions, getApplicableRequirements, groupVersionsByType, type DocumentVersion } from '@/lib/documents';
+import { toFormValues } from '@/lib/applicationForm';
+import { fetchApplicationModules, type ModuleSelection } from '@/lib/modules';
+import { fetchStatusEvents, type StatusEvent } from '@/lib/statusEvents';
+import { StatusTimeline } from '@/components/StatusTimeline';
+import { isApplicationEditable } from '@/lib/applications';
+import { isCycleFinished } from '@/lib/recruitmentCycles';
 
 const statusConfig = {
   draft: {
@@ -65,6 +59,14 @@ const statusConfig = {
     iconColor: 'text-primary',
     description: 'An administrator is currently reviewing your application.',
   },
+  interview: {
+    label: 'Interview',
+    icon: CalendarClock,
+    bgColor: 'bg-accent/10',
+    textColor: 'text-accent-foreground',
+    iconColor: 'text-accent',
+    description: 'You have been shortlisted for an interview. Book a time from your dashboard.',
+  },
   approved: {
     label: 'Approved',
     icon: CheckCircle2,
@@ -81,6 +83,14 @@ const statusConfig = {
     iconColor: 'text-destructive-foreground',
     description: 'Your application has been reviewed and unfortunately not approved.',
   },
+  withdrawn: {
+    label: 'Withdrawn',
+    icon: Undo2,
+    bgColor: 'bg-muted',
+    textColor: 'text-muted-foreground',
+    iconColor: 'text-muted-foreground',
+    description: 'You withdrew this application. It will not be reviewed.',
+  },
 };
 
 const ApplicationView = () => {
@@ -90,7 +100,13 @@ const ApplicationView = () => {
   const { setLoading, setMessage } = useLoading();
   const [isLoading, setIsLoading] = useState(true);
   const [application, setApplication] = useState<any>(null);
-  const [uploadedDocuments, setUploadedDocuments] = useState<UploadedDocument[]>([]);
+  const [uploadedDocuments, setUploadedDocuments] = useState<DocumentVersion[]>([]);
+  const [statusEvents, setStatusEvents] = useState<StatusEvent[]>([]);
+  const documentVersions = groupVersionsByType(uploadedDocuments);
+  const [selectedModules, setSelectedModules] = useState<ModuleSelection>({ completed: [], tutor: [], marks: {} });
+  const { modules } = useModules(true);
+  const { faculties, departments } = useFaculties(true);
+  const { requirements: documentRequirements } = useDocumentRequirements();
   const loadingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   logger.log('ApplicationView rendered');
@@ -103,7 +119,7 @@ const ApplicationView = () => {
       logger.log('Making Supabase query...');
       const { data, error } = await supabase
         .from('tutor_applications')
-        .select('*')
+        .select('*, recruitment_cycles(*)')
         .eq('id', id)
         .eq('user_id', user?.id)
         .single();
@@ -124,18 +140,22 @@ const ApplicationView = () => {
 
       logger.log('Setting application data');
       setApplication(data);
+      setSelectedModules(await fetchApplicationModules(data.id));
 
       // Load documents
       logger.log('Loading documents...');
-      const { data: docs, error: docsError } = await supabase
-        .from('application_documents')
-        .select('*')
-        .eq('application_id', id);
+      try {
+        setUploadedDocuments(await fetchDocumentVersions(id));
+      } catch (docsError) {
+        logger.error('Error loading documents:', docsError);
+      }
 
       logger.log('Documents query completed');
 
-      if (!docsError && docs) {
-        setUploadedDocuments(docs);
+      try {
+        setStatusEvents(await fetchStatusEvents(data.id));
+      } catch (eventsError) {
+        logger.error('Error loading status history:', eventsError);
       }
 
       logger.log('Application loaded successfully');
@@ -156,6 +176,20 @@ const ApplicationView = () => {
     }
   };
 
+  const openDocument = async (doc: DocumentVersion) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from('application-documents')
+        .download(doc.file_path);
+      if (error) throw error;
+      const url = URL.createObjectURL(data);
+      window.open(url, '_blank');
+    } catch (err) {
+      logger.error('Error viewing document:', err);
+      toast.error('Failed to open document');
+    }
+  };
+
   const handleSignOut = async () => {
     setMessage('Signing you out...');
     setLoading(true);
@@ -295,7 +329,7 @@ const ApplicationView = () => {
                 ← Back to Dashboard
               </button>
             </Link>
-            {(application.status === 'draft' || application.status === 'pending') && (
+            {isApplicationEditable(application, application.recruitment_cycles) && (
               <Link to={`/application/${id}/edit`}>
                 <button style={{ display: 'inline-flex', alignItems: 'center', gap: '0.5rem', backgroundColor: '#3b82f6', border: 'none', padding: '0.75rem 1.5rem', borderRadius: '0.375rem', color: 'white', textDecoration: 'none', cursor: 'pointer', fontWeight: '500' }}>
                   ✏️ Edit Application
@@ -304,114 +338,19 @@ const ApplicationView = () => {
             )}
           </div>
 
-          {/* Personal Information */}
-          <div style={{ backgroundColor: 'white', borderRadius: '0.5rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', marginBottom: '2rem' }}>
-            <div style={{ padding: '1.5rem' }}>
-              <h2 style={{ fontSize: '1.25rem', fontWeight: 'bold', color: '#1f2937', marginBottom: '1rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                👤 Personal Information
-              </h2>
-              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Full Name</label>
-                  <p style={{ color: '#1f2937' }}>{application.full_name}</p>
-                </div>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Student Number</label>
-                  <p style={{ color: '#1f2937' }}>{application.student_number}</p>
-                </div>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Date of Birth</label>
-                  <p style={{ color: '#1f2937' }}>{application.date_of_birth}</p>
-                </div>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Gender</label>
-                  <p style={{ color: '#1f2937' }}>{application.gender || 'Not specified'}</p>
-                </div>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Nationality</label>
-                  <p style={{ color: '#1f2937' }}>{application.nationality}</p>
-                </div>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Contact Number</label>
-                  <p style={{ color: '#1f2937' }}>{application.contact_number}</p>
-                </div>
-                <div style={{ gridColumn: 'span 2' }}>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Residential Address</label>
-                  <p style={{ color: '#1f2937', whiteSpace: 'pre-wrap' }}>{application.residential_address}</p>
-                </div>
-              </div>
+          {isCycleFinished(application.recruitment_cycles) && (
+            <div style={{ backgroundColor: '#f1f5f9', border: '1px solid #e2e8f0', borderRadius: '0.5rem', padding: '1rem', marginBottom: '2rem', color: '#475569', fontSize: '0.875rem' }}>
+              This application is from the {application.recruitment_cycles?.name ?? 'previous'} intake, which has finished.
+              It is kept for your records and can no longer be changed.
             </div>
-          </div>
+          )}
 
-          {/* Academic Information */}
-          <div style={{ backgroundColor: 'white', borderRadius: '0.5rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', marginBottom: '2rem' }}>
-            <div style={{ padding: '1.5rem' }}>
-              <h2 style={{ fontSize: '1.25rem', fontWeight: 'bold', color: '#1f2937', marginBottom: '1rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                📚 Academic Information
-              </h2>
-              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Degree Program</label>
-                  <p style={{ color: '#1f2937' }}>{application.degree_program}</p>
-                </div>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Faculty</label>
-                  <p style={{ color: '#1f2937' }}>{application.faculty}</p>
-                </div>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Department</label>
-                  <p style={{ color: '#1f2937' }}>{application.department}</p>
-                </div>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Year of Study</label>
-                  <p style={{ color: '#1f2937' }}>Year {application.year_of_study}</p>
-                </div>
-                <div style={{ gridColumn: 'span 2' }}>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Subjects Completed</label>
-                  <p style={{ color: '#1f2937', whiteSpace: 'pre-wrap' }}>{application.subjects_completed}</p>
-                </div>
-                <div style={{ gridColumn: 'span 2' }}>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Subjects to Tutor</label>
-                  <p style={{ color: '#1f2937', whiteSpace: 'pre-wrap' }}>{application.subjects_to_tutor}</p>
-                </div>
-              </div>
-            </div>
-          </div>
-
-          {/* Experience & Skills */}
-          <div style={{ backgroundColor: 'white', borderRadius: '0.5rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', marginBottom: '2rem' }}>
-            <div style={{ padding: '1.5rem' }}>
-              <h2 style={{ fontSize: '1.25rem', fontWeight: 'bold', color: '#1f2937', marginBottom: '1rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                💼 Experience & Skills
-              </h2>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
-                <div style={{ marginBottom: '1.5rem' }}>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Previous Tutoring Experience</label>
-                  <p style={{ color: '#1f2937', whiteSpace: 'pre-wrap' }}>{application.previous_tutoring_experience || 'None specified'}</p>
-                </div>
-                <div style={{ marginBottom: '1.5rem' }}>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Work Experience</label>
-                  <p style={{ color: '#1f2937', whiteSpace: 'pre-wrap' }}>{application.work_experience || 'None specified'}</p>
-                </div>
-                <div style={{ marginBottom: '1.5rem' }}>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Skills & Competencies</label>
-                  <p style={{ color: '#1f2937', whiteSpace: 'pre-wrap' }}>{application.skills_competencies}</p>
-                </div>
-                <div style={{ marginBottom: '1.5rem' }}>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Languages Spoken</label>
-                  <p style={{ color: '#1f2937' }}>{application.languages_spoken}</p>
-                </div>
-                <div style={{ marginBottom: '1.5rem' }}>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Availability</label>
-                  <p style={{ color: '#1f2937', whiteSpace: 'pre-wrap' }}>{typeof application.availability === 'object' ? application.availability?.description : application.availability}</p>
-                </div>
-                <div>
-                  <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', color: '#6b7280', marginBottom: '0.25rem' }}>Motivation Letter</label>
-                  <p style={{ color: '#1f2937', whiteSpace: 'pre-wrap' }}>{application.motivation_letter}</p>
-                </div>
-              </div>
-            </div>
-          </div>
+          <ApplicationSummary
+            values={toFormValues(application, selectedModules)}
+            catalogue={{ modules, faculties, departments }}
+            className="mb-8"
+            sectionClassName="bg-white rounded-lg shadow-sm p-6"
+          />
 
           {/* Documents */}
           <div style={{ backgroundColor: 'white', borderRadius: '0.5rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', marginBottom: '2rem' }}>
@@ -421,43 +360,46 @@ const ApplicationView = () => {
               </h2>
               <p style={{ color: '#6b7280', marginBottom: '1rem' }}>Required documents for your application</p>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                {REQUIRED_DOCUMENTS.map((doc) => {
-                  const uploaded = uploadedDocuments.find(d => d.document_type === doc.type);
+                {getApplicableRequirements(documentRequirements, application).map((doc) => {
+                  const versions = documentVersions[doc.document_type] ?? [];
+                  const uploaded = versions.find(d => d.is_current);
                   return (
-                    <div key={doc.type} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '1rem', border: '1px solid #e2e8f0', borderRadius: '0.375rem', marginBottom: '1rem' }}>
-                      <div>
-                        <h4 style={{ fontWeight: '500', color: '#1f2937' }}>{doc.label}</h4>
-                        <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>{doc.description}</p>
-                        {uploaded && (
-                          <p style={{ fontSize: '0.875rem', color: '#059669', marginTop: '0.25rem' }}>
-                            ✓ Uploaded: {uploaded.file_name}
-                          </p>
-                        )}
-                      </div>
-                      <div>
-                        {uploaded ? (
-                          <button 
-                            style={{ backgroundColor: '#3b82f6', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.375rem', cursor: 'pointer' }}
-                            onClick={async () => {
-                              try {
-                                const { data, error } = await supabase.storage
-                                  .from('application-documents')
-                                  .download(uploaded.file_path);
-                                if (error) throw error;
-                                const url = URL.createObjectURL(data);
-                                window.open(url, '_blank');
-                              } catch (err) {
-                                console.error('Error viewing document:', err);
-                                toast.error('Failed to open document');
-                              }
-                            }}
-                          >
-                            View
-                          </button>
-                        ) : (
-                          <span style={{ color: '#dc2626', fontSize: '0.875rem' }}>Not Uploaded</span>
-                        )}
+                    <div key={doc.document_type} style={{ padding: '1rem', border: '1px solid #e2e8f0', borderRadius: '0.375rem', marginBottom: '1rem' }}>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <div>
+                          <h4 style={{ fontWeight: '500', color: '#1f2937' }}>{doc.label}</h4>
+                          <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>{doc.description}</p>
+                          {uploaded && (
+                            <p style={{ fontSize: '0.875rem', color: '#059669', marginTop: '0.25rem' }}>
+                              ✓ Uploaded: {uploaded.file_name}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          {uploaded ? (
+                            <button 
+                              style={{ backgroundColor: '#3b82f6', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.375rem', cursor: 'pointer' }}
+                              onClick={() => openDocument(uploaded)}
+                            >
+                              View
+                            </button>
+                          ) : (
+                            <span style={{ color: doc.is_required ? '#dc2626' : '#6b7280', fontSize: '0.875rem' }}>
+                              {doc.is_required ? 'Not Uploaded' : 'Optional'}
+                            </span>
+                          )}
+                        </div>
                       </div>
+                      {versions.length > 1 && (
+                        <div className="mt-3 pt-3 border-t">
+                          <p className="text-xs font-medium text-muted-foreground mb-2">Version history</p>
+                          <DocumentVersionHistory
+                            versions={versions}
+                            reviewedAt={application.reviewed_at}
+                            onOpen={openDocument}
+                          />
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -469,58 +411,7 @@ const ApplicationView = () => {
           <div style={{ backgroundColor: 'white', borderRadius: '0.5rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
             <div style={{ padding: '1.5rem' }}>
               <h2 style={{ fontSize: '1.25rem', fontWeight: 'bold', color: '#1f2937', marginBottom: '1rem' }}>Application Timeline</h2>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '1rem' }}>
-                  <div style={{ width: '12px', height: '12px', backgroundColor: '#10b981', borderRadius: '50%' }}></div>
-                  <div>
-                    <p style={{ fontWeight: '500', color: '#1f2937' }}>Application Created</p>
-                    <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>
-                      {new Date(application.created_at).toLocaleDateString('en-ZA', {
-                        year: 'numeric',
-                        month: 'long',
-                        day: 'numeric',
-                        hour: '2-digit',
-                        minute: '2-digit'
-                      })}
-                    </p>
-                  </div>
-                </div>
-                {application.submitted_at && (
-                  <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '1rem' }}>
-                    <div style={{ width: '12px', height: '12px', backgroundColor: '#3b82f6', borderRadius: '50%' }}></div>
-                    <div>
-                      <p style={{ fontWeight: '500', color: '#1f2937' }}>Application Submitted</p>
-                      <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>
-                        {new Date(application.submitted_at).toLocaleDateString('en-ZA', {
-                          year: 'numeric',
-                          month: 'long',
-                          day: 'numeric',
-                          hour: '2-digit',
-                          minute: '2-digit'
-                        })}
-                      </p>
-                    </div>
-                  </div>
-                )}
-                {application.status === 'approved' && (
-                  <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '1rem' }}>
-                    <div style={{ width: '12px', height: '12px', backgroundColor: '#10b981', borderRadius: '50%' }}></div>
-                    <div>
-                      <p style={{ fontWeight: '500', color: '#1f2937' }}>Application Approved</p>
-                      <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>Congratulations!</p>
-                    </div>
-                  </div>
-                )}
-                {application.status === 'rejected' && application.rejection_reason && (
-                  <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
-                    <div style={{ width: '12px', height: '12px', backgroundColor: '#dc2626', borderRadius: '50%' }}></div>
-                    <div>
-                      <p style={{ fontWeight: '500', color: '#1f2937' }}>Application Rejected</p>
-                      <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>{application.rejection_reason}</p>
-                    </div>
-                  </div>
-                )}
-              </div>
+              <StatusTimeline events={statusEvents} currentUserId={user?.id} />
             </div>
           </div>
         </div>
@@ -1,14 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form } from '@/components/ui/form';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { 
@@ -16,71 +12,62 @@ import {
   ArrowLeft, 
   ArrowRight, 
   Loader2, 
-  User, 
-  BookOpen, 
-  Briefcase, 
   Upload, 
   CheckCircle2,
   Save,
   Send,
   X,
   FileText,
-  LogOut
+  LogOut,
+  CalendarX,
+  AlertTriangle,
+  ShieldCheck
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLoading } from '@/contexts/LoadingContext';
 import { useAutoSave } from '@/hooks/useAutoSave';
 import { SaveStatusIndicator } from '@/components/SaveStatusIndicator';
+import { ApplicationFormFields } from '@/components/ApplicationFormFields';
+import { ApplicationSummary } from '@/components/ApplicationSummary';
+import { EligibilityChecklist } from '@/components/EligibilityChecklist';
+import { DocumentUploadDialog } from '@/components/DocumentUploadDialog';
+import { ReapplyPrompt } from '@/components/ReapplyPrompt';
+import { useModules } from '@/hooks/useModules';
+import { useFaculties } from '@/hooks/useFaculties';
+import { useMarkThresholds } from '@/hooks/useMarkThresholds';
+import { useEligibilityRules } from '@/hooks/useEligibilityRules';
+import { useDocumentRequirements } from '@/hooks/useDocumentRequirements';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { logger } from '@/lib/logger';
-
-const FACULTIES = [
-  'Faculty of Education',
-  'Faculty of Health Sciences',
-  'Faculty of Law',
-  'Faculty of Management and Commerce',
-  'Faculty of Science and Agriculture',
-  'Faculty of Social Sciences and Humanities',
-];
-
-const DEPARTMENTS = {
-  'Faculty of Education': ['Educational Foundations', 'Educational Psychology', 'Curriculum Studies'],
-  'Faculty of Health Sciences': ['Human Movement Science', 'Nursing Science', 'Pharmacy'],
-  'Faculty of Law': ['Mercantile Law', 'Private Law', 'Public Law'],
-  'Faculty of Management and Commerce': ['Accounting', 'Business Management', 'Economics', 'Industrial Psychology'],
-  'Faculty of Science and Agriculture': ['Agricultural Economics', 'Biochemistry', 'Computer Science', 'Mathematics', 'Physics', 'Chemistry', 'Statistics'],
-  'Faculty of Social Sciences and Humanities': ['Anthropology', 'Communication', 'History', 'Philosophy', 'Political Science', 'Psychology', 'Sociology'],
-};
-
-const applicationSchema = z.object({
-  // Personal Information
-  full_name: z.string().min(2, 'Full name is required').max(100),
-  student_number: z.string().min(5, 'Valid student number is required').max(20),
-  date_of_birth: z.string().min(1, 'Date of birth is required'),
-  gender: z.enum(['male', 'female', 'other', 'prefer_not_to_say']).optional(),
-  nationality: z.string().min(2, 'Nationality is required'),
-  residential_address: z.string().min(10, 'Full address is required'),
-  contact_number: z.string().min(10, 'Valid contact number is required').max(15),
-  
-  // Academic Information
-  degree_program: z.string().min(2, 'Degree program is required'),
-  faculty: z.string().min(1, 'Faculty is required'),
-  department: z.string().min(1, 'Department is required'),
-  year_of_study: z.coerce.number().min(1).max(7),
-  subjects_completed: z.string().min(1, 'List at least one subject'),
-  subjects_to_tutor: z.string().min(1, 'List at least one subject'),
-  
-  // Employment Information
-  previous_tutoring_experience: z.string().optional(),
-  work_experience: z.string().optional(),
-  skills_competencies: z.string().min(1, 'List your skills'),
-  languages_spoken: z.string().min(1, 'List languages you speak'),
-  availability: z.string().min(1, 'Describe your availability'),
-  motivation_letter: z.string().min(100, 'Motivation letter must be at least 100 characters').max(2000),
-});
-
-type ApplicationFormData = z.infer<typeof applicationSchema>;
+import {
+  formatAllowedTypes,
+  getAcceptAttribute,
+  getApplicableRequirements,
+  getMissingDocuments,
+  isCertificationExpired,
+  uploadDocumentVersion,
+  validateDocumentFile,
+  type ScanStatus,
+} from '@/lib/documents';
+import { validateFileContent } from '@/lib/fileSignatures';
+import { isCompressibleImage } from '@/lib/documentImages';
+import { fetchOpenCycle, formatCycleDate, isCycleOpen, type RecruitmentCycle } from '@/lib/recruitmentCycles';
+import { fetchApplicationModules, formatModuleCodes, saveApplicationModules } from '@/lib/modules';
+import { getModulesBelowThreshold } from '@/lib/marks';
+import { evaluateEligibility } from '@/lib/eligibility';
+import { cloneApplication, fetchReapplySource, type PreviousApplication } from '@/lib/applications';
+import {
+  APPLICATION_STEPS,
+  DEFAULT_FORM_VALUES,
+  DOCUMENTS_STEP,
+  REVIEW_STEP,
+  applicationSchema,
+  getFieldsForStep,
+  getStep,
+  toFormValues,
+  type ApplicationFormData,
+} from '@/lib/applicationForm';
 
 interface UploadedDocument {
   id?: string;
@@ -89,23 +76,11 @@ interface UploadedDocument {
   file_path: string;
   file_size: number;
   mime_type: string;
+  certified_at?: string | null;
+  scan_status?: ScanStatus;
+  scan_detail?: string | null;
 }
 
-const REQUIRED_DOCUMENTS = [
-  { type: 'certified_id', label: 'Certified ID Copy', description: 'Must be certified within the last 3 months' },
-  { type: 'academic_transcript', label: 'Academic Transcript', description: 'Official UFH transcript' },
-  { type: 'cv', label: 'CV / Resume', description: 'PDF format preferred' },
-  { type: 'proof_of_registration', label: 'Proof of Registration', description: 'Current year registration' },
-];
-
-const STEPS = [
-  { id: 1, title: 'Personal Info', icon: User },
-  { id: 2, title: 'Academic Info', icon: BookOpen },
-  { id: 3, title: 'Experience', icon: Briefcase },
-  { id: 4, title: 'Documents', icon: Upload },
-  { id: 5, title: 'Review', icon: CheckCircle2 },
-];
-
 const Apply = () => {
   const navigate = useNavigate();
   const { user, isLoading: authLoading, signOut } = useAuth();
@@ -115,38 +90,50 @@ const Apply = () => {
   const [applicationId, setApplicationId] = useState<string | null>(null);
   const [uploadedDocuments, setUploadedDocuments] = useState<UploadedDocument[]>([]);
   const [isUploading, setIsUploading] = useState<string | null>(null);
+  const [pendingUpload, setPendingUpload] = useState<{ documentType: string; files: File[] } | null>(null);
+  const [cycle, setCycle] = useState<RecruitmentCycle | null>(null);
+  const [isCycleLoading, setIsCycleLoading] = useState(true);
+  const [reapplySource, setReapplySource] = useState<PreviousApplication | null>(null);
+  const [isCloning, setIsCloning] = useState(false);
+  const { modules } = useModules();
+  const { faculties, departments } = useFaculties(true);
+  const catalogue = { modules, faculties, departments };
+  const { thresholds } = useMarkThresholds();
+  const { rules: eligibilityRules } = useEligibilityRules();
+  const { requirements: documentRequirements } = useDocumentRequirements();
 
   const form = useForm<ApplicationFormData>({
     resolver: zodResolver(applicationSchema),
-    defaultValues: {
-      full_name: '',
-      student_number: '',
-      date_of_birth: '',
-      nationality: 'South African',
-      residential_address: '',
-      contact_number: '',
-      degree_program: '',
-      faculty: '',
-      department: '',
-      year_of_study: 1,
-      subjects_completed: '',
-      subjects_to_tutor: '',
-      previous_tutoring_experience: '',
-      work_experience: '',
-      skills_competencies: '',
-      languages_spoken: 'English',
-      availability: '',
-      motivation_letter: '',
-    },
+    defaultValues: DEFAULT_FORM_VALUES,
   });
 
-  const selectedFaculty = form.watch('faculty');
   const formValues = form.watch();
+  const requiredDocuments = getApplicableRequirements(documentRequirements, formValues);
+  const modulesBelowThreshold = getModulesBelowThreshold(
+    formValues.subjects_to_tutor || [],
+    formValues.module_marks || {},
+    modules,
+    thresholds
+  );
+  const eligibilityOutcomes = evaluateEligibility(eligibilityRules, {
+    year_of_study: formValues.year_of_study ?? null,
+    registration_year: formValues.registration_year ?? null,
+    date_of_birth: formValues.date_of_birth || null,
+    academic_year: cycle?.academic_year ?? null,
+    tutorModules: modules.filter(m => (formValues.subjects_to_tutor || []).includes(m.id)),
+    marks: formValues.module_marks || {},
+    thresholds,
+    documents: uploadedDocuments,
+    documentRequirements,
+    faculty_id: formValues.faculty_id || null,
+    applicant_category: formValues.applicant_category ?? null,
+  });
 
   // Autosave hook - automatically saves form data while typing
   const { saveStatus } = useAutoSave({
     userId: user?.id,
     applicationId: applicationId || undefined,
+    cycleId: cycle?.id,
     formData: formValues,
     debounceMs: 900,
     enabled: !!user && !!applicationId && form.formState.isDirty,
@@ -161,16 +148,32 @@ const Apply = () => {
   useEffect(() => {
     if (user) {
       form.setValue('full_name', user.user_metadata?.full_name || '');
-      checkExistingApplication();
+      loadOpenCycle();
     }
   }, [user]);
 
-  const checkExistingApplication = async () => {
+  const loadOpenCycle = async () => {
+    try {
+      const openCycle = await fetchOpenCycle();
+      setCycle(openCycle);
+      if (openCycle) {
+        await checkExistingApplication(openCycle.id);
+      }
+    } catch (error) {
+      logger.error('Error loading recruitment cycle:', error);
+      toast.error('Failed to load the current recruitment cycle');
+    } finally {
+      setIsCycleLoading(false);
+    }
+  };
+
+  const checkExistingApplication = async (cycleId: string, announceDraft = true) => {
     try {
       const { data, error } = await supabase
         .from('tutor_applications')
         .select('*')
         .eq('user_id', user?.id)
+        .eq('cycle_id', cycleId)
         .eq('status', 'draft')
         .maybeSingle();
 
@@ -178,46 +181,47 @@ const Apply = () => {
 
       if (data) {
         setApplicationId(data.id);
+        const selectedModules = await fetchApplicationModules(data.id);
         // Populate form with existing data
-        form.reset({
-          full_name: data.full_name,
-          student_number: data.student_number,
-          date_of_birth: data.date_of_birth,
-          gender: data.gender || undefined,
-          nationality: data.nationality,
-          residential_address: data.residential_address,
-          contact_number: data.contact_number,
-          degree_program: data.degree_program,
-          faculty: data.faculty,
-          department: data.department,
-          year_of_study: data.year_of_study,
-          subjects_completed: data.subjects_completed || '',
-          subjects_to_tutor: data.subjects_to_tutor || '',
-          previous_tutoring_experience: data.previous_tutoring_experience || '',
-          work_experience: data.work_experience || '',
-          skills_competencies: data.skills_competencies || '',
-          languages_spoken: data.languages_spoken || '',
-          availability: typeof data.availability === 'object' && data.availability !== null && !Array.isArray(data.availability) ? ((data.availability as Record<string, unknown>)?.description as string || String(data.availability)) : String(data.availability || ''),
-          motivation_letter: data.motivation_letter,
-        });
+        form.reset(toFormValues(data, selectedModules));
 
         // Fetch uploaded documents
         const { data: docs } = await supabase
           .from('application_documents')
           .select('*')
-          .eq('application_id', data.id);
+          .eq('application_id', data.id)
+          .eq('is_current', true);
 
         if (docs) {
           setUploadedDocuments(docs);
         }
 
-        toast.info('Continuing from your saved draft');
+        if (announceDraft) toast.info('Continuing from your saved draft');
+      } else if (user) {
+        setReapplySource(await fetchReapplySource(user.id, cycleId));
       }
     } catch (error) {
       logger.error('Error checking existing application:', error);
     }
   };
 
+  const handleReapply = async (reuseDocuments: boolean) => {
+    if (!cycle || !reapplySource) return;
+
+    setIsCloning(true);
+    try {
+      await cloneApplication(reapplySource.id, cycle.id, reuseDocuments);
+      setReapplySource(null);
+      await checkExistingApplication(cycle.id, false);
+      toast.success('Started from your previous application. Check each step before submitting.');
+    } catch (error: unknown) {
+      logger.error('Error starting from previous application:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to copy your previous application');
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
   const handleSaveDraft = async () => {
     logger.log('Starting save draft');
 
@@ -226,6 +230,11 @@ const Apply = () => {
       return;
     }
 
+    if (!cycle) {
+      toast.error('Applications are currently closed');
+      return;
+    }
+
     // Check if form is valid for basic required fields
     const formData = form.getValues();
     const basicFieldsValid = formData.full_name;
@@ -244,28 +253,30 @@ const Apply = () => {
 
       const applicationData = {
         user_id: user?.id,
+        cycle_id: cycle.id,
         full_name: formData.full_name || 'Draft',
         student_number: formData.student_number || 'Draft',
         date_of_birth: formData.date_of_birth ? new Date(formData.date_of_birth).toISOString().split('T')[0] : '2000-01-01', // Default date for drafts
         gender: formData.gender || null,
         nationality: formData.nationality || 'Draft',
+        applicant_category: formData.applicant_category || 'local',
         residential_address: formData.residential_address || 'Draft',
         contact_number: formData.contact_number || 'Draft',
         email: user?.email || '',
         degree: formData.degree_program || 'Draft', // Map degree_program to degree
         degree_program: formData.degree_program || 'Draft',
-        faculty: formData.faculty || 'Draft',
-        department: formData.department || 'Draft',
+        faculty_id: formData.faculty_id || null,
+        department_id: formData.department_id || null,
         year_of_study: formData.year_of_study || 1,
-        subjects: (formData.subjects_completed || '') + (formData.subjects_to_tutor ? ', ' + formData.subjects_to_tutor : ''), // Combine as text
-        subjects_completed: formData.subjects_completed || '',
-        subjects_to_tutor: formData.subjects_to_tutor || '',
+        registration_year: formData.registration_year || null,
+        subjects: formatModuleCodes([...(formData.subjects_completed || []), ...(formData.subjects_to_tutor || [])], modules), // Combine as text
         experience: (formData.previous_tutoring_experience || '') + (formData.work_experience ? ', ' + formData.work_experience : ''), // Combine as text
         previous_tutoring_experience: formData.previous_tutoring_experience || null,
         work_experience: formData.work_experience || null,
         skills_competencies: formData.skills_competencies || '',
         languages_spoken: formData.languages_spoken || '',
-        availability: formData.availability || '',
+        availability: formData.availability || [],
+        availability_notes: formData.availability_notes || null,
         motivation: formData.motivation_letter || 'Draft', // Map motivation_letter to motivation
         motivation_letter: formData.motivation_letter || 'Draft',
         status: 'draft' as const,
@@ -275,6 +286,7 @@ const Apply = () => {
 
       logger.log('Application data prepared');
 
+      let savedId = applicationId;
       if (applicationId) {
         logger.log('Updating existing application');
         const { error } = await supabase
@@ -301,8 +313,15 @@ const Apply = () => {
         }
         logger.log('Insert successful');
         setApplicationId(data.id);
+        savedId = data.id;
       }
 
+      await saveApplicationModules(savedId, {
+        completed: formData.subjects_completed || [],
+        tutor: formData.subjects_to_tutor || [],
+        marks: formData.module_marks || {},
+      });
+
       toast.success('Draft saved successfully');
     } catch (error: any) {
       logger.error('Error saving draft:', error);
@@ -314,93 +333,51 @@ const Apply = () => {
     }
   };
 
-  const handleFileUpload = async (documentType: string, file: File) => {
+  const handleFileUpload = async (documentType: string, file: File, certifiedAt: string | null = null) => {
     if (!applicationId) {
       await handleSaveDraft();
     }
 
     const appId = applicationId;
-    if (!appId) {
+    if (!appId || !user) {
       toast.error('Please save your application first');
       return;
     }
 
-    // Validate file
-    const allowedTypes = ['application/pdf', 'image/jpeg', 'image/png'];
-    if (!allowedTypes.includes(file.type)) {
-      toast.error('Only PDF, JPG, and PNG files are allowed');
+    // Validate file against the requirement it is uploaded for
+    const requirement = requiredDocuments.find(d => d.document_type === documentType);
+    if (!requirement) {
+      toast.error('This document is not required for your application');
       return;
     }
 
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (file.size > maxSize) {
-      toast.error('File size must be less than 5MB');
+    const validationError = validateDocumentFile(requirement, file);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    const contentError = await validateFileContent(file);
+    if (contentError) {
+      toast.error(contentError);
       return;
     }
 
     setIsUploading(documentType);
 
     try {
-      const fileExt = file.name.split('.').pop();
-      const filePath = `${user?.id}/${appId}/${documentType}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('application-documents')
-        .upload(filePath, file, { upsert: true });
-
-      if (uploadError) {
-        logger.error('Upload error:', uploadError);
-        if (uploadError.message.includes('bucket not found') || uploadError.message.includes('Bucket not found')) {
-          toast.error('Document storage is not configured. Please contact an administrator.');
-        } else {
-          toast.error(uploadError.message || 'Failed to upload document');
-        }
-        return;
-      }
-
-      // Remove existing document of same type
-      const existingDoc = uploadedDocuments.find(d => d.document_type === documentType);
-      if (existingDoc?.id) {
-        await supabase
-          .from('application_documents')
-          .delete()
-          .eq('id', existingDoc.id);
-      }
-
-      // Generate a UUID for the document
-      const generateUUID = () => {
-        return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-          const r = Math.random() * 16 | 0;
-          const v = c === 'x' ? r : (r & 0x3 | 0x8);
-          return v.toString(16);
-        });
-      };
-
-      // Save document record
-      const { data: docData, error: docError } = await supabase
-        .from('application_documents')
-        .insert({
-          id: generateUUID(),
-          application_id: appId,
-          user_id: user?.id,
-          document_type: documentType,
-          file_name: file.name,
-          file_path: filePath,
-          file_size: file.size,
-          mime_type: file.type,
-          uploaded_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
-
-      if (docError) throw docError;
+      const scanned = await uploadDocumentVersion(user.id, appId, documentType, file, certifiedAt);
 
       setUploadedDocuments(prev => [
         ...prev.filter(d => d.document_type !== documentType),
-        docData,
+        scanned,
       ]);
 
-      toast.success('Document uploaded successfully');
+      if (scanned.scan_status === 'quarantined') {
+        toast.error(scanned.scan_detail || 'This file could not be accepted. Please upload it again.');
+      } else {
+        toast.success('Document uploaded successfully');
+      }
     } catch (error: any) {
       logger.error('Error uploading document:', error);
       toast.error(error.message || 'Failed to upload document');
@@ -409,15 +386,37 @@ const Apply = () => {
     }
   };
 
+  // Photos are compressed, or combined into a PDF, in the upload dialog first.
+  // Certified documents go through it too so the certification date is asked for.
+  const handleFilesSelected = (documentType: string, files: File[]) => {
+    if (files.length === 0) return;
+    const requirement = requiredDocuments.find(d => d.document_type === documentType);
+    if (files.every(isCompressibleImage) || requirement?.certification_max_age_days) {
+      setPendingUpload({ documentType, files });
+    } else {
+      handleFileUpload(documentType, files[0]);
+    }
+  };
+
   const handleSubmit = async (data: ApplicationFormData) => {
+    if (!cycle || !isCycleOpen(cycle)) {
+      toast.error('Applications for this recruitment cycle are closed');
+      return;
+    }
+
+    const modulesWithoutMarks = data.subjects_to_tutor.filter(id => data.module_marks[id] === undefined);
+    if (modulesWithoutMarks.length > 0) {
+      toast.error(`Please enter your final mark for: ${formatModuleCodes(modulesWithoutMarks, modules)}`);
+      setCurrentStep(2);
+      return;
+    }
+
     // Check all required documents are uploaded
-    const missingDocs = REQUIRED_DOCUMENTS.filter(
-      doc => !uploadedDocuments.find(d => d.document_type === doc.type)
-    );
+    const missingDocs = getMissingDocuments(requiredDocuments, uploadedDocuments);
 
     if (missingDocs.length > 0) {
       toast.error(`Please upload: ${missingDocs.map(d => d.label).join(', ')}`);
-      setCurrentStep(4);
+      setCurrentStep(DOCUMENTS_STEP);
       return;
     }
 
@@ -427,35 +426,46 @@ const Apply = () => {
     try {
       const applicationData = {
         user_id: user?.id,
+        cycle_id: cycle.id,
         full_name: data.full_name,
         student_number: data.student_number,
         date_of_birth: data.date_of_birth,
         gender: data.gender || null,
         nationality: data.nationality,
+        applicant_category: data.applicant_category,
         residential_address: data.residential_address,
         contact_number: data.contact_number,
         email: user?.email || '',
         degree: data.degree_program, // Map degree_program to degree
         degree_program: data.degree_program,
-        faculty: data.faculty,
-        department: data.department,
+        faculty_id: data.faculty_id,
+        department_id: data.department_id,
         year_of_study: data.year_of_study,
-        subjects: (data.subjects_completed || '') + (data.subjects_to_tutor ? ', ' + data.subjects_to_tutor : ''), // Combine as text
-        subjects_completed: data.subjects_completed || '',
-        subjects_to_tutor: data.subjects_to_tutor || '',
+        registration_year: data.registration_year,
+        subjects: formatModuleCodes([...data.subjects_completed, ...data.subjects_to_tutor], modules), // Combine as text
         experience: (data.previous_tutoring_experience || '') + (data.work_experience ? ', ' + data.work_experience : ''), // Combine as text
         previous_tutoring_experience: data.previous_tutoring_experience,
         work_experience: data.work_experience,
         skills_competencies: data.skills_competencies || '',
         languages_spoken: data.languages_spoken || '',
         availability: data.availability,
+        availability_notes: data.availability_notes || null,
         motivation: data.motivation_letter, // Map motivation_letter to motivation
         motivation_letter: data.motivation_letter,
         status: 'pending' as const,
         submitted_at: new Date().toISOString(),
       };
 
+      const selectedModules = {
+        completed: data.subjects_completed,
+        tutor: data.subjects_to_tutor,
+        marks: data.module_marks,
+      };
+
       if (applicationId) {
+        // Save modules while still editable so the submitted row is complete
+        await saveApplicationModules(applicationId, selectedModules);
+
         const { error } = await supabase
           .from('tutor_applications')
           .update(applicationData)
@@ -463,11 +473,14 @@ const Apply = () => {
 
         if (error) throw error;
       } else {
-        const { error } = await supabase
+        const { data: inserted, error } = await supabase
           .from('tutor_applications')
-          .insert(applicationData);
+          .insert(applicationData)
+          .select('id')
+          .single();
 
         if (error) throw error;
+        await saveApplicationModules(inserted.id, selectedModules);
       }
 
       toast.success('Application submitted successfully!');
@@ -486,15 +499,24 @@ const Apply = () => {
     navigate('/auth');
   };
 
-  const nextStep = () => {
-    if (currentStep < 5) setCurrentStep(currentStep + 1);
+  const nextStep = async () => {
+    if (currentStep === DOCUMENTS_STEP) {
+      const missingDocs = getMissingDocuments(requiredDocuments, uploadedDocuments);
+      if (missingDocs.length > 0) {
+        toast.error(`Please upload: ${missingDocs.map(d => d.label).join(', ')}`);
+        return;
+      }
+    }
+
+    const isValid = await form.trigger(getFieldsForStep(currentStep, form.getValues()));
+    if (isValid) setCurrentStep(prev => Math.min(prev + 1, REVIEW_STEP));
   };
 
   const prevStep = () => {
     if (currentStep > 1) setCurrentStep(currentStep - 1);
   };
 
-  if (authLoading) {
+  if (authLoading || isCycleLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -502,7 +524,33 @@ const Apply = () => {
     );
   }
 
-  const progress = (currentStep / 5) * 100;
+  if (!cycle) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30 px-4">
+        <Card className="border-0 shadow-lg max-w-md w-full text-center animate-fade-in">
+          <CardContent className="py-12">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-6">
+              <CalendarX className="w-8 h-8 text-muted-foreground" />
+            </div>
+            <CardTitle className="text-xl mb-2">Applications Are Closed</CardTitle>
+            <CardDescription className="mb-6">
+              There is no open recruitment cycle right now. Please check back when the next intake opens.
+            </CardDescription>
+            <Link to="/dashboard">
+              <Button variant="outline">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const activeStep = getStep(currentStep);
+  const ActiveStepIcon = activeStep.icon;
+  const progress = (currentStep / REVIEW_STEP) * 100;
 
   return (
     <div className="min-h-screen bg-muted/30">
@@ -515,7 +563,7 @@ const Apply = () => {
             </div>
             <div>
               <h1 className="font-bold text-lg text-foreground">UFH Tutors</h1>
-              <p className="text-xs text-muted-foreground">Application Form</p>
+              <p className="text-xs text-muted-foreground">{cycle.name} Application</p>
             </div>
           </Link>
           <div className="flex items-center gap-2">
@@ -534,7 +582,10 @@ const Apply = () => {
       <div className="bg-background border-b border-border">
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-sm font-medium">Step {currentStep} of 5</span>
+            <div>
+              <span className="text-sm font-medium">Step {currentStep} of {REVIEW_STEP}</span>
+              <p className="text-xs text-muted-foreground">Closes {formatCycleDate(cycle.closes_at)}</p>
+            </div>
             <div className="flex items-center gap-4">
               <SaveStatusIndicator status={saveStatus.status} message={saveStatus.message} />
               <span className="text-sm text-muted-foreground">{Math.round(progress)}% complete</span>
@@ -542,7 +593,7 @@ const Apply = () => {
           </div>
           <Progress value={progress} className="h-2" />
           <div className="flex justify-between mt-4">
-            {STEPS.map((step) => {
+            {APPLICATION_STEPS.map((step) => {
               const StepIcon = step.icon;
               const isActive = currentStep === step.id;
               const isCompleted = currentStep > step.id;
@@ -571,505 +622,152 @@ const Apply = () => {
       {/* Form */}
       <main className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto">
+          {reapplySource && !applicationId && (
+            <ReapplyPrompt
+              previous={reapplySource}
+              isStarting={isCloning}
+              onStart={handleReapply}
+              onDismiss={() => setReapplySource(null)}
+            />
+          )}
           <Form {...form}>
             <form onSubmit={form.handleSubmit(handleSubmit)}>
-              {/* Step 1: Personal Information */}
-              {currentStep === 1 && (
-                <Card className="border-0 shadow-lg animate-fade-in">
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <User className="w-5 h-5 text-primary" />
-                      Personal Information
-                    </CardTitle>
-                    <CardDescription>Tell us about yourself</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="full_name"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Full Name *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Enter your full name" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="student_number"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Student Number *</FormLabel>
-                            <FormControl>
-                              <Input placeholder="e.g., 201900001" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="date_of_birth"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Date of Birth *</FormLabel>
-                            <FormControl>
-                              <Input type="date" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="gender"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Gender (Optional)</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select gender" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                <SelectItem value="male">Male</SelectItem>
-                                <SelectItem value="female">Female</SelectItem>
-                                <SelectItem value="other">Other</SelectItem>
-                                <SelectItem value="prefer_not_to_say">Prefer not to say</SelectItem>
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="nationality"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Nationality *</FormLabel>
-                            <FormControl>
-                              <Input placeholder="e.g., South African" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    <FormField
-                      control={form.control}
-                      name="residential_address"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Residential Address *</FormLabel>
-                          <FormControl>
-                            <Textarea placeholder="Enter your full residential address" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="contact_number"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Contact Number *</FormLabel>
-                          <FormControl>
-                            <Input type="tel" placeholder="e.g., 0821234567" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </CardContent>
-                </Card>
-              )}
-
-              {/* Step 2: Academic Information */}
-              {currentStep === 2 && (
-                <Card className="border-0 shadow-lg animate-fade-in">
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <BookOpen className="w-5 h-5 text-primary" />
-                      Academic Information
-                    </CardTitle>
-                    <CardDescription>Tell us about your studies</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="degree_program"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Degree Program *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Bachelor of Science in Computer Science" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="faculty"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Faculty *</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select faculty" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {FACULTIES.map(faculty => (
-                                  <SelectItem key={faculty} value={faculty}>{faculty}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="department"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Department *</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value} disabled={!selectedFaculty}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select department" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {selectedFaculty && DEPARTMENTS[selectedFaculty as keyof typeof DEPARTMENTS]?.map(dept => (
-                                  <SelectItem key={dept} value={dept}>{dept}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    <FormField
-                      control={form.control}
-                      name="year_of_study"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Year of Study *</FormLabel>
-                          <Select onValueChange={(val) => field.onChange(parseInt(val))} value={field.value?.toString()}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select year" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {[1, 2, 3, 4, 5, 6, 7].map(year => (
-                                <SelectItem key={year} value={year.toString()}>Year {year}</SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="subjects_completed"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Subjects/Modules Completed *</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="List subjects you've completed (comma-separated)"
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormDescription>Separate each subject with a comma</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="subjects_to_tutor"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Subjects You Want to Tutor *</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="List subjects you want to tutor (comma-separated)"
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormDescription>Separate each subject with a comma</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </CardContent>
-                </Card>
-              )}
-
-              {/* Step 3: Experience & Skills */}
-              {currentStep === 3 && (
-                <Card className="border-0 shadow-lg animate-fade-in">
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Briefcase className="w-5 h-5 text-primary" />
-                      Experience & Skills
-                    </CardTitle>
-                    <CardDescription>Share your experience and competencies</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="previous_tutoring_experience"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Previous Tutoring Experience</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Describe any previous tutoring experience (optional)"
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="work_experience"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Work Experience</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Describe any relevant work experience (optional)"
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="skills_competencies"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Skills & Competencies *</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="e.g., Communication, Patience, Problem-solving"
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormDescription>Separate each skill with a comma</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="languages_spoken"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Languages Spoken *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., English, Xhosa, Afrikaans" {...field} />
-                          </FormControl>
-                          <FormDescription>Separate each language with a comma</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="availability"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Availability *</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Describe your available days and times (e.g., Mondays and Wednesdays, 2pm-5pm)"
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="motivation_letter"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Motivation Letter *</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Tell us why you want to become a tutor and what you can offer..."
-                              className="min-h-[150px]"
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormDescription>Minimum 100 characters</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </CardContent>
-                </Card>
-              )}
-
-              {/* Step 4: Documents */}
-              {currentStep === 4 && (
-                <Card className="border-0 shadow-lg animate-fade-in">
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Upload className="w-5 h-5 text-primary" />
-                      Required Documents
-                    </CardTitle>
-                    <CardDescription>Upload the following documents (PDF, JPG, or PNG, max 5MB each)</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    {REQUIRED_DOCUMENTS.map((doc) => {
-                      const uploaded = uploadedDocuments.find(d => d.document_type === doc.type);
-                      return (
-                        <div 
-                          key={doc.type}
-                          className={`p-4 rounded-lg border-2 border-dashed transition-colors ${
-                            uploaded ? 'border-success bg-success/5' : 'border-border hover:border-primary/50'
-                          }`}
-                        >
-                          <div className="flex items-start justify-between gap-4">
-                            <div className="flex-1">
-                              <div className="flex items-center gap-2 mb-1">
-                                <span className="font-medium">{doc.label}</span>
-                                {uploaded && <Badge variant="outline" className="text-success border-success">Uploaded</Badge>}
-                              </div>
-                              <p className="text-sm text-muted-foreground">{doc.description}</p>
-                              {uploaded && (
-                                <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
-                                  <FileText className="w-4 h-4" />
-                                  {uploaded.file_name}
+              <Card key={currentStep} className="border-0 shadow-lg animate-fade-in">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ActiveStepIcon className="w-5 h-5 text-primary" />
+                    {activeStep.heading}
+                  </CardTitle>
+                  <CardDescription>{activeStep.description}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {activeStep.fields.length > 0 && (
+                    <ApplicationFormFields form={form} step={activeStep} catalogue={catalogue} thresholds={thresholds} />
+                  )}
+
+                  {currentStep === DOCUMENTS_STEP && (
+                    <div className="space-y-4">
+                      {requiredDocuments.map((doc) => {
+                        const uploaded = uploadedDocuments.find(d => d.document_type === doc.document_type);
+                        return (
+                          <div 
+                            key={doc.document_type}
+                            className={`p-4 rounded-lg border-2 border-dashed transition-colors ${
+                              uploaded ? 'border-success bg-success/5' : 'border-border hover:border-primary/50'
+                            }`}
+                          >
+                            <div className="flex items-start justify-between gap-4">
+                              <div className="flex-1">
+                                <div className="flex items-center gap-2 mb-1">
+                                  <span className="font-medium">{doc.label}</span>
+                                  {!doc.is_required && <Badge variant="secondary">Optional</Badge>}
+                                  {uploaded && <Badge variant="outline" className="text-success border-success">Uploaded</Badge>}
                                 </div>
-                              )}
-                            </div>
-                            <div>
-                              {isUploading === doc.type ? (
-                                <Button variant="outline" size="sm" disabled>
-                                  <Loader2 className="w-4 h-4 animate-spin" />
-                                </Button>
-                              ) : (
-                                <label>
-                                  <input
-                                    type="file"
-                                    className="hidden"
-                                    accept=".pdf,.jpg,.jpeg,.png"
-                                    onChange={(e) => {
-                                      const file = e.target.files?.[0];
-                                      if (file) handleFileUpload(doc.type, file);
-                                    }}
-                                  />
-                                  <Button variant={uploaded ? 'outline' : 'default'} size="sm" asChild>
-                                    <span className="cursor-pointer">
-                                      {uploaded ? 'Replace' : 'Upload'}
-                                    </span>
+                                <p className="text-sm text-muted-foreground">{doc.description}</p>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  {formatAllowedTypes(doc)}, max {doc.max_size_mb}MB
+                                </p>
+                                {uploaded && (
+                                  <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
+                                    <FileText className="w-4 h-4" />
+                                    {uploaded.file_name}
+                                  </div>
+                                )}
+                                {uploaded?.scan_status === 'quarantined' && (
+                                  <p className="text-sm text-destructive mt-1">
+                                    Not accepted: {uploaded.scan_detail || 'the file content does not match its type'}
+                                  </p>
+                                )}
+                                {uploaded && isCertificationExpired(doc, uploaded.certified_at) && (
+                                  <p className="text-sm text-warning mt-1">
+                                    {uploaded.certified_at
+                                      ? `Certified ${uploaded.certified_at}, more than ${doc.certification_max_age_days} days ago. Please upload a freshly certified copy.`
+                                      : 'Certification date missing. Please upload the copy again with its certification date.'}
+                                  </p>
+                                )}
+                              </div>
+                              <div>
+                                {isUploading === doc.document_type ? (
+                                  <Button variant="outline" size="sm" disabled>
+                                    <Loader2 className="w-4 h-4 animate-spin" />
                                   </Button>
-                                </label>
-                              )}
+                                ) : (
+                                  <label>
+                                    <input
+                                      type="file"
+                                      className="hidden"
+                                      accept={getAcceptAttribute(doc)}
+                                      multiple
+                                      onChange={(e) => {
+                                        handleFilesSelected(doc.document_type, Array.from(e.target.files ?? []));
+                                        e.target.value = '';
+                                      }}
+                                    />
+                                    <Button variant={uploaded ? 'outline' : 'default'} size="sm" asChild>
+                                      <span className="cursor-pointer">
+                                        {uploaded ? 'Replace' : 'Upload'}
+                                      </span>
+                                    </Button>
+                                  </label>
+                                )}
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      );
-                    })}
-                  </CardContent>
-                </Card>
-              )}
-
-              {/* Step 5: Review */}
-              {currentStep === 5 && (
-                <Card className="border-0 shadow-lg animate-fade-in">
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <CheckCircle2 className="w-5 h-5 text-primary" />
-                      Review Your Application
-                    </CardTitle>
-                    <CardDescription>Please review your information before submitting</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-6">
-                    {/* Personal Info Summary */}
-                    <div>
-                      <h4 className="font-medium mb-2 flex items-center gap-2">
-                        <User className="w-4 h-4" /> Personal Information
-                      </h4>
-                      <dl className="grid grid-cols-2 gap-2 text-sm bg-muted/50 p-3 rounded-lg">
-                        <div><dt className="text-muted-foreground">Name</dt><dd>{form.getValues('full_name')}</dd></div>
-                        <div><dt className="text-muted-foreground">Student #</dt><dd>{form.getValues('student_number')}</dd></div>
-                        <div><dt className="text-muted-foreground">Contact</dt><dd>{form.getValues('contact_number')}</dd></div>
-                        <div><dt className="text-muted-foreground">Nationality</dt><dd>{form.getValues('nationality')}</dd></div>
-                      </dl>
-                    </div>
-
-                    {/* Academic Info Summary */}
-                    <div>
-                      <h4 className="font-medium mb-2 flex items-center gap-2">
-                        <BookOpen className="w-4 h-4" /> Academic Information
-                      </h4>
-                      <dl className="grid grid-cols-2 gap-2 text-sm bg-muted/50 p-3 rounded-lg">
-                        <div><dt className="text-muted-foreground">Degree</dt><dd>{form.getValues('degree_program')}</dd></div>
-                        <div><dt className="text-muted-foreground">Faculty</dt><dd>{form.getValues('faculty')}</dd></div>
-                        <div><dt className="text-muted-foreground">Department</dt><dd>{form.getValues('department')}</dd></div>
-                        <div><dt className="text-muted-foreground">Year</dt><dd>{form.getValues('year_of_study')}</dd></div>
-                      </dl>
+                        );
+                      })}
                     </div>
+                  )}
+
+                  {currentStep === REVIEW_STEP && (
+                    <>
+                      <div>
+                        <ApplicationSummary values={formValues} catalogue={catalogue} />
+                        {modulesBelowThreshold.length > 0 && (
+                          <p className="flex items-start gap-2 text-sm text-warning mt-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                            Your mark for {modulesBelowThreshold.map(m => m.code).join(', ')} is below the minimum required to tutor it. You can still submit, but reviewers may not approve it.
+                          </p>
+                        )}
+                      </div>
 
-                    {/* Documents Summary */}
-                    <div>
-                      <h4 className="font-medium mb-2 flex items-center gap-2">
-                        <Upload className="w-4 h-4" /> Documents ({uploadedDocuments.length}/{REQUIRED_DOCUMENTS.length})
-                      </h4>
-                      <div className="flex flex-wrap gap-2">
-                        {REQUIRED_DOCUMENTS.map(doc => {
-                          const uploaded = uploadedDocuments.find(d => d.document_type === doc.type);
-                          return (
-                            <Badge 
-                              key={doc.type} 
-                              variant={uploaded ? 'default' : 'outline'}
-                              className={uploaded ? 'bg-success hover:bg-success' : 'text-destructive border-destructive'}
-                            >
-                              {uploaded ? <CheckCircle2 className="w-3 h-3 mr-1" /> : <X className="w-3 h-3 mr-1" />}
-                              {doc.label}
-                            </Badge>
-                          );
-                        })}
+                      {/* Eligibility Summary */}
+                      <div>
+                        <h4 className="font-medium mb-2 flex items-center gap-2">
+                          <ShieldCheck className="w-4 h-4" /> Eligibility
+                        </h4>
+                        <EligibilityChecklist outcomes={eligibilityOutcomes} documents={documentRequirements} className="bg-muted/50 p-3 rounded-lg" />
+                        {eligibilityOutcomes.some(o => !o.passed) && (
+                          <p className="text-xs text-muted-foreground mt-2">
+                            You can still submit. Coordinators will see which requirements are not met.
+                          </p>
+                        )}
                       </div>
-                    </div>
 
-                    {/* Motivation Preview */}
-                    <div>
-                      <h4 className="font-medium mb-2">Motivation Letter</h4>
-                      <p className="text-sm text-muted-foreground bg-muted/50 p-3 rounded-lg line-clamp-3">
-                        {form.getValues('motivation_letter')}
-                      </p>
-                    </div>
-                  </CardContent>
-                </Card>
-              )}
+                      {/* Documents Summary */}
+                      <div>
+                        <h4 className="font-medium mb-2 flex items-center gap-2">
+                          <Upload className="w-4 h-4" /> Documents ({requiredDocuments.filter(doc => uploadedDocuments.some(d => d.document_type === doc.document_type)).length}/{requiredDocuments.length})
+                        </h4>
+                        <div className="flex flex-wrap gap-2">
+                          {requiredDocuments.map(doc => {
+                            const uploaded = uploadedDocuments.find(d => d.document_type === doc.document_type);
+                            return (
+                              <Badge 
+                                key={doc.document_type} 
+                                variant={uploaded ? 'default' : 'outline'}
+                                className={uploaded ? 'bg-success hover:bg-success' : doc.is_required ? 'text-destructive border-destructive' : 'text-muted-foreground'}
+                              >
+                                {uploaded ? <CheckCircle2 className="w-3 h-3 mr-1" /> : <X className="w-3 h-3 mr-1" />}
+                                {doc.label}
+                              </Badge>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
 
               {/* Navigation Buttons */}
               <div className="flex items-center justify-between mt-6">
@@ -1083,7 +781,7 @@ const Apply = () => {
                   Previous
                 </Button>
                 
-                {currentStep < 5 ? (
+                {currentStep < REVIEW_STEP ? (
                   <Button type="button" onClick={nextStep}>
                     Next
                     <ArrowRight className="w-4 h-4 ml-2" />
@@ -1112,6 +810,17 @@ const Apply = () => {
           </Form>
         </div>
       </main>
+
+      <DocumentUploadDialog
+        requirement={requiredDocuments.find(d => d.document_type === pendingUpload?.documentType) ?? null}
+        files={pendingUpload?.files ?? []}
+        onFilesChange={(files) => setPendingUpload(prev => (prev && files.length > 0 ? { ...prev, files } : null))}
+        onCancel={() => setPendingUpload(null)}
+        onUpload={(file, certifiedAt) => {
+          if (pendingUpload) handleFileUpload(pendingUpload.documentType, file, certifiedAt);
+          setPendingUpload(null);
+        }}
+      />
     </div>
   );
 };
@@ -46,7 +46,7 @@ type SignUpFormData = z.infer<typeof signUpSchema>;
 const Auth = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  const { user, isAdmin, signIn, signUp, isLoading: authLoading } = useAuth();
+  const { user, isAdmin, isReviewer, signIn, signUp, isLoading: authLoading } = useAuth();
   const { loading, setLoading, setMessage } = useLoading();
   const [isSignUp, setIsSignUp] = useState(searchParams.get('mode') === 'signup');
   const [showPassword, setShowPassword] = useState(false);
@@ -59,7 +59,7 @@ const Auth = () => {
   useEffect(() => {
     console.log('Auth useEffect triggered:', { user: user?.id, authLoading, isAdmin });
     if (user && !authLoading && isAdmin !== null) {
-      if (isAdmin === true) {
+      if (isAdmin === true || isReviewer === true) {
         console.log('Redirecting to admin dashboard');
         navigate('/admin');
       } else {
@@ -67,7 +67,7 @@ const Auth = () => {
         navigate('/dashboard');
       }
     }
-  }, [user, isAdmin, authLoading, navigate]);
+  }, [user, isAdmin, isReviewer, authLoading, navigate]);
 
   const signInForm = useForm<SignInFormData>({
     resolver: zodResolver(signInSchema),
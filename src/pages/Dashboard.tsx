@@ -4,6 +4,17 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { 
   GraduationCap, 
   FileText, 
@@ -16,24 +27,38 @@ import {
   Plus,
   Eye,
   Edit,
-  Loader2
+  Loader2,
+  Upload,
+  Undo2,
+  CalendarClock
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLoading } from '@/contexts/LoadingContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { logger } from '@/lib/logger';
-
-interface Application {
-  id: string;
-  status: string;
-  created_at: string;
-  submitted_at: string | null;
-  rejection_reason: string | null;
-  full_name: string;
-  degree_program: string;
-  faculty: string;
-}
+import { useDocumentRequirements } from '@/hooks/useDocumentRequirements';
+import {
+  getAcceptAttribute,
+  getDocumentLabel,
+  uploadDocumentVersion,
+  validateDocumentFile,
+  type DocumentVersion,
+} from '@/lib/documents';
+import { validateFileContent } from '@/lib/fileSignatures';
+import { isCompressibleImage } from '@/lib/documentImages';
+import { DocumentUploadDialog } from '@/components/DocumentUploadDialog';
+import { StatusTimeline } from '@/components/StatusTimeline';
+import { InterviewBookingCard } from '@/components/InterviewBookingCard';
+import { fetchStatusEvents, type StatusEvent } from '@/lib/statusEvents';
+import {
+  REAPPLY_STATUSES,
+  fetchStudentApplications,
+  getCurrentApplication,
+  isApplicationEditable,
+  type StudentApplication,
+} from '@/lib/applications';
+import { formatCycleDate, isCycleOpen } from '@/lib/recruitmentCycles';
 
 const statusConfig = {
   draft: {
@@ -54,6 +79,12 @@ const statusConfig = {
     color: 'status-under-review',
     description: 'An administrator is currently reviewing your application.',
   },
+  interview: {
+    label: 'Interview',
+    icon: CalendarClock,
+    color: 'status-interview',
+    description: 'You have been shortlisted for an interview. Book a time below.',
+  },
   approved: {
     label: 'Approved',
     icon: CheckCircle2,
@@ -66,14 +97,31 @@ const statusConfig = {
     color: 'status-rejected',
     description: 'Unfortunately, your application was not successful.',
   },
+  withdrawn: {
+    label: 'Withdrawn',
+    icon: Undo2,
+    color: 'status-withdrawn',
+    description: 'You withdrew this application. It will not be reviewed.',
+  },
 };
 
+/** Statuses an applicant can withdraw from; enforced by enforce_application_withdrawal */
+const WITHDRAWABLE_STATUSES = ['pending', 'under_review', 'interview'];
+
 const Dashboard = () => {
   const navigate = useNavigate();
   const { user, isLoading: authLoading, signOut } = useAuth();
   const { setLoading, setMessage } = useLoading();
-  const [application, setApplication] = useState<Application | null>(null);
+  const [applications, setApplications] = useState<StudentApplication[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [rejectedDocuments, setRejectedDocuments] = useState<DocumentVersion[]>([]);
+  const [uploadingType, setUploadingType] = useState<string | null>(null);
+  const [pendingUpload, setPendingUpload] = useState<{ rejected: DocumentVersion; files: File[] } | null>(null);
+  const [statusEvents, setStatusEvents] = useState<StatusEvent[]>([]);
+  const [isWithdrawOpen, setIsWithdrawOpen] = useState(false);
+  const [withdrawalReason, setWithdrawalReason] = useState('');
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const { requirements: documentRequirements } = useDocumentRequirements(true);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -110,27 +158,15 @@ const Dashboard = () => {
 
       logger.log('User role check completed');
 
-      const { data, error } = await supabase
-        .from('tutor_applications')
-        .select('id, status, created_at, submitted_at, rejection_reason, full_name, degree_program, faculty')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .maybeSingle();
+      const data = await fetchStudentApplications(user.id);
 
       logger.log('Application fetch completed');
 
-      if (error) {
-        logger.error('Database error fetching application:', error);
-        // Check if it's an RLS error
-        if (error.code === 'PGRST301') {
-          logger.error('RLS policy error - user may not have permission to read applications');
-        }
-        toast.error('Failed to load your application');
-        return;
+      setApplications(data);
+      const current = getCurrentApplication(data);
+      if (current) {
+        await Promise.all([fetchRejectedDocuments(current.id), loadStatusEvents(current.id)]);
       }
-
-      setApplication(data);
       logger.log('Application loaded successfully');
     } catch (error) {
       logger.error('Unexpected error fetching application:', error);
@@ -142,6 +178,96 @@ const Dashboard = () => {
     }
   };
 
+  const fetchRejectedDocuments = async (applicationId: string) => {
+    const { data, error } = await supabase
+      .from('application_documents')
+      .select('*')
+      .eq('application_id', applicationId)
+      .eq('is_current', true)
+      .eq('verification_status', 'rejected');
+
+    if (error) {
+      logger.error('Error fetching rejected documents:', error);
+      return;
+    }
+    setRejectedDocuments(data || []);
+  };
+
+  const loadStatusEvents = async (applicationId: string) => {
+    try {
+      setStatusEvents(await fetchStatusEvents(applicationId));
+    } catch (error) {
+      logger.error('Error fetching status history:', error);
+    }
+  };
+
+  const handleReupload = async (rejected: DocumentVersion, file: File, certifiedAt: string | null = null) => {
+    if (!user || !application) return;
+
+    const requirement = documentRequirements.find(r => r.document_type === rejected.document_type);
+    const validationError = (requirement ? validateDocumentFile(requirement, file) : null) ?? (await validateFileContent(file));
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setUploadingType(rejected.document_type);
+    try {
+      const uploaded = await uploadDocumentVersion(user.id, application.id, rejected.document_type, file, certifiedAt);
+      if (uploaded.scan_status === 'quarantined') {
+        setRejectedDocuments(prev => prev.map(d => (d.id === rejected.id ? uploaded : d)));
+        toast.error(uploaded.scan_detail || 'This file could not be accepted. Please upload it again.');
+        return;
+      }
+      setRejectedDocuments(prev => prev.filter(d => d.id !== rejected.id));
+      toast.success('New copy uploaded. It will be checked again by a reviewer.');
+    } catch (error: unknown) {
+      logger.error('Error re-uploading document:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload document');
+    } finally {
+      setUploadingType(null);
+    }
+  };
+
+  // Photos are compressed, or combined into a PDF, in the upload dialog first.
+  // Certified documents go through it too so the certification date is asked for.
+  const handleFilesSelected = (rejected: DocumentVersion, files: File[]) => {
+    if (files.length === 0) return;
+    const requirement = documentRequirements.find(r => r.document_type === rejected.document_type);
+    if (files.every(isCompressibleImage) || requirement?.certification_max_age_days) {
+      setPendingUpload({ rejected, files });
+    } else {
+      handleReupload(rejected, files[0]);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!application || !withdrawalReason.trim()) return;
+
+    setIsWithdrawing(true);
+    try {
+      const { error } = await supabase
+        .from('tutor_applications')
+        .update({ status: 'withdrawn', withdrawal_reason: withdrawalReason.trim() })
+        .eq('id', application.id);
+
+      if (error) throw error;
+
+      setApplications(prev =>
+        prev.map(a => (a.id === application.id ? { ...a, status: 'withdrawn', withdrawal_reason: withdrawalReason.trim() } : a))
+      );
+      setIsWithdrawOpen(false);
+      setWithdrawalReason('');
+      await loadStatusEvents(application.id);
+      toast.success('Your application has been withdrawn');
+    } catch (error: unknown) {
+      logger.error('Error withdrawing application:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to withdraw application');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
   const handleSignOut = async () => {
     setMessage('Signing you out...');
     setLoading(true);
@@ -167,6 +293,7 @@ const Dashboard = () => {
     );
   }
 
+  const application = getCurrentApplication(applications);
   const currentStatus = application ? statusConfig[application.status as keyof typeof statusConfig] : null;
   const StatusIcon = currentStatus?.icon || FileText;
 
@@ -212,6 +339,7 @@ const Dashboard = () => {
                   application.status === 'approved' ? 'bg-success' :
                   application.status === 'rejected' ? 'bg-destructive' :
                   application.status === 'under_review' ? 'bg-primary' :
+                  application.status === 'interview' ? 'bg-accent' :
                   application.status === 'pending' ? 'bg-warning' : 'bg-muted'
                 }`} />
                 <CardHeader className="pb-4">
@@ -221,12 +349,14 @@ const Dashboard = () => {
                         application.status === 'approved' ? 'bg-success/10' :
                         application.status === 'rejected' ? 'bg-destructive/10' :
                         application.status === 'under_review' ? 'bg-primary/10' :
+                        application.status === 'interview' ? 'bg-accent/10' :
                         application.status === 'pending' ? 'bg-warning/10' : 'bg-muted'
                       }`}>
                         <StatusIcon className={`w-7 h-7 ${
                           application.status === 'approved' ? 'text-success' :
                           application.status === 'rejected' ? 'text-destructive' :
                           application.status === 'under_review' ? 'text-primary' :
+                          application.status === 'interview' ? 'text-accent' :
                           application.status === 'pending' ? 'text-warning' : 'text-muted-foreground'
                         }`} />
                       </div>
@@ -244,7 +374,7 @@ const Dashboard = () => {
                           View
                         </Button>
                       </Link>
-                      {(application.status === 'draft' || application.status === 'pending') && (
+                      {isApplicationEditable(application, application.recruitment_cycles) && (
                         <Link to={`/application/${application.id}/edit`}>
                           <Button size="sm" className="gap-2">
                             <Edit className="w-4 h-4" />
@@ -252,6 +382,25 @@ const Dashboard = () => {
                           </Button>
                         </Link>
                       )}
+                      {REAPPLY_STATUSES.includes(application.status) && !isCycleOpen(application.recruitment_cycles) && (
+                        <Link to="/apply">
+                          <Button size="sm" className="gap-2">
+                            <Plus className="w-4 h-4" />
+                            Apply Again
+                          </Button>
+                        </Link>
+                      )}
+                      {WITHDRAWABLE_STATUSES.includes(application.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2 text-destructive hover:text-destructive"
+                          onClick={() => setIsWithdrawOpen(true)}
+                        >
+                          <Undo2 className="w-4 h-4" />
+                          Withdraw
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -260,42 +409,19 @@ const Dashboard = () => {
                     {currentStatus?.description}
                   </p>
                   
-                  {/* Progress Tracker */}
+                  {/* Status History */}
                   <div className="bg-muted/50 rounded-lg p-4">
-                    <h4 className="font-medium text-sm text-muted-foreground mb-4">Application Progress</h4>
-                    <div className="flex items-center justify-between relative">
-                      <div className="absolute top-5 left-8 right-8 h-0.5 bg-border" />
-                      <div className="absolute top-5 left-8 h-0.5 bg-primary transition-all" style={{
-                        width: application.status === 'draft' ? '0%' :
-                               application.status === 'pending' ? '33%' :
-                               application.status === 'under_review' ? '66%' : '100%'
-                      }} />
-                      
-                      {['Submitted', 'Under Review', 'Decision'].map((step, index) => {
-                        const stepIndex = ['pending', 'under_review', 'approved'].indexOf(application.status);
-                        const isCompleted = index < stepIndex || application.status === 'approved' || application.status === 'rejected';
-                        const isCurrent = (application.status === 'pending' && index === 0) ||
-                                         (application.status === 'under_review' && index === 1) ||
-                                         ((application.status === 'approved' || application.status === 'rejected') && index === 2);
-                        
-                        return (
-                          <div key={step} className="flex flex-col items-center relative z-10">
-                            <div className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${
-                              isCompleted || isCurrent ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
-                            }`}>
-                              {isCompleted ? <CheckCircle2 className="w-5 h-5" /> : index + 1}
-                            </div>
-                            <span className={`text-xs mt-2 ${isCurrent ? 'font-medium text-primary' : 'text-muted-foreground'}`}>
-                              {step}
-                            </span>
-                          </div>
-                        );
-                      })}
-                    </div>
+                    <h4 className="font-medium text-sm text-muted-foreground mb-4">Application History</h4>
+                    <StatusTimeline events={statusEvents} currentUserId={user?.id} />
                   </div>
                 </CardContent>
               </Card>
 
+              {/* Interview Booking */}
+              {application.status === 'interview' && (
+                <InterviewBookingCard applicationId={application.id} cycleId={application.cycle_id} />
+              )}
+
               {/* Rejection Reason Alert */}
               {application.status === 'rejected' && application.rejection_reason && (
                 <Alert variant="destructive" className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
@@ -305,6 +431,110 @@ const Dashboard = () => {
                 </Alert>
               )}
 
+              {/* Withdrawal Reason */}
+              {application.status === 'withdrawn' && application.withdrawal_reason && (
+                <Alert className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
+                  <Undo2 className="h-4 w-4" />
+                  <AlertTitle>Reason for Withdrawal</AlertTitle>
+                  <AlertDescription>{application.withdrawal_reason}</AlertDescription>
+                </Alert>
+              )}
+
+              {/* Rejected Documents */}
+              {rejectedDocuments.length > 0 && application.status !== 'withdrawn' && (
+                <Card className="border-destructive/50 shadow-md animate-fade-in" style={{ animationDelay: '0.2s' }}>
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2 text-destructive">
+                      <AlertCircle className="w-5 h-5" />
+                      Documents Need Attention
+                    </CardTitle>
+                    <CardDescription>
+                      A reviewer could not accept the documents below. Upload a corrected copy of each.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {rejectedDocuments.map(doc => {
+                      const requirement = documentRequirements.find(r => r.document_type === doc.document_type);
+                      return (
+                        <div key={doc.id} className="flex items-start justify-between gap-4 p-4 rounded-lg border">
+                          <div>
+                            <p className="font-medium">{getDocumentLabel(documentRequirements, doc.document_type)}</p>
+                            <p className="text-sm text-muted-foreground">{doc.file_name}</p>
+                            {doc.rejection_reason && (
+                              <p className="text-sm text-destructive mt-1">{doc.rejection_reason}</p>
+                            )}
+                          </div>
+                          {uploadingType === doc.document_type ? (
+                            <Button variant="outline" size="sm" disabled>
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            </Button>
+                          ) : (
+                            <label>
+                              <input
+                                type="file"
+                                className="hidden"
+                                accept={requirement ? getAcceptAttribute(requirement) : undefined}
+                                multiple
+                                onChange={(e) => {
+                                  handleFilesSelected(doc, Array.from(e.target.files ?? []));
+                                  e.target.value = '';
+                                }}
+                              />
+                              <Button size="sm" className="gap-2" asChild>
+                                <span className="cursor-pointer">
+                                  <Upload className="w-4 h-4" />
+                                  Re-upload
+                                </span>
+                              </Button>
+                            </label>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* All Applications */}
+              <Card className="border-0 shadow-md animate-fade-in" style={{ animationDelay: '0.25s' }}>
+                <CardHeader>
+                  <CardTitle className="text-lg">Your Applications</CardTitle>
+                  <CardDescription>Applications from earlier intakes are kept for your records and can only be viewed.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {applications.map(item => {
+                    const itemStatus = statusConfig[item.status as keyof typeof statusConfig];
+                    const outcome = item.status === 'rejected' ? item.rejection_reason : item.status === 'withdrawn' ? item.withdrawal_reason : null;
+                    const isCurrent = item.id === application.id;
+                    return (
+                      <div
+                        key={item.id}
+                        className={`flex items-start justify-between gap-4 p-4 rounded-lg border ${isCurrent ? 'border-primary bg-primary/5' : ''}`}
+                      >
+                        <div className="min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <p className="font-medium">{item.recruitment_cycles?.name ?? 'Application'}</p>
+                            <Badge className={itemStatus?.color}>{itemStatus?.label}</Badge>
+                            {isCurrent && <Badge variant="outline">Current</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            {item.submitted_at ? `Submitted ${formatCycleDate(item.submitted_at)}` : 'Not submitted'}
+                            {item.reviewed_at && ` • Reviewed ${formatCycleDate(item.reviewed_at)}`}
+                          </p>
+                          {outcome && <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{outcome}</p>}
+                        </div>
+                        <Link to={`/application/${item.id}`}>
+                          <Button variant="ghost" size="sm" className="gap-2">
+                            <Eye className="w-4 h-4" />
+                            View
+                          </Button>
+                        </Link>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+
               {/* Application Summary */}
               <Card className="border-0 shadow-md animate-fade-in" style={{ animationDelay: '0.3s' }}>
                 <CardHeader>
@@ -363,6 +593,57 @@ const Dashboard = () => {
           )}
         </div>
       </main>
+
+      <AlertDialog
+        open={isWithdrawOpen}
+        onOpenChange={(open) => {
+          if (isWithdrawing) return;
+          setIsWithdrawOpen(open);
+          if (!open) setWithdrawalReason('');
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Withdraw your application?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Reviewers will stop considering your application. This cannot be undone, and you will not be able to
+              edit or resubmit it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="withdrawal-reason">Reason for withdrawing</Label>
+            <Textarea
+              id="withdrawal-reason"
+              placeholder="e.g. I have accepted another position"
+              value={withdrawalReason}
+              onChange={(e) => setWithdrawalReason(e.target.value)}
+              className="min-h-[100px]"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWithdrawing}>Keep Application</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              onClick={handleWithdraw}
+              disabled={isWithdrawing || !withdrawalReason.trim()}
+            >
+              {isWithdrawing ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+              Withdraw Application
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <DocumentUploadDialog
+        requirement={documentRequirements.find(r => r.document_type === pendingUpload?.rejected.document_type) ?? null}
+        files={pendingUpload?.files ?? []}
+        onFilesChange={(files) => setPendingUpload(prev => (prev && files.length > 0 ? { ...prev, files } : null))}
+        onCancel={() => setPendingUpload(null)}
+        onUpload={(file, certifiedAt) => {
+          if (pendingUpload) handleReupload(pendingUpload.rejected, file, certifiedAt);
+          setPendingUpload(null);
+        }}
+      />
     </div>
   );
 };
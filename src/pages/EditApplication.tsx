@@ -1,86 +1,73 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, Link, useParams } from 'react-router-dom';
-import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form } from '@/components/ui/form';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { useAutoSave } from '@/hooks/useAutoSave';
 import { SaveStatusIndicator } from '@/components/SaveStatusIndicator';
+import { ApplicationFormFields } from '@/components/ApplicationFormFields';
+import { ApplicationSummary } from '@/components/ApplicationSummary';
+import { EligibilityChecklist } from '@/components/EligibilityChecklist';
+import { DocumentUploadDialog } from '@/components/DocumentUploadDialog';
+import { useModules } from '@/hooks/useModules';
+import { useFaculties } from '@/hooks/useFaculties';
+import { useMarkThresholds } from '@/hooks/useMarkThresholds';
+import { useEligibilityRules } from '@/hooks/useEligibilityRules';
+import { useDocumentRequirements } from '@/hooks/useDocumentRequirements';
 import { 
   GraduationCap, 
   ArrowLeft, 
   ArrowRight, 
   Loader2, 
-  User, 
-  BookOpen, 
-  Briefcase, 
   Upload, 
   CheckCircle2,
   Save,
   Send,
   X,
   FileText,
-  LogOut
+  LogOut,
+  CalendarX,
+  AlertTriangle,
+  ShieldCheck
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLoading } from '@/contexts/LoadingContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { logger } from '@/lib/logger';
-
-const FACULTIES = [
-  'Faculty of Education',
-  'Faculty of Health Sciences',
-  'Faculty of Law',
-  'Faculty of Management and Commerce',
-  'Faculty of Science and Agriculture',
-  'Faculty of Social Sciences and Humanities',
-];
-
-const DEPARTMENTS = {
-  'Faculty of Education': ['Educational Foundations', 'Educational Psychology', 'Curriculum Studies'],
-  'Faculty of Health Sciences': ['Human Movement Science', 'Nursing Science', 'Pharmacy'],
-  'Faculty of Law': ['Mercantile Law', 'Private Law', 'Public Law'],
-  'Faculty of Management and Commerce': ['Accounting', 'Business Management', 'Economics', 'Industrial Psychology'],
-  'Faculty of Science and Agriculture': ['Agricultural Economics', 'Biochemistry', 'Computer Science', 'Mathematics', 'Physics', 'Chemistry', 'Statistics'],
-  'Faculty of Social Sciences and Humanities': ['Anthropology', 'Communication', 'History', 'Philosophy', 'Political Science', 'Psychology', 'Sociology'],
-};
-
-const applicationSchema = z.object({
-  // Personal Information
-  full_name: z.string().min(2, 'Full name is required').max(100),
-  student_number: z.string().min(5, 'Valid student number is required').max(20),
-  date_of_birth: z.string().min(1, 'Date of birth is required'),
-  gender: z.enum(['male', 'female', 'other', 'prefer_not_to_say']).optional(),
-  nationality: z.string().min(2, 'Nationality is required'),
-  residential_address: z.string().min(10, 'Full address is required'),
-  contact_number: z.string().min(10, 'Valid contact number is required').max(15),
-  
-  // Academic Information
-  degree_program: z.string().min(2, 'Degree program is required'),
-  faculty: z.string().min(1, 'Faculty is required'),
-  department: z.string().min(1, 'Department is required'),
-  year_of_study: z.coerce.number().min(1).max(7),
-  subjects_completed: z.string().min(1, 'List at least one subject'),
-  subjects_to_tutor: z.string().min(1, 'List at least one subject'),
-  
-  // Employment Information
-  previous_tutoring_experience: z.string().optional(),
-  work_experience: z.string().optional(),
-  skills_competencies: z.string().min(1, 'List your skills'),
-  languages_spoken: z.string().min(1, 'List languages you speak'),
-  availability: z.string().min(1, 'Describe your availability'),
-  motivation_letter: z.string().min(100, 'Motivation letter must be at least 100 characters').max(2000),
-});
-
-type ApplicationFormData = z.infer<typeof applicationSchema>;
+import {
+  formatAllowedTypes,
+  getAcceptAttribute,
+  getApplicableRequirements,
+  getMissingDocuments,
+  isCertificationExpired,
+  uploadDocumentVersion,
+  validateDocumentFile,
+  type ScanStatus,
+  type VerificationStatus,
+} from '@/lib/documents';
+import { validateFileContent } from '@/lib/fileSignatures';
+import { isCompressibleImage } from '@/lib/documentImages';
+import { formatCycleDate, isCycleOpen, type RecruitmentCycle } from '@/lib/recruitmentCycles';
+import { fetchApplicationModules, formatModuleCodes, saveApplicationModules } from '@/lib/modules';
+import { getModulesBelowThreshold } from '@/lib/marks';
+import { evaluateEligibility } from '@/lib/eligibility';
+import { isApplicationEditable } from '@/lib/applications';
+import {
+  APPLICATION_STEPS,
+  DEFAULT_FORM_VALUES,
+  DOCUMENTS_STEP,
+  REVIEW_STEP,
+  applicationSchema,
+  getFieldsForStep,
+  getStep,
+  toFormValues,
+  type ApplicationFormData,
+} from '@/lib/applicationForm';
 
 interface UploadedDocument {
   id?: string;
@@ -89,23 +76,12 @@ interface UploadedDocument {
   file_path: string;
   file_size: number;
   mime_type: string;
+  certified_at?: string | null;
+  verification_status?: VerificationStatus;
+  rejection_reason?: string | null;
+  scan_status?: ScanStatus;
 }
 
-const REQUIRED_DOCUMENTS = [
-  { type: 'certified_id', label: 'Certified ID Copy', description: 'Must be certified within the last 3 months' },
-  { type: 'academic_transcript', label: 'Academic Transcript', description: 'Official UFH transcript' },
-  { type: 'cv', label: 'CV / Resume', description: 'PDF format preferred' },
-  { type: 'proof_of_registration', label: 'Proof of Registration', description: 'Current year registration' },
-];
-
-const STEPS = [
-  { id: 1, title: 'Personal Info', icon: User },
-  { id: 2, title: 'Academic Info', icon: BookOpen },
-  { id: 3, title: 'Experience', icon: Briefcase },
-  { id: 4, title: 'Documents', icon: Upload },
-  { id: 5, title: 'Review', icon: CheckCircle2 },
-];
-
 const EditApplication = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -114,35 +90,43 @@ const EditApplication = () => {
   const [currentStep, setCurrentStep] = useState(1);
   const [isSaving, setIsSaving] = useState(false);
   const [uploadedDocuments, setUploadedDocuments] = useState<UploadedDocument[]>([]);
+  const [pendingUpload, setPendingUpload] = useState<{ documentType: string; files: File[] } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [application, setApplication] = useState<any>(null);
+  const [cycle, setCycle] = useState<RecruitmentCycle | null>(null);
+  const { modules } = useModules();
+  const { faculties, departments } = useFaculties(true);
+  const catalogue = { modules, faculties, departments };
+  const { thresholds } = useMarkThresholds();
+  const { rules: eligibilityRules } = useEligibilityRules();
+  const { requirements: documentRequirements } = useDocumentRequirements();
 
   const form = useForm<ApplicationFormData>({
     resolver: zodResolver(applicationSchema),
-    defaultValues: {
-      full_name: '',
-      student_number: '',
-      date_of_birth: '',
-      gender: undefined,
-      nationality: '',
-      residential_address: '',
-      contact_number: '',
-      degree_program: '',
-      faculty: '',
-      department: '',
-      year_of_study: 1,
-      subjects_completed: '',
-      subjects_to_tutor: '',
-      previous_tutoring_experience: '',
-      work_experience: '',
-      skills_competencies: '',
-      languages_spoken: '',
-      availability: '',
-      motivation_letter: '',
-    },
+    defaultValues: DEFAULT_FORM_VALUES,
   });
 
   const formValues = form.watch();
+  const requiredDocuments = getApplicableRequirements(documentRequirements, formValues);
+  const modulesBelowThreshold = getModulesBelowThreshold(
+    formValues.subjects_to_tutor || [],
+    formValues.module_marks || {},
+    modules,
+    thresholds
+  );
+  const eligibilityOutcomes = evaluateEligibility(eligibilityRules, {
+    year_of_study: formValues.year_of_study ?? null,
+    registration_year: formValues.registration_year ?? null,
+    date_of_birth: formValues.date_of_birth || null,
+    academic_year: cycle?.academic_year ?? null,
+    tutorModules: modules.filter(m => (formValues.subjects_to_tutor || []).includes(m.id)),
+    marks: formValues.module_marks || {},
+    thresholds,
+    documents: uploadedDocuments,
+    documentRequirements,
+    faculty_id: formValues.faculty_id || null,
+    applicant_category: formValues.applicant_category ?? null,
+  });
   const { saveStatus, isSavingAutosave, isOnline } = useAutoSave(
     user?.id || '',
     id || '',
@@ -185,41 +169,36 @@ const EditApplication = () => {
         return;
       }
 
-      // Check if application can be edited
-      if (data.status !== 'draft' && data.status !== 'pending') {
-        toast.error('This application cannot be edited');
-        navigate('/dashboard');
+      const { data: cycleData, error: cycleError } = await supabase
+        .from('recruitment_cycles')
+        .select('*')
+        .eq('id', data.cycle_id)
+        .maybeSingle();
+
+      if (cycleError) {
+        logger.error('Error loading recruitment cycle:', cycleError);
+      }
+
+      // Submitted outcomes and applications from finished cycles are read-only
+      if (!isApplicationEditable(data, cycleData)) {
+        toast.error('This application can no longer be edited');
+        navigate(`/application/${data.id}`);
         return;
       }
 
       setApplication(data);
-      form.reset({
-        full_name: data.full_name || '',
-        student_number: data.student_number || '',
-        date_of_birth: data.date_of_birth || '',
-        gender: data.gender,
-        nationality: data.nationality || '',
-        residential_address: data.residential_address || '',
-        contact_number: data.contact_number || '',
-        degree_program: data.degree_program || '',
-        faculty: data.faculty || '',
-        department: data.department || '',
-        year_of_study: data.year_of_study || 1,
-        subjects_completed: Array.isArray(data.subjects_completed) ? data.subjects_completed.join(', ') : (data.subjects_completed || ''),
-        subjects_to_tutor: Array.isArray(data.subjects_to_tutor) ? data.subjects_to_tutor.join(', ') : (data.subjects_to_tutor || ''),
-        previous_tutoring_experience: data.previous_tutoring_experience || '',
-        work_experience: data.work_experience || '',
-        skills_competencies: Array.isArray(data.skills_competencies) ? data.skills_competencies.join(', ') : (data.skills_competencies || ''),
-        languages_spoken: Array.isArray(data.languages_spoken) ? data.languages_spoken.join(', ') : (data.languages_spoken || ''),
-        availability: typeof data.availability === 'object' && data.availability !== null && !Array.isArray(data.availability) ? ((data.availability as Record<string, unknown>)?.description as string || JSON.stringify(data.availability)) : String(data.availability || ''),
-        motivation_letter: data.motivation_letter || '',
-      });
+      setCycle(cycleData);
+
+      const selectedModules = await fetchApplicationModules(data.id);
+
+      form.reset(toFormValues(data, selectedModules));
 
       // Load documents
       const { data: docs, error: docsError } = await supabase
         .from('application_documents')
         .select('*')
-        .eq('application_id', id);
+        .eq('application_id', id)
+        .eq('is_current', true);
 
       if (!docsError && docs) {
         setUploadedDocuments(docs);
@@ -239,12 +218,10 @@ const EditApplication = () => {
   const nextStep = async () => {
     logger.log('nextStep called, current step:', currentStep);
 
-    // Special validation for step 4 (Documents)
-    if (currentStep === 4) {
+    // Special validation for the documents step
+    if (currentStep === DOCUMENTS_STEP) {
       logger.log('On documents step, checking uploaded documents...');
-      const missingDocs = REQUIRED_DOCUMENTS.filter(
-        doc => !uploadedDocuments.find(d => d.document_type === doc.type)
-      );
+      const missingDocs = getMissingDocuments(requiredDocuments, uploadedDocuments);
       logger.log('Missing documents:', missingDocs);
       if (missingDocs.length > 0) {
         toast.error(`Please upload all required documents before proceeding: ${missingDocs.map(d => d.label).join(', ')}`);
@@ -253,13 +230,13 @@ const EditApplication = () => {
       logger.log('All documents uploaded, proceeding to review step');
     }
 
-    const fields = getFieldsForStep(currentStep);
+    const fields = getFieldsForStep(currentStep, form.getValues());
     logger.log('Fields to validate:', fields);
     const isValid = await form.trigger(fields);
     logger.log('Validation result:', isValid);
     if (isValid) {
       logger.log('Moving to next step');
-      setCurrentStep(prev => Math.min(prev + 1, 5));
+      setCurrentStep(prev => Math.min(prev + 1, REVIEW_STEP));
     } else {
       logger.log('Validation failed, staying on current step');
     }
@@ -269,19 +246,6 @@ const EditApplication = () => {
     setCurrentStep(prev => Math.max(prev - 1, 1));
   };
 
-  const getFieldsForStep = (step: number): (keyof ApplicationFormData)[] => {
-    switch (step) {
-      case 1:
-        return ['full_name', 'student_number', 'date_of_birth', 'gender', 'nationality', 'residential_address', 'contact_number'];
-      case 2:
-        return ['degree_program', 'faculty', 'department', 'year_of_study', 'subjects_completed', 'subjects_to_tutor'];
-      case 3:
-        return ['previous_tutoring_experience', 'work_experience', 'skills_competencies', 'languages_spoken', 'availability', 'motivation_letter'];
-      default:
-        return [];
-    }
-  };
-
   const handleSaveDraft = async () => {
     logger.log('Starting save draft for edit');
 
@@ -312,23 +276,24 @@ const EditApplication = () => {
         date_of_birth: formData.date_of_birth || null,
         gender: formData.gender || null,
         nationality: formData.nationality || '',
+        applicant_category: formData.applicant_category || 'local',
         residential_address: formData.residential_address || '',
         contact_number: formData.contact_number || '',
         email: user?.email || '',
         degree: formData.degree_program || '', // Map degree_program to degree
         degree_program: formData.degree_program || '',
-        faculty: formData.faculty || '',
-        department: formData.department || '',
+        faculty_id: formData.faculty_id || null,
+        department_id: formData.department_id || null,
         year_of_study: formData.year_of_study || 1,
-        subjects: (formData.subjects_completed || '') + (formData.subjects_to_tutor ? ', ' + formData.subjects_to_tutor : ''), // Combine as text
-        subjects_completed: formData.subjects_completed || '',
-        subjects_to_tutor: formData.subjects_to_tutor || '',
+        registration_year: formData.registration_year || null,
+        subjects: formatModuleCodes([...(formData.subjects_completed || []), ...(formData.subjects_to_tutor || [])], modules), // Combine as text
         experience: (formData.previous_tutoring_experience || '') + (formData.work_experience ? ', ' + formData.work_experience : ''), // Combine experience
         previous_tutoring_experience: formData.previous_tutoring_experience || null,
         work_experience: formData.work_experience || null,
         skills_competencies: formData.skills_competencies || '',
         languages_spoken: formData.languages_spoken || '',
-        availability: formData.availability || '',
+        availability: formData.availability || [],
+        availability_notes: formData.availability_notes || null,
         motivation: formData.motivation_letter || '', // Map motivation_letter to motivation
         motivation_letter: formData.motivation_letter || '',
         status: 'draft' as const,
@@ -355,6 +320,12 @@ const EditApplication = () => {
         throw error || profileError;
       }
 
+      await saveApplicationModules(application.id, {
+        completed: formData.subjects_completed || [],
+        tutor: formData.subjects_to_tutor || [],
+        marks: formData.module_marks || {},
+      });
+
       logger.log('Draft update successful');
       toast.success('Draft saved successfully');
     } catch (error: any) {
@@ -367,96 +338,76 @@ const EditApplication = () => {
     }
   };
 
-  const handleFileUpload = async (documentType: string, file: File) => {
-    if (!application) return;
+  const handleFileUpload = async (documentType: string, file: File, certifiedAt: string | null = null) => {
+    if (!application || !user) return;
 
-    // Validate file
-    const allowedTypes = ['application/pdf', 'image/jpeg', 'image/png'];
-    if (!allowedTypes.includes(file.type)) {
-      toast.error('Only PDF, JPG, and PNG files are allowed');
+    // Validate file against the requirement it is uploaded for
+    const requirement = requiredDocuments.find(d => d.document_type === documentType);
+    if (!requirement) {
+      toast.error('This document is not required for your application');
       return;
     }
 
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (file.size > maxSize) {
-      toast.error('File size must be less than 5MB');
+    const validationError = validateDocumentFile(requirement, file);
+    if (validationError) {
+      toast.error(validationError);
       return;
     }
 
-    try {
-      const fileExt = file.name.split('.').pop();
-      const filePath = `${user?.id}/${application.id}/${documentType}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('application-documents')
-        .upload(filePath, file, { upsert: true });
-
-      if (uploadError) {
-        logger.error('Upload error:', uploadError);
-        if (uploadError.message.includes('bucket not found') || uploadError.message.includes('Bucket not found')) {
-          toast.error('Document storage is not configured. Please contact an administrator.');
-        } else {
-          toast.error(uploadError.message || 'Failed to upload document');
-        }
-        return;
-      }
-
-      // Remove existing document of same type
-      const existingDoc = uploadedDocuments.find(d => d.document_type === documentType);
-      if (existingDoc?.id) {
-        await supabase
-          .from('application_documents')
-          .delete()
-          .eq('id', existingDoc.id);
-      }
-
-      // Generate a UUID for the document
-      const generateUUID = () => {
-        return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-          const r = Math.random() * 16 | 0;
-          const v = c === 'x' ? r : (r & 0x3 | 0x8);
-          return v.toString(16);
-        });
-      };
-
-      // Save document record
-      const { data: docData, error: docError } = await supabase
-        .from('application_documents')
-        .insert({
-          id: generateUUID(),
-          application_id: application.id,
-          user_id: user?.id,
-          document_type: documentType,
-          file_name: file.name,
-          file_path: filePath,
-          file_size: file.size,
-          mime_type: file.type,
-          uploaded_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
+    const contentError = await validateFileContent(file);
+    if (contentError) {
+      toast.error(contentError);
+      return;
+    }
 
-      if (docError) throw docError;
+    try {
+      const scanned = await uploadDocumentVersion(user.id, application.id, documentType, file, certifiedAt);
 
       setUploadedDocuments(prev => [
         ...prev.filter(d => d.document_type !== documentType),
-        docData,
+        scanned,
       ]);
 
-      toast.success('Document uploaded successfully');
+      if (scanned.scan_status === 'quarantined') {
+        toast.error(scanned.scan_detail || 'This file could not be accepted. Please upload it again.');
+      } else {
+        toast.success('Document uploaded successfully');
+      }
     } catch (error: any) {
       logger.error('Error uploading document:', error);
       toast.error(error.message || 'Failed to upload document');
     }
   };
 
+  // Photos are compressed, or combined into a PDF, in the upload dialog first.
+  // Certified documents go through it too so the certification date is asked for.
+  const handleFilesSelected = (documentType: string, files: File[]) => {
+    if (files.length === 0) return;
+    const requirement = requiredDocuments.find(d => d.document_type === documentType);
+    if (files.every(isCompressibleImage) || requirement?.certification_max_age_days) {
+      setPendingUpload({ documentType, files });
+    } else {
+      handleFileUpload(documentType, files[0]);
+    }
+  };
+
   const handleSubmit = async (data: ApplicationFormData) => {
     if (!application) return;
 
+    if (!isCycleOpen(cycle)) {
+      toast.error('Applications for this recruitment cycle are closed');
+      return;
+    }
+
+    const modulesWithoutMarks = data.subjects_to_tutor.filter(id => data.module_marks[id] === undefined);
+    if (modulesWithoutMarks.length > 0) {
+      toast.error(`Please enter your final mark for: ${formatModuleCodes(modulesWithoutMarks, modules)}`);
+      setCurrentStep(2);
+      return;
+    }
+
     // Check if all required documents are uploaded
-    const missingDocs = REQUIRED_DOCUMENTS.filter(
-      doc => !uploadedDocuments.find(d => d.document_type === doc.type)
-    );
+    const missingDocs = getMissingDocuments(requiredDocuments, uploadedDocuments);
 
     if (missingDocs.length > 0) {
       toast.error(`Please upload all required documents before submitting: ${missingDocs.map(d => d.label).join(', ')}`);
@@ -475,6 +426,13 @@ const EditApplication = () => {
     setMessage('Submitting your application...');
     setLoading(true);
     try {
+      // Save modules while still editable so the submitted row is complete
+      await saveApplicationModules(application.id, {
+        completed: data.subjects_completed,
+        tutor: data.subjects_to_tutor,
+        marks: data.module_marks,
+      });
+
       const { error } = await supabase
         .from('tutor_applications')
         .update({
@@ -483,23 +441,24 @@ const EditApplication = () => {
           date_of_birth: data.date_of_birth,
           gender: data.gender || null,
           nationality: data.nationality,
+          applicant_category: data.applicant_category,
           residential_address: data.residential_address,
           contact_number: data.contact_number,
           email: user?.email || '',
           degree: data.degree_program, // Map degree_program to degree
           degree_program: data.degree_program,
-          faculty: data.faculty,
-          department: data.department,
+          faculty_id: data.faculty_id,
+          department_id: data.department_id,
           year_of_study: data.year_of_study,
-          subjects: (data.subjects_completed || '') + (data.subjects_to_tutor ? ', ' + data.subjects_to_tutor : ''), // Combine as text
-          subjects_completed: data.subjects_completed || '',
-          subjects_to_tutor: data.subjects_to_tutor || '',
+          registration_year: data.registration_year,
+          subjects: formatModuleCodes([...data.subjects_completed, ...data.subjects_to_tutor], modules), // Combine as text
           experience: (data.previous_tutoring_experience || '') + (data.work_experience ? ', ' + data.work_experience : ''), // Combine as text
           previous_tutoring_experience: data.previous_tutoring_experience || null,
           work_experience: data.work_experience || null,
           skills_competencies: data.skills_competencies || '',
           languages_spoken: data.languages_spoken || '',
           availability: data.availability,
+          availability_notes: data.availability_notes || null,
           motivation: data.motivation_letter, // Map motivation_letter to motivation
           motivation_letter: data.motivation_letter,
           status: 'pending',
@@ -552,8 +511,10 @@ const EditApplication = () => {
     );
   }
 
-  const selectedFaculty = form.watch('faculty');
-  const progress = (currentStep / 5) * 100;
+  const activeStep = getStep(currentStep);
+  const ActiveStepIcon = activeStep.icon;
+  const progress = (currentStep / REVIEW_STEP) * 100;
+  const isSubmissionOpen = isCycleOpen(cycle);
 
   return (
     <div className="min-h-screen bg-muted/30">
@@ -578,15 +539,22 @@ const EditApplication = () => {
       <div className="bg-background border-b">
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between mb-2">
-            <h1 className="text-xl font-semibold">Edit Application</h1>
+            <div>
+              <h1 className="text-xl font-semibold">Edit Application</h1>
+              {cycle && (
+                <p className="text-xs text-muted-foreground">
+                  {cycle.name} • {isSubmissionOpen ? `Closes ${formatCycleDate(cycle.closes_at)}` : 'Closed for submissions'}
+                </p>
+              )}
+            </div>
             <div className="flex items-center gap-4">
               <SaveStatusIndicator status={saveStatus} message={saveStatus === 'saved' ? 'All changes saved' : saveStatus === 'saving' ? 'Saving...' : saveStatus === 'error' ? 'Failed to save' : saveStatus === 'offline' ? 'Offline – changes not saved' : ''} />
-              <Badge variant="outline">Step {currentStep} of 5</Badge>
+              <Badge variant="outline">Step {currentStep} of {REVIEW_STEP}</Badge>
             </div>
           </div>
           <Progress value={progress} className="w-full" />
           <div className="flex justify-between mt-2">
-            {STEPS.map((step) => (
+            {APPLICATION_STEPS.map((step) => (
               <div key={step.id} className={`flex items-center gap-2 text-sm ${currentStep >= step.id ? 'text-primary' : 'text-muted-foreground'}`}>
                 <step.icon className="w-4 h-4" />
                 <span className="hidden sm:inline">{step.title}</span>
@@ -599,437 +567,67 @@ const EditApplication = () => {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
         <div className="max-w-4xl mx-auto">
+          {!isSubmissionOpen && (
+            <div className="flex items-start gap-3 p-4 mb-6 rounded-lg border border-warning/50 bg-warning/10 text-sm">
+              <CalendarX className="w-5 h-5 text-warning shrink-0" />
+              <div>
+                <p className="font-medium">This recruitment cycle is closed</p>
+                <p className="text-muted-foreground">You can still save changes, but the application can no longer be submitted.</p>
+              </div>
+            </div>
+          )}
           <Form {...form}>
             <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-8">
-              {/* Step 1: Personal Information */}
-              {currentStep === 1 && (
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <User className="w-5 h-5" />
-                      Personal Information
-                    </CardTitle>
-                    <CardDescription>
-                      Please provide your personal details
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="grid md:grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="full_name"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Full Name *</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter your full name" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="student_number"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Student Number *</FormLabel>
-                            <FormControl>
-                              <Input placeholder="e.g. 202100001" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    <div className="grid md:grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="date_of_birth"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Date of Birth *</FormLabel>
-                            <FormControl>
-                              <Input type="date" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="gender"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Gender</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select gender" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                <SelectItem value="male">Male</SelectItem>
-                                <SelectItem value="female">Female</SelectItem>
-                                <SelectItem value="other">Other</SelectItem>
-                                <SelectItem value="prefer_not_to_say">Prefer not to say</SelectItem>
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    <FormField
-                      control={form.control}
-                      name="nationality"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Nationality *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g. South African" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="residential_address"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Residential Address *</FormLabel>
-                          <FormControl>
-                            <Textarea
-                              placeholder="Enter your full residential address"
-                              className="min-h-[80px]"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="contact_number"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Contact Number *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g. +27 12 345 6789" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </CardContent>
-                </Card>
-              )}
-
-              {/* Step 2: Academic Information */}
-              {currentStep === 2 && (
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <BookOpen className="w-5 h-5" />
-                      Academic Information
-                    </CardTitle>
-                    <CardDescription>
-                      Tell us about your academic background
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="degree_program"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Degree Program *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g. Bachelor of Science in Computer Science" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="grid md:grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="faculty"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Faculty *</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select faculty" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {FACULTIES.map((faculty) => (
-                                  <SelectItem key={faculty} value={faculty}>
-                                    {faculty}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="department"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Department *</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value} disabled={!selectedFaculty}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select department" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {selectedFaculty && DEPARTMENTS[selectedFaculty as keyof typeof DEPARTMENTS]?.map((dept) => (
-                                  <SelectItem key={dept} value={dept}>
-                                    {dept}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    <FormField
-                      control={form.control}
-                      name="year_of_study"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Year of Study *</FormLabel>
-                          <Select onValueChange={(value) => field.onChange(parseInt(value))} defaultValue={field.value?.toString()}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select year" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {[1, 2, 3, 4, 5, 6, 7].map((year) => (
-                                <SelectItem key={year} value={year.toString()}>
-                                  Year {year}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="subjects_completed"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Subjects Completed *</FormLabel>
-                          <FormControl>
-                            <Textarea
-                              placeholder="List subjects you've completed with good grades"
-                              className="min-h-[80px]"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            List subjects you've completed successfully
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="subjects_to_tutor"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Subjects You Want to Tutor *</FormLabel>
-                          <FormControl>
-                            <Textarea
-                              placeholder="List subjects you're confident to tutor"
-                              className="min-h-[80px]"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            Subjects you feel qualified to teach
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </CardContent>
-                </Card>
-              )}
-
-              {/* Step 3: Experience */}
-              {currentStep === 3 && (
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Briefcase className="w-5 h-5" />
-                      Experience & Skills
-                    </CardTitle>
-                    <CardDescription>
-                      Share your experience and skills
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="previous_tutoring_experience"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Previous Tutoring Experience</FormLabel>
-                          <FormControl>
-                            <Textarea
-                              placeholder="Describe any previous tutoring experience"
-                              className="min-h-[80px]"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            If none, you can leave this blank
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="work_experience"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Work Experience</FormLabel>
-                          <FormControl>
-                            <Textarea
-                              placeholder="Describe your work experience"
-                              className="min-h-[80px]"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            Any relevant work experience
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="skills_competencies"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Skills & Competencies *</FormLabel>
-                          <FormControl>
-                            <Textarea
-                              placeholder="List your skills and competencies"
-                              className="min-h-[80px]"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            Teaching skills, communication skills, etc.
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="languages_spoken"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Languages Spoken *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g. English, Afrikaans, Xhosa" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="availability"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Availability *</FormLabel>
-                          <FormControl>
-                            <Textarea
-                              placeholder="Describe your availability for tutoring"
-                              className="min-h-[80px]"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            Days and times you're available
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="motivation_letter"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Motivation Letter *</FormLabel>
-                          <FormControl>
-                            <Textarea
-                              placeholder="Why do you want to be a tutor?"
-                              className="min-h-[120px]"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            Minimum 100 characters. Explain your motivation for becoming a tutor.
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </CardContent>
-                </Card>
-              )}
-
-              {/* Step 4: Documents */}
-              {currentStep === 4 && (
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Upload className="w-5 h-5" />
-                      Documents
-                    </CardTitle>
-                    <CardDescription>
-                      Upload required documents
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
+              <Card key={currentStep}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ActiveStepIcon className="w-5 h-5" />
+                    {activeStep.heading}
+                  </CardTitle>
+                  <CardDescription>
+                    {activeStep.description}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {activeStep.fields.length > 0 && (
+                    <ApplicationFormFields form={form} step={activeStep} catalogue={catalogue} thresholds={thresholds} />
+                  )}
+
+                  {currentStep === DOCUMENTS_STEP && (
                     <div className="space-y-4">
-                      {REQUIRED_DOCUMENTS.map((doc) => {
-                        const uploaded = uploadedDocuments.find(d => d.document_type === doc.type);
+                      {requiredDocuments.map((doc) => {
+                        const uploaded = uploadedDocuments.find(d => d.document_type === doc.document_type);
                         return (
-                          <div key={doc.type} className="flex items-center justify-between p-4 border rounded-lg">
+                          <div key={doc.document_type} className="flex items-center justify-between p-4 border rounded-lg">
                             <div>
-                              <h4 className="font-medium">{doc.label}</h4>
+                              <h4 className="font-medium">
+                                {doc.label}
+                                {!doc.is_required && <span className="text-sm font-normal text-muted-foreground"> (optional)</span>}
+                              </h4>
                               <p className="text-sm text-muted-foreground">{doc.description}</p>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {formatAllowedTypes(doc)}, max {doc.max_size_mb}MB
+                              </p>
                               {uploaded && (
                                 <p className="text-sm text-green-600 mt-1">
                                   ✓ Uploaded: {uploaded.file_name}
                                 </p>
                               )}
+                              {uploaded?.verification_status === 'rejected' && (
+                                <p className="text-sm text-destructive mt-1">
+                                  Not accepted: {uploaded.rejection_reason}
+                                </p>
+                              )}
+                              {uploaded && isCertificationExpired(doc, uploaded.certified_at) && (
+                                <p className="text-sm text-warning mt-1">
+                                  {uploaded.certified_at
+                                    ? `Certified ${uploaded.certified_at}, more than ${doc.certification_max_age_days} days ago. Please upload a freshly certified copy.`
+                                    : 'Certification date missing. Please upload the copy again with its certification date.'}
+                                </p>
+                              )}
                             </div>
                             <div className="flex items-center gap-2">
-                              {uploaded ? (
+                              {uploaded && (
                                 <Button
                                   type="button"
                                   variant="outline"
@@ -1052,21 +650,23 @@ const EditApplication = () => {
                                   <FileText className="w-4 h-4 mr-2" />
                                   View
                                 </Button>
-                              ) : (
+                              )}
+                              {(!uploaded ||
+                                uploaded.verification_status === 'rejected' ||
+                                isCertificationExpired(doc, uploaded.certified_at)) && (
                                 <>
                                   <input
                                     type="file"
-                                    accept=".pdf,.jpg,.jpeg,.png"
+                                    accept={getAcceptAttribute(doc)}
+                                    multiple
                                     onChange={(e) => {
-                                      const file = e.target.files?.[0];
-                                      if (file) {
-                                        handleFileUpload(doc.type, file);
-                                      }
+                                      handleFilesSelected(doc.document_type, Array.from(e.target.files ?? []));
+                                      e.target.value = '';
                                     }}
                                     className="hidden"
-                                    id={`upload-${doc.type}`}
+                                    id={`upload-${doc.document_type}`}
                                   />
-                                  <label htmlFor={`upload-${doc.type}`}>
+                                  <label htmlFor={`upload-${doc.document_type}`}>
                                     <Button
                                       type="button"
                                       variant="outline"
@@ -1075,7 +675,7 @@ const EditApplication = () => {
                                     >
                                       <span className="cursor-pointer">
                                         <Upload className="w-4 h-4 mr-2" />
-                                        Upload
+                                        {uploaded ? 'Replace' : 'Upload'}
                                       </span>
                                     </Button>
                                   </label>
@@ -1086,60 +686,45 @@ const EditApplication = () => {
                         );
                       })}
                     </div>
-                  </CardContent>
-                </Card>
-              )}
+                  )}
 
-              {/* Step 5: Review */}
-              {currentStep === 5 && (
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <CheckCircle2 className="w-5 h-5" />
-                      Review Your Application
-                    </CardTitle>
-                    <CardDescription>
-                      Please review all information before submitting
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-6">
-                      {/* Personal Info Summary */}
+                  {currentStep === REVIEW_STEP && (
+                    <>
                       <div>
-                        <h3 className="font-semibold mb-2">Personal Information</h3>
-                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
-                          <div><strong>Name:</strong> {form.watch('full_name')}</div>
-                          <div><strong>Student Number:</strong> {form.watch('student_number')}</div>
-                          <div><strong>Date of Birth:</strong> {form.watch('date_of_birth')}</div>
-                          <div><strong>Gender:</strong> {form.watch('gender') || 'Not specified'}</div>
-                          <div><strong>Nationality:</strong> {form.watch('nationality')}</div>
-                          <div><strong>Contact:</strong> {form.watch('contact_number')}</div>
-                        </div>
+                        <ApplicationSummary values={formValues} catalogue={catalogue} />
+                        {modulesBelowThreshold.length > 0 && (
+                          <p className="flex items-start gap-2 text-sm text-warning mt-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                            Your mark for {modulesBelowThreshold.map(m => m.code).join(', ')} is below the minimum required to tutor it. You can still submit, but reviewers may not approve it.
+                          </p>
+                        )}
                       </div>
 
-                      {/* Academic Info Summary */}
+                      {/* Eligibility Summary */}
                       <div>
-                        <h3 className="font-semibold mb-2">Academic Information</h3>
-                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
-                          <div><strong>Degree:</strong> {form.watch('degree_program')}</div>
-                          <div><strong>Faculty:</strong> {form.watch('faculty')}</div>
-                          <div><strong>Department:</strong> {form.watch('department')}</div>
-                          <div><strong>Year:</strong> {form.watch('year_of_study')}</div>
-                        </div>
+                        <h3 className="font-semibold mb-2 flex items-center gap-2">
+                          <ShieldCheck className="w-4 h-4" /> Eligibility
+                        </h3>
+                        <EligibilityChecklist outcomes={eligibilityOutcomes} documents={documentRequirements} />
+                        {eligibilityOutcomes.some(o => !o.passed) && (
+                          <p className="text-xs text-muted-foreground mt-2">
+                            You can still submit. Coordinators will see which requirements are not met.
+                          </p>
+                        )}
                       </div>
 
                       {/* Documents Summary */}
                       <div>
                         <h3 className="font-semibold mb-2">Documents</h3>
                         <div className="space-y-2">
-                          {REQUIRED_DOCUMENTS.map((doc) => {
-                            const uploaded = uploadedDocuments.find(d => d.document_type === doc.type);
+                          {requiredDocuments.map((doc) => {
+                            const uploaded = uploadedDocuments.find(d => d.document_type === doc.document_type);
                             return (
-                              <div key={doc.type} className="flex items-center gap-2 text-sm">
+                              <div key={doc.document_type} className="flex items-center gap-2 text-sm">
                                 {uploaded ? (
                                   <CheckCircle2 className="w-4 h-4 text-green-500" />
                                 ) : (
-                                  <X className="w-4 h-4 text-red-500" />
+                                  <X className={`w-4 h-4 ${doc.is_required ? 'text-red-500' : 'text-muted-foreground'}`} />
                                 )}
                                 {doc.label}
                               </div>
@@ -1147,10 +732,10 @@ const EditApplication = () => {
                           })}
                         </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
 
               {/* Navigation */}
               <div className="flex justify-between items-center">
@@ -1182,7 +767,7 @@ const EditApplication = () => {
                       Save Draft
                     </Button>
 
-                    {currentStep < 5 ? (
+                    {currentStep < REVIEW_STEP ? (
                       <Button type="button" onClick={(e) => { e.preventDefault(); nextStep(); }} className="w-full sm:w-auto">
                         Next
                         <ArrowRight className="w-4 h-4 ml-2" />
@@ -1191,7 +776,7 @@ const EditApplication = () => {
                       <Button
                         type="submit"
                         className="btn-gradient-accent text-accent-foreground w-full sm:w-auto"
-                        disabled={isSubmitting}
+                        disabled={isSubmitting || !isSubmissionOpen}
                       >
                         {isSubmitting ? (
                           <>
@@ -1213,6 +798,17 @@ const EditApplication = () => {
           </Form>
         </div>
       </main>
+
+      <DocumentUploadDialog
+        requirement={requiredDocuments.find(d => d.document_type === pendingUpload?.documentType) ?? null}
+        files={pendingUpload?.files ?? []}
+        onFilesChange={(files) => setPendingUpload(prev => (prev && files.length > 0 ? { ...prev, files } : null))}
+        onCancel={() => setPendingUpload(null)}
+        onUpload={(file, certifiedAt) => {
+          if (pendingUpload) handleFileUpload(pendingUpload.documentType, file, certifiedAt);
+          setPendingUpload(null);
+        }}
+      />
     </div>
   );
 };
@@ -7,7 +7,7 @@ import Typewriter from '@/components/Typewriter';
 
 
 const Index = () => {
-  const { user, isAdmin } = useAuth();
+  const { user, isAdmin, isReviewer } = useAuth();
 
   return (
     <div className="min-h-screen">
@@ -26,9 +26,9 @@ const Index = () => {
           <div className="flex items-center gap-3">
             {user ? (
               <>
-                {isAdmin === true ? (
+                {isAdmin === true || isReviewer === true ? (
                   <Link to="/admin">
-                    <Button variant="outline">Admin Dashboard</Button>
+                    <Button variant="outline">{isAdmin ? 'Admin Dashboard' : 'Reviewer Dashboard'}</Button>
                   </Link>
                 ) : (
                   <Link to="/dashboard">
@@ -0,0 +1,180 @@
+// Content check for an uploaded application document.
+// Compares the stored object's leading bytes with the MIME type recorded on
+// the application_documents row and rejects encrypted or malformed PDFs.
+// Files that fail are moved to the document-quarantine bucket, marked
+// 'quarantined' and rejected with the reason, so reviewers never open them
+// and the student is asked to upload again. The byte checks mirror
+// src/lib/fileSignatures.ts.
+// Rows only reach objects in their own application's folder, or the stored
+// file of the row they were reused from, and a file another row still
+// points at is copied to quarantine but left in place.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DOCUMENTS_BUCKET = 'application-documents';
+const QUARANTINE_BUCKET = 'document-quarantine';
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const SIGNATURES: { mimeType: string; bytes: number[] }[] = [
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: DOCX_MIME_TYPE, bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+const detectMimeType = (bytes: Uint8Array) =>
+  SIGNATURES.find(signature => signature.bytes.every((byte, index) => bytes[index] === byte))?.mimeType ?? null;
+
+/** Why the file cannot be accepted, or null when it is clean */
+const findProblem = (declaredType: string, bytes: Uint8Array): string | null => {
+  const detected = detectMimeType(bytes);
+  if (!detected || detected !== declaredType) {
+    return 'The file content does not match its file type. Please upload the original file rather than a renamed one.';
+  }
+
+  const text = new TextDecoder('latin1').decode(bytes);
+
+  if (detected === 'application/pdf') {
+    if (!text.slice(-1024).includes('%%EOF')) {
+      return 'This PDF appears to be damaged or incomplete. Please save or export it again.';
+    }
+    if (/\/Encrypt\b/.test(text)) {
+      return 'Password-protected PDFs cannot be reviewed. Please remove the password and upload again.';
+    }
+  }
+
+  if (detected === DOCX_MIME_TYPE && !text.includes('word/')) {
+    return 'This file is not a Word document.';
+  }
+
+  return null;
+};
+
+interface DocumentRow {
+  id: string;
+  user_id: string;
+  application_id: string;
+  file_path: string;
+  reused_from: string | null;
+}
+
+/**
+ * Whether the row points at a file the applicant uploaded for this
+ * application, or at the same file as the row it was reused from.
+ * Mirrors the insert policy on application_documents.
+ */
+const isOwnFile = async (serviceClient: ReturnType<typeof createClient>, document: DocumentRow) => {
+  if (document.file_path.startsWith(`${document.user_id}/${document.application_id}/`)) return true;
+  if (!document.reused_from) return false;
+
+  const { data: source, error } = await serviceClient
+    .from('application_documents')
+    .select('user_id, file_path')
+    .eq('id', document.reused_from)
+    .maybeSingle();
+
+  if (error) throw error;
+  return source?.user_id === document.user_id && source?.file_path === document.file_path;
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { document_id: documentId } = await req.json();
+    if (!documentId) return json({ error: 'document_id is required' }, 400);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+    // Read the row as the caller so RLS limits scans to the owner and admins
+    const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const { data: document, error: documentError } = await callerClient
+      .from('application_documents')
+      .select('*')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (documentError) throw documentError;
+    if (!document) return json({ error: 'Document not found' }, 404);
+    if (document.scan_status !== 'pending') return json({ document });
+
+    const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    if (!(await isOwnFile(serviceClient, document))) {
+      return json({ error: 'Document does not belong to this application' }, 403);
+    }
+
+    const { data: object, error: downloadError } = await serviceClient.storage
+      .from(DOCUMENTS_BUCKET)
+      .download(document.file_path);
+
+    if (downloadError) throw downloadError;
+
+    const bytes = new Uint8Array(await object.arrayBuffer());
+    const problem = findProblem(document.mime_type, bytes);
+
+    if (problem) {
+      const { error: quarantineError } = await serviceClient.storage
+        .from(QUARANTINE_BUCKET)
+        .upload(document.file_path, bytes, { contentType: 'application/octet-stream', upsert: true });
+
+      if (quarantineError) throw quarantineError;
+
+      const { count: sharedCount, error: sharedError } = await serviceClient
+        .from('application_documents')
+        .select('id', { count: 'exact', head: true })
+        .eq('file_path', document.file_path)
+        .neq('id', document.id);
+
+      if (sharedError) throw sharedError;
+
+      if (!sharedCount) {
+        const { error: removeError } = await serviceClient.storage
+          .from(DOCUMENTS_BUCKET)
+          .remove([document.file_path]);
+
+        if (removeError) throw removeError;
+      }
+    }
+
+    const { data: updated, error: updateError } = await serviceClient
+      .from('application_documents')
+      .update(
+        problem
+          ? {
+              scan_status: 'quarantined',
+              scan_detail: problem,
+              scanned_at: new Date().toISOString(),
+              verification_status: 'rejected',
+              rejection_reason: problem,
+              verified_by: null,
+              verified_at: new Date().toISOString(),
+            }
+          : { scan_status: 'clean', scan_detail: null, scanned_at: new Date().toISOString() }
+      )
+      .eq('id', document.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    return json({ document: updated });
+  } catch (error) {
+    console.error('Error scanning document:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to scan document' }, 500);
+  }
+});
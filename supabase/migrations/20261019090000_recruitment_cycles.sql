@@ -0,0 +1,108 @@
+-- Recruitment cycles (intake windows) for tutor applications
+-- Every application belongs to exactly one cycle, and submissions are only
+-- accepted while that cycle is open and inside its opens_at/closes_at window.
+
+-- Create enum for cycle status
+CREATE TYPE public.cycle_status AS ENUM ('draft', 'open', 'closed', 'archived');
+
+-- Create recruitment cycles table
+CREATE TABLE public.recruitment_cycles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  academic_year INTEGER NOT NULL,
+  semester SMALLINT NOT NULL CHECK (semester IN (1, 2)),
+  opens_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status public.cycle_status NOT NULL DEFAULT 'draft',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (closes_at > opens_at),
+  UNIQUE (academic_year, semester)
+);
+
+ALTER TABLE public.recruitment_cycles ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_recruitment_cycles_updated_at
+  BEFORE UPDATE ON public.recruitment_cycles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Backfill one closed cycle per semester that already has applications,
+-- so existing rows keep their history instead of being deleted
+INSERT INTO public.recruitment_cycles (name, academic_year, semester, opens_at, closes_at, status)
+SELECT
+  academic_year || ' Semester ' || semester,
+  academic_year,
+  semester,
+  make_timestamptz(academic_year, CASE WHEN semester = 1 THEN 1 ELSE 7 END, 1, 0, 0, 0),
+  make_timestamptz(academic_year, CASE WHEN semester = 1 THEN 6 ELSE 12 END, CASE WHEN semester = 1 THEN 30 ELSE 31 END, 23, 59, 59),
+  'closed'
+FROM (
+  SELECT DISTINCT
+    EXTRACT(YEAR FROM created_at)::INTEGER AS academic_year,
+    CASE WHEN EXTRACT(MONTH FROM created_at) <= 6 THEN 1 ELSE 2 END::SMALLINT AS semester
+  FROM public.tutor_applications
+) AS existing_semesters;
+
+-- Link applications to their cycle
+ALTER TABLE public.tutor_applications
+  ADD COLUMN cycle_id UUID REFERENCES public.recruitment_cycles(id);
+
+UPDATE public.tutor_applications AS ta
+SET cycle_id = rc.id
+FROM public.recruitment_cycles AS rc
+WHERE rc.academic_year = EXTRACT(YEAR FROM ta.created_at)::INTEGER
+  AND rc.semester = CASE WHEN EXTRACT(MONTH FROM ta.created_at) <= 6 THEN 1 ELSE 2 END;
+
+ALTER TABLE public.tutor_applications
+  ALTER COLUMN cycle_id SET NOT NULL;
+
+CREATE INDEX tutor_applications_cycle_id_idx ON public.tutor_applications (cycle_id);
+
+-- Create function to check whether a cycle is currently accepting submissions
+CREATE OR REPLACE FUNCTION public.is_cycle_open(_cycle_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.recruitment_cycles
+    WHERE id = _cycle_id
+      AND status = 'open'
+      AND now() >= opens_at
+      AND now() < closes_at
+  )
+$$;
+
+-- Refuse submissions (draft -> pending) outside an open window
+CREATE OR REPLACE FUNCTION public.enforce_cycle_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending'
+     AND (TG_OP = 'INSERT' OR OLD.status = 'draft')
+     AND NOT public.is_cycle_open(NEW.cycle_id) THEN
+    RAISE EXCEPTION 'Applications for this recruitment cycle are closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_application_cycle_window
+  BEFORE INSERT OR UPDATE OF status ON public.tutor_applications
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_cycle_window();
+
+-- RLS Policies for recruitment_cycles
+CREATE POLICY "Authenticated users can view recruitment cycles"
+  ON public.recruitment_cycles FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage recruitment cycles"
+  ON public.recruitment_cycles FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,49 @@
+-- Structured weekly availability
+-- availability becomes a JSONB array of slots, e.g.
+--   [{"weekday": 2, "start": "14:00", "end": "16:00"}]
+-- where weekday follows ISO numbering (1 = Monday ... 7 = Sunday).
+-- Whatever prose applicants already entered is kept in availability_notes.
+
+ALTER TABLE public.tutor_applications
+  ADD COLUMN availability_notes TEXT;
+
+-- Older rows may still hold the stringified {"description": "..."} object
+-- from before availability was converted to TEXT. Anything that looks like
+-- one but does not parse is kept as prose rather than failing the migration.
+CREATE FUNCTION public.legacy_availability_notes(_value TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _value ~ '^\s*\{.*"description"' THEN
+    BEGIN
+      RETURN _value::jsonb ->> 'description';
+    EXCEPTION WHEN invalid_text_representation THEN
+      NULL;
+    END;
+  END IF;
+  RETURN NULLIF(btrim(_value), '');
+END;
+$$;
+
+UPDATE public.tutor_applications
+SET availability_notes = public.legacy_availability_notes(availability);
+
+DROP FUNCTION public.legacy_availability_notes(TEXT);
+
+ALTER TABLE public.tutor_applications
+  ALTER COLUMN availability DROP DEFAULT;
+
+ALTER TABLE public.tutor_applications
+  ALTER COLUMN availability TYPE JSONB USING '[]'::jsonb;
+
+ALTER TABLE public.tutor_applications
+  ALTER COLUMN availability SET DEFAULT '[]'::jsonb,
+  ALTER COLUMN availability SET NOT NULL,
+  ADD CONSTRAINT tutor_applications_availability_is_array
+    CHECK (jsonb_typeof(availability) = 'array');
+
+CREATE INDEX tutor_applications_availability_idx
+  ON public.tutor_applications USING GIN (availability jsonb_path_ops);
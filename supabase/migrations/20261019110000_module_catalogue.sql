@@ -0,0 +1,123 @@
+-- Module catalogue replacing the comma-separated subjects fields
+-- Applicants pick modules from the catalogue; their choices live in
+-- application_modules. The old subjects_completed/subjects_to_tutor TEXT
+-- columns are kept as a read-only snapshot of the selected module codes.
+
+-- Create enum for how an application relates to a module
+CREATE TYPE public.application_module_relation AS ENUM ('completed', 'tutor');
+
+-- Create modules table
+CREATE TABLE public.modules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  faculty TEXT NOT NULL,
+  department TEXT NOT NULL,
+  year_level SMALLINT NOT NULL CHECK (year_level BETWEEN 1 AND 7),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- "MAT 112", "mat112" and "MAT112" are the same module
+CREATE UNIQUE INDEX modules_code_key
+  ON public.modules (upper(replace(code, ' ', '')));
+
+CREATE TRIGGER update_modules_updated_at
+  BEFORE UPDATE ON public.modules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create application modules join table
+CREATE TABLE public.application_modules (
+  application_id UUID REFERENCES public.tutor_applications(id) ON DELETE CASCADE NOT NULL,
+  module_id UUID REFERENCES public.modules(id) ON DELETE RESTRICT NOT NULL,
+  relation public.application_module_relation NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (application_id, module_id, relation)
+);
+
+CREATE INDEX application_modules_module_id_idx
+  ON public.application_modules (module_id, relation);
+
+-- Enable RLS
+ALTER TABLE public.modules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.application_modules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for modules
+CREATE POLICY "Authenticated users can view modules"
+  ON public.modules FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage modules"
+  ON public.modules FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for application_modules
+CREATE POLICY "Students can view own application modules"
+  ON public.application_modules FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can insert own application modules"
+  ON public.application_modules FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND user_id = auth.uid() AND status IN ('draft', 'pending')
+    )
+  );
+
+CREATE POLICY "Students can delete own application modules"
+  ON public.application_modules FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND user_id = auth.uid() AND status IN ('draft', 'pending')
+    )
+  );
+
+CREATE POLICY "Admins can view all application modules"
+  ON public.application_modules FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Replace an application's module selection in one transaction
+-- _modules is a JSON array of {"module_id": "...", "relation": "completed" | "tutor"}
+CREATE OR REPLACE FUNCTION public.set_application_modules(_application_id UUID, _modules JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.application_modules
+  WHERE application_id = _application_id;
+
+  INSERT INTO public.application_modules (application_id, module_id, relation)
+  SELECT
+    _application_id,
+    (item ->> 'module_id')::UUID,
+    (item ->> 'relation')::public.application_module_relation
+  FROM jsonb_array_elements(_modules) AS item
+  ON CONFLICT DO NOTHING;
+
+  -- Keep the legacy TEXT columns readable for older views and exports
+  UPDATE public.tutor_applications
+  SET
+    subjects_completed = (
+      SELECT string_agg(m.code, ', ' ORDER BY m.code)
+      FROM public.application_modules am
+      JOIN public.modules m ON m.id = am.module_id
+      WHERE am.application_id = _application_id AND am.relation = 'completed'
+    ),
+    subjects_to_tutor = (
+      SELECT string_agg(m.code, ', ' ORDER BY m.code)
+      FROM public.application_modules am
+      JOIN public.modules m ON m.id = am.module_id
+      WHERE am.application_id = _application_id AND am.relation = 'tutor'
+    )
+  WHERE id = _application_id;
+END;
+$$;
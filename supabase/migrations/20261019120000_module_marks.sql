@@ -0,0 +1,97 @@
+-- Per-module marks and minimum-grade thresholds
+-- Applicants record the final mark for each module they want to tutor.
+-- Thresholds resolve from most to least specific: module, then department,
+-- then the global default (a row with neither module_id nor department).
+
+ALTER TABLE public.application_modules
+  ADD COLUMN mark NUMERIC(5,2) CHECK (mark BETWEEN 0 AND 100),
+  ADD CONSTRAINT application_modules_mark_for_tutor_only
+    CHECK (relation = 'tutor' OR mark IS NULL);
+
+-- Create mark thresholds table
+CREATE TABLE public.mark_thresholds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  module_id UUID REFERENCES public.modules(id) ON DELETE CASCADE UNIQUE,
+  department TEXT UNIQUE,
+  min_mark NUMERIC(5,2) NOT NULL CHECK (min_mark BETWEEN 0 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT mark_thresholds_single_scope CHECK (module_id IS NULL OR department IS NULL)
+);
+
+-- Only one global default
+CREATE UNIQUE INDEX mark_thresholds_default_key
+  ON public.mark_thresholds ((true))
+  WHERE module_id IS NULL AND department IS NULL;
+
+CREATE TRIGGER update_mark_thresholds_updated_at
+  BEFORE UPDATE ON public.mark_thresholds
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.mark_thresholds (min_mark) VALUES (65);
+
+-- Enable RLS
+ALTER TABLE public.mark_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view mark thresholds"
+  ON public.mark_thresholds FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage mark thresholds"
+  ON public.mark_thresholds FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Minimum mark that applies to a module, or NULL when nothing is configured
+CREATE OR REPLACE FUNCTION public.get_module_threshold(_module_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.min_mark
+  FROM public.mark_thresholds t
+  LEFT JOIN public.modules m ON m.id = _module_id
+  WHERE t.module_id = _module_id
+     OR (t.module_id IS NULL AND t.department = m.department)
+     OR (t.module_id IS NULL AND t.department IS NULL)
+  ORDER BY (t.module_id IS NOT NULL) DESC, (t.department IS NOT NULL) DESC
+  LIMIT 1
+$$;
+
+-- Accept an optional "mark" on each tutor entry
+CREATE OR REPLACE FUNCTION public.set_application_modules(_application_id UUID, _modules JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.application_modules
+  WHERE application_id = _application_id;
+
+  INSERT INTO public.application_modules (application_id, module_id, relation, mark)
+  SELECT
+    _application_id,
+    (item ->> 'module_id')::UUID,
+    (item ->> 'relation')::public.application_module_relation,
+    CASE WHEN item ->> 'relation' = 'tutor' THEN (item ->> 'mark')::NUMERIC END
+  FROM jsonb_array_elements(_modules) AS item
+  ON CONFLICT DO NOTHING;
+
+  -- Keep the legacy TEXT columns readable for older views and exports
+  UPDATE public.tutor_applications
+  SET
+    subjects_completed = (
+      SELECT string_agg(m.code, ', ' ORDER BY m.code)
+      FROM public.application_modules am
+      JOIN public.modules m ON m.id = am.module_id
+      WHERE am.application_id = _application_id AND am.relation = 'completed'
+    ),
+    subjects_to_tutor = (
+      SELECT string_agg(m.code, ', ' ORDER BY m.code)
+      FROM public.application_modules am
+      JOIN public.modules m ON m.id = am.module_id
+      WHERE am.application_id = _application_id AND am.relation = 'tutor'
+    )
+  WHERE id = _application_id;
+END;
+$$;
@@ -0,0 +1,199 @@
+-- Rule-based eligibility
+-- Each rule type has one configurable row. Rules are evaluated whenever an
+-- application is pending, and the outcome is stored in eligibility_results
+-- as a JSON array of {"rule_type", "passed", "details"} objects.
+-- src/lib/eligibility.ts mirrors this logic for the Apply review step.
+
+-- Applicants declare the academic year they are registered for
+ALTER TABLE public.tutor_applications
+  ADD COLUMN registration_year SMALLINT;
+
+-- Create enum for rule types
+CREATE TYPE public.eligibility_rule_type AS ENUM (
+  'min_year_of_study',
+  'current_registration',
+  'min_module_mark',
+  'required_documents',
+  'age_range'
+);
+
+-- Create eligibility rules table
+CREATE TABLE public.eligibility_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_type public.eligibility_rule_type NOT NULL UNIQUE,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(params) = 'object'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_eligibility_rules_updated_at
+  BEFORE UPDATE ON public.eligibility_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.eligibility_rules (rule_type, params) VALUES
+  ('min_year_of_study', '{"min": 2}'),
+  ('current_registration', '{}'),
+  ('min_module_mark', '{}'),
+  ('required_documents', '{"document_types": ["certified_id", "academic_transcript", "cv", "proof_of_registration"]}'),
+  ('age_range', '{"min": 18, "max": 35}');
+
+-- Create eligibility results table
+CREATE TABLE public.eligibility_results (
+  application_id UUID PRIMARY KEY REFERENCES public.tutor_applications(id) ON DELETE CASCADE,
+  passed BOOLEAN NOT NULL,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  evaluated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.eligibility_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.eligibility_results ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for eligibility_rules
+CREATE POLICY "Authenticated users can view eligibility rules"
+  ON public.eligibility_rules FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage eligibility rules"
+  ON public.eligibility_rules FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for eligibility_results (written only by evaluate_eligibility)
+CREATE POLICY "Students can view own eligibility results"
+  ON public.eligibility_results FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all eligibility results"
+  ON public.eligibility_results FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Evaluate every active rule against an application and store the outcome
+CREATE OR REPLACE FUNCTION public.evaluate_eligibility(_application_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  app public.tutor_applications%ROWTYPE;
+  cycle_year INTEGER;
+  rule RECORD;
+  outcome JSONB;
+  outcomes JSONB := '[]'::jsonb;
+  all_passed BOOLEAN := true;
+  rule_passed BOOLEAN;
+  min_value INTEGER;
+  max_value INTEGER;
+  applicant_age INTEGER;
+  failing_codes JSONB;
+  missing_types JSONB;
+BEGIN
+  SELECT * INTO app FROM public.tutor_applications WHERE id = _application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application % not found', _application_id;
+  END IF;
+
+  IF app.user_id <> auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to evaluate this application';
+  END IF;
+
+  SELECT academic_year INTO cycle_year FROM public.recruitment_cycles WHERE id = app.cycle_id;
+
+  FOR rule IN
+    SELECT rule_type, params FROM public.eligibility_rules
+    WHERE is_active
+    ORDER BY rule_type
+  LOOP
+    CASE rule.rule_type
+      WHEN 'min_year_of_study' THEN
+        min_value := COALESCE((rule.params ->> 'min')::INTEGER, 1);
+        rule_passed := COALESCE(app.year_of_study >= min_value, false);
+        outcome := jsonb_build_object('actual', app.year_of_study, 'min', min_value);
+
+      WHEN 'current_registration' THEN
+        rule_passed := COALESCE(app.registration_year = cycle_year, false);
+        outcome := jsonb_build_object('actual', app.registration_year, 'expected', cycle_year);
+
+      WHEN 'min_module_mark' THEN
+        SELECT COALESCE(jsonb_agg(m.code ORDER BY m.code), '[]'::jsonb)
+        INTO failing_codes
+        FROM public.application_modules am
+        JOIN public.modules m ON m.id = am.module_id
+        WHERE am.application_id = _application_id
+          AND am.relation = 'tutor'
+          AND (am.mark IS NULL OR am.mark < COALESCE(public.get_module_threshold(am.module_id), 0));
+
+        rule_passed := jsonb_array_length(failing_codes) = 0
+          AND EXISTS (
+            SELECT 1 FROM public.application_modules
+            WHERE application_id = _application_id AND relation = 'tutor'
+          );
+        outcome := jsonb_build_object('failing', failing_codes);
+
+      WHEN 'required_documents' THEN
+        SELECT COALESCE(jsonb_agg(required.type), '[]'::jsonb)
+        INTO missing_types
+        FROM jsonb_array_elements_text(COALESCE(rule.params -> 'document_types', '[]'::jsonb)) AS required(type)
+        WHERE NOT EXISTS (
+          SELECT 1 FROM public.application_documents d
+          WHERE d.application_id = _application_id AND d.document_type = required.type
+        );
+
+        rule_passed := jsonb_array_length(missing_types) = 0;
+        outcome := jsonb_build_object('missing', missing_types);
+
+      WHEN 'age_range' THEN
+        min_value := (rule.params ->> 'min')::INTEGER;
+        max_value := (rule.params ->> 'max')::INTEGER;
+        applicant_age := date_part('year', age(current_date, app.date_of_birth))::INTEGER;
+        rule_passed := applicant_age IS NOT NULL
+          AND (min_value IS NULL OR applicant_age >= min_value)
+          AND (max_value IS NULL OR applicant_age <= max_value);
+        outcome := jsonb_build_object('actual', applicant_age, 'min', min_value, 'max', max_value);
+    END CASE;
+
+    all_passed := all_passed AND rule_passed;
+    outcomes := outcomes || jsonb_build_array(jsonb_build_object(
+      'rule_type', rule.rule_type,
+      'passed', rule_passed,
+      'details', outcome
+    ));
+  END LOOP;
+
+  INSERT INTO public.eligibility_results (application_id, passed, results, evaluated_at)
+  VALUES (_application_id, all_passed, outcomes, now())
+  ON CONFLICT (application_id) DO UPDATE
+  SET passed = EXCLUDED.passed,
+      results = EXCLUDED.results,
+      evaluated_at = EXCLUDED.evaluated_at;
+
+  RETURN outcomes;
+END;
+$$;
+
+-- Evaluate when an application is submitted and while it remains pending.
+-- set_application_modules updates the row after saving marks, so module
+-- changes on a pending application are re-checked as well.
+CREATE OR REPLACE FUNCTION public.evaluate_eligibility_on_submit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' THEN
+    PERFORM public.evaluate_eligibility(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER evaluate_eligibility_on_submit
+  AFTER INSERT OR UPDATE ON public.tutor_applications
+  FOR EACH ROW EXECUTE FUNCTION public.evaluate_eligibility_on_submit();
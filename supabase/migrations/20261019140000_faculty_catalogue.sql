@@ -0,0 +1,181 @@
+-- Faculty and department catalogue replacing the hardcoded form lists
+-- Applications reference faculty_id/department_id. The faculty/department
+-- TEXT columns are kept as a snapshot of the current names, filled in by
+-- trigger so existing readers keep working and renames carry through.
+
+-- Create faculties table
+CREATE TABLE public.faculties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_faculties_updated_at
+  BEFORE UPDATE ON public.faculties
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create departments table
+CREATE TABLE public.departments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  faculty_id UUID REFERENCES public.faculties(id) ON DELETE RESTRICT NOT NULL,
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (faculty_id, name)
+);
+
+CREATE TRIGGER update_departments_updated_at
+  BEFORE UPDATE ON public.departments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed with the lists previously hardcoded in the application form
+INSERT INTO public.faculties (name) VALUES
+  ('Faculty of Education'),
+  ('Faculty of Health Sciences'),
+  ('Faculty of Law'),
+  ('Faculty of Management and Commerce'),
+  ('Faculty of Science and Agriculture'),
+  ('Faculty of Social Sciences and Humanities');
+
+INSERT INTO public.departments (faculty_id, name)
+SELECT f.id, d.name
+FROM (VALUES
+  ('Faculty of Education', 'Educational Foundations'),
+  ('Faculty of Education', 'Educational Psychology'),
+  ('Faculty of Education', 'Curriculum Studies'),
+  ('Faculty of Health Sciences', 'Human Movement Science'),
+  ('Faculty of Health Sciences', 'Nursing Science'),
+  ('Faculty of Health Sciences', 'Pharmacy'),
+  ('Faculty of Law', 'Mercantile Law'),
+  ('Faculty of Law', 'Private Law'),
+  ('Faculty of Law', 'Public Law'),
+  ('Faculty of Management and Commerce', 'Accounting'),
+  ('Faculty of Management and Commerce', 'Business Management'),
+  ('Faculty of Management and Commerce', 'Economics'),
+  ('Faculty of Management and Commerce', 'Industrial Psychology'),
+  ('Faculty of Science and Agriculture', 'Agricultural Economics'),
+  ('Faculty of Science and Agriculture', 'Biochemistry'),
+  ('Faculty of Science and Agriculture', 'Computer Science'),
+  ('Faculty of Science and Agriculture', 'Mathematics'),
+  ('Faculty of Science and Agriculture', 'Physics'),
+  ('Faculty of Science and Agriculture', 'Chemistry'),
+  ('Faculty of Science and Agriculture', 'Statistics'),
+  ('Faculty of Social Sciences and Humanities', 'Anthropology'),
+  ('Faculty of Social Sciences and Humanities', 'Communication'),
+  ('Faculty of Social Sciences and Humanities', 'History'),
+  ('Faculty of Social Sciences and Humanities', 'Philosophy'),
+  ('Faculty of Social Sciences and Humanities', 'Political Science'),
+  ('Faculty of Social Sciences and Humanities', 'Psychology'),
+  ('Faculty of Social Sciences and Humanities', 'Sociology')
+) AS d(faculty, name)
+JOIN public.faculties f ON f.name = d.faculty;
+
+-- Reference the catalogue from applications
+ALTER TABLE public.tutor_applications
+  ADD COLUMN faculty_id UUID REFERENCES public.faculties(id) ON DELETE RESTRICT,
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE RESTRICT;
+
+-- The snapshot columns are filled in from the ids
+ALTER TABLE public.tutor_applications
+  ALTER COLUMN faculty SET DEFAULT '',
+  ALTER COLUMN department SET DEFAULT '';
+
+CREATE INDEX tutor_applications_faculty_id_idx
+  ON public.tutor_applications (faculty_id);
+
+-- Link existing applications whose free-text names match the catalogue
+UPDATE public.tutor_applications a
+SET faculty_id = f.id
+FROM public.faculties f
+WHERE f.name = a.faculty;
+
+UPDATE public.tutor_applications a
+SET department_id = d.id
+FROM public.departments d
+WHERE d.faculty_id = a.faculty_id AND d.name = a.department;
+
+-- Enable RLS
+ALTER TABLE public.faculties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for faculties
+CREATE POLICY "Authenticated users can view faculties"
+  ON public.faculties FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage faculties"
+  ON public.faculties FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for departments
+CREATE POLICY "Authenticated users can view departments"
+  ON public.departments FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage departments"
+  ON public.departments FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Keep the faculty/department names on an application in step with its ids
+CREATE OR REPLACE FUNCTION public.set_application_faculty_names()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.department_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.departments
+      WHERE id = NEW.department_id AND faculty_id = NEW.faculty_id
+    ) THEN
+      RAISE EXCEPTION 'Department does not belong to the selected faculty';
+    END IF;
+  END IF;
+
+  IF NEW.faculty_id IS NOT NULL THEN
+    SELECT name INTO NEW.faculty FROM public.faculties WHERE id = NEW.faculty_id;
+  END IF;
+
+  IF NEW.department_id IS NOT NULL THEN
+    SELECT name INTO NEW.department FROM public.departments WHERE id = NEW.department_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_application_faculty_names
+  BEFORE INSERT OR UPDATE OF faculty_id, department_id ON public.tutor_applications
+  FOR EACH ROW EXECUTE FUNCTION public.set_application_faculty_names();
+
+-- Carry renames through to the applications that reference them
+CREATE OR REPLACE FUNCTION public.propagate_faculty_rename()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'faculties' THEN
+    UPDATE public.tutor_applications SET faculty = NEW.name WHERE faculty_id = NEW.id;
+  ELSE
+    UPDATE public.tutor_applications SET department = NEW.name WHERE department_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER propagate_faculty_rename
+  AFTER UPDATE OF name ON public.faculties
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.propagate_faculty_rename();
+
+CREATE TRIGGER propagate_department_rename
+  AFTER UPDATE OF name ON public.departments
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.propagate_faculty_rename();
@@ -0,0 +1,55 @@
+-- Configurable document requirements
+-- Each row describes one document type applicants can upload, the files it
+-- accepts, and who it applies to. A NULL faculty_id or applicant_category
+-- applies to everyone; otherwise the requirement only applies to matching
+-- applications. Optional documents are shown but not enforced.
+
+-- Create enum for applicant categories
+CREATE TYPE public.applicant_category AS ENUM ('local', 'international');
+
+-- Applicants declare their category on the form
+ALTER TABLE public.tutor_applications
+  ADD COLUMN applicant_category public.applicant_category NOT NULL DEFAULT 'local';
+
+-- Create document requirements table
+CREATE TABLE public.document_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_type TEXT NOT NULL UNIQUE CHECK (document_type ~ '^[a-z][a-z0-9_]*$'),
+  label TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  allowed_mime_types TEXT[] NOT NULL DEFAULT ARRAY['application/pdf', 'image/jpeg', 'image/png']
+    CHECK (cardinality(allowed_mime_types) > 0),
+  -- The storage bucket rejects anything over 10MB regardless
+  max_size_mb SMALLINT NOT NULL DEFAULT 5 CHECK (max_size_mb BETWEEN 1 AND 10),
+  is_required BOOLEAN NOT NULL DEFAULT true,
+  faculty_id UUID REFERENCES public.faculties(id) ON DELETE CASCADE,
+  applicant_category public.applicant_category,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_document_requirements_updated_at
+  BEFORE UPDATE ON public.document_requirements
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed with the documents previously hardcoded in the application form
+INSERT INTO public.document_requirements (document_type, label, description, sort_order, applicant_category) VALUES
+  ('certified_id', 'Certified ID Copy', 'Must be certified within the last 3 months', 1, NULL),
+  ('academic_transcript', 'Academic Transcript', 'Official UFH transcript', 2, NULL),
+  ('cv', 'CV / Resume', 'PDF format preferred', 3, NULL),
+  ('proof_of_registration', 'Proof of Registration', 'Current year registration', 4, NULL),
+  ('study_permit', 'Study Permit', 'Valid South African study permit', 5, 'international');
+
+-- Enable RLS
+ALTER TABLE public.document_requirements ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for document_requirements
+CREATE POLICY "Authenticated users can view document requirements"
+  ON public.document_requirements FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage document requirements"
+  ON public.document_requirements FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,73 @@
+-- Document version history
+-- Re-uploading a document adds a new row instead of replacing the old one.
+-- Each upload is stored at its own path, gets the next version number for
+-- its application and document type, and becomes the current version.
+
+ALTER TABLE public.application_documents
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN is_current BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN superseded_at TIMESTAMP WITH TIME ZONE;
+
+-- Number any existing duplicates oldest first and keep only the latest current
+WITH numbered AS (
+  SELECT
+    id,
+    row_number() OVER (PARTITION BY application_id, document_type ORDER BY uploaded_at) AS version,
+    row_number() OVER (PARTITION BY application_id, document_type ORDER BY uploaded_at DESC) = 1 AS is_latest
+  FROM public.application_documents
+)
+UPDATE public.application_documents d
+SET
+  version = numbered.version,
+  is_current = numbered.is_latest,
+  superseded_at = CASE WHEN numbered.is_latest THEN NULL ELSE d.uploaded_at END
+FROM numbered
+WHERE numbered.id = d.id;
+
+ALTER TABLE public.application_documents
+  ADD CONSTRAINT application_documents_version_key UNIQUE (application_id, document_type, version);
+
+CREATE UNIQUE INDEX application_documents_current_idx
+  ON public.application_documents (application_id, document_type)
+  WHERE is_current;
+
+-- Give each upload the next version and supersede the previous current one
+CREATE OR REPLACE FUNCTION public.version_application_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.application_documents
+  WHERE application_id = NEW.application_id AND document_type = NEW.document_type;
+
+  UPDATE public.application_documents
+  SET is_current = false, superseded_at = now()
+  WHERE application_id = NEW.application_id
+    AND document_type = NEW.document_type
+    AND is_current;
+
+  NEW.is_current := true;
+  NEW.superseded_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER version_application_document
+  BEFORE INSERT ON public.application_documents
+  FOR EACH ROW EXECUTE FUNCTION public.version_application_document();
+
+-- History is kept once an application leaves draft
+DROP POLICY "Users can delete own documents" ON public.application_documents;
+
+CREATE POLICY "Users can delete own draft documents"
+  ON public.application_documents FOR DELETE
+  USING (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND status = 'draft'
+    )
+  );
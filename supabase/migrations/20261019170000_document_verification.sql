@@ -0,0 +1,74 @@
+-- Per-document verification
+-- Reviewers mark each uploaded version as verified or rejected. A rejected
+-- document needs a reason, which the student sees on their dashboard. A new
+-- upload starts unverified, and an application cannot be approved until
+-- every required document that applies to it has a verified current version.
+
+-- Create enum for verification states
+CREATE TYPE public.document_verification_status AS ENUM ('unverified', 'verified', 'rejected');
+
+ALTER TABLE public.application_documents
+  ADD COLUMN verification_status public.document_verification_status NOT NULL DEFAULT 'unverified',
+  ADD COLUMN verified_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN verified_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN rejection_reason TEXT,
+  ADD CONSTRAINT application_documents_rejection_reason_check
+    CHECK (verification_status <> 'rejected' OR NULLIF(btrim(rejection_reason), '') IS NOT NULL);
+
+-- Reviewers record verification on documents
+CREATE POLICY "Admins can verify documents"
+  ON public.application_documents FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Labels of required documents that apply to an application but have no
+-- verified current version
+CREATE OR REPLACE FUNCTION public.get_unverified_required_documents(_application_id UUID)
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.label
+  FROM public.tutor_applications a
+  JOIN public.document_requirements r
+    ON r.is_active
+   AND r.is_required
+   AND (r.faculty_id IS NULL OR r.faculty_id = a.faculty_id)
+   AND (r.applicant_category IS NULL OR r.applicant_category = a.applicant_category)
+  WHERE a.id = _application_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.application_documents d
+      WHERE d.application_id = a.id
+        AND d.document_type = r.document_type
+        AND d.is_current
+        AND d.verification_status = 'verified'
+    )
+  ORDER BY r.sort_order, r.label
+$$;
+
+-- Block approval while required documents are unverified
+CREATE OR REPLACE FUNCTION public.check_documents_verified()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _unverified TEXT;
+BEGIN
+  SELECT string_agg(label, ', ') INTO _unverified
+  FROM public.get_unverified_required_documents(NEW.id) AS label;
+
+  IF _unverified IS NOT NULL THEN
+    RAISE EXCEPTION 'Verify all required documents before approving. Unverified: %', _unverified;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_documents_verified
+  BEFORE UPDATE OF status ON public.tutor_applications
+  FOR EACH ROW
+  WHEN (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved')
+  EXECUTE FUNCTION public.check_documents_verified();
@@ -0,0 +1,73 @@
+-- Server-side content checks for uploaded documents
+-- Browsers report a file's type from its extension, so every upload starts
+-- as 'pending' and the scan-document edge function compares the stored
+-- object's leading bytes with the declared MIME type. Mismatched, encrypted
+-- or malformed files are moved to the private document-quarantine bucket,
+-- marked 'quarantined' and rejected so the student re-uploads. Admins can
+-- only read objects that scanned clean.
+-- Documents uploaded before this migration are scanned the first time a
+-- reviewer opens them.
+
+-- Create enum for scan states
+CREATE TYPE public.document_scan_status AS ENUM ('pending', 'clean', 'quarantined');
+
+ALTER TABLE public.application_documents
+  ADD COLUMN scan_status public.document_scan_status NOT NULL DEFAULT 'pending',
+  ADD COLUMN scan_detail TEXT,
+  ADD COLUMN scanned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX application_documents_file_path_idx ON public.application_documents (file_path);
+
+-- Quarantined objects are only reachable with the service role
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('document-quarantine', 'document-quarantine', false, 10485760);
+
+-- Scan results are written only by the edge function (service role)
+CREATE OR REPLACE FUNCTION public.protect_document_scan_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.scan_status := 'pending';
+    NEW.scan_detail := NULL;
+    NEW.scanned_at := NULL;
+  ELSIF NEW.scan_status IS DISTINCT FROM OLD.scan_status
+     OR NEW.scan_detail IS DISTINCT FROM OLD.scan_detail
+     OR NEW.scanned_at IS DISTINCT FROM OLD.scanned_at THEN
+    RAISE EXCEPTION 'Document scan results cannot be changed directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_document_scan_status
+  BEFORE INSERT OR UPDATE ON public.application_documents
+  FOR EACH ROW EXECUTE FUNCTION public.protect_document_scan_status();
+
+-- Only clean documents can be verified. A quarantined document is also
+-- rejected, with the scan detail as the reason the student sees. Existing
+-- verified rows are left to be rescanned.
+ALTER TABLE public.application_documents
+  ADD CONSTRAINT application_documents_verified_scan_check
+    CHECK (verification_status <> 'verified' OR scan_status = 'clean') NOT VALID;
+
+-- Admins can only open objects that passed the content check
+DROP POLICY "Admins can view all documents" ON storage.objects;
+
+CREATE POLICY "Admins can view scanned documents"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'application-documents' AND
+    public.has_role(auth.uid(), 'admin') AND
+    EXISTS (
+      SELECT 1 FROM public.application_documents d
+      WHERE d.file_path = name AND d.scan_status = 'clean'
+    )
+  );
@@ -0,0 +1,87 @@
+-- Application status history
+-- Every change to tutor_applications.status is recorded by a trigger with
+-- the previous and new status, who made the change and, for rejections,
+-- the reason. The table is append-only: nothing but the trigger writes to it.
+
+-- Create status events table
+CREATE TABLE public.application_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.tutor_applications(id) ON DELETE CASCADE,
+  from_status public.application_status,
+  to_status public.application_status NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX application_status_events_application_idx
+  ON public.application_status_events (application_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.application_status_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for application_status_events (written only by the trigger)
+CREATE POLICY "Students can view own status events"
+  ON public.application_status_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all status events"
+  ON public.application_status_events FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Record creation and every status change
+CREATE OR REPLACE FUNCTION public.record_application_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.application_status_events (application_id, from_status, to_status, actor_id, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    COALESCE(auth.uid(), NEW.user_id),
+    CASE WHEN NEW.status = 'rejected' THEN NEW.rejection_reason END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_application_status_event
+  AFTER INSERT OR UPDATE OF status ON public.tutor_applications
+  FOR EACH ROW EXECUTE FUNCTION public.record_application_status_event();
+
+-- Backfill from the timestamps existing applications already carry.
+-- Steps between submission and the latest review were not recorded before
+-- this migration and cannot be recovered.
+INSERT INTO public.application_status_events (application_id, from_status, to_status, actor_id, created_at)
+SELECT id, NULL, 'draft', user_id, created_at
+FROM public.tutor_applications;
+
+INSERT INTO public.application_status_events (application_id, from_status, to_status, actor_id, created_at)
+SELECT id, 'draft', 'pending', user_id, submitted_at
+FROM public.tutor_applications
+WHERE submitted_at IS NOT NULL;
+
+INSERT INTO public.application_status_events (application_id, from_status, to_status, actor_id, reason, created_at)
+SELECT
+  id,
+  'pending',
+  status,
+  reviewed_by,
+  CASE WHEN status = 'rejected' THEN rejection_reason END,
+  COALESCE(reviewed_at, updated_at)
+FROM public.tutor_applications
+WHERE status IN ('under_review', 'approved', 'rejected');
@@ -0,0 +1,5 @@
+-- Withdrawn application status
+-- Added on its own because a new enum value cannot be used in the
+-- transaction that adds it. The rules for withdrawing follow in the next
+-- migration.
+ALTER TYPE public.application_status ADD VALUE IF NOT EXISTS 'withdrawn';
@@ -0,0 +1,95 @@
+-- Student withdrawal of a submitted application
+-- Applicants can pull out of a pending or under-review application with a
+-- reason instead of asking a reviewer to reject it. Only the owner can make
+-- the transition; reviewers cannot withdraw on their behalf and a withdrawn
+-- application cannot be reopened.
+
+-- Add withdrawal details to applications
+ALTER TABLE public.tutor_applications
+  ADD COLUMN withdrawn_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN withdrawal_reason TEXT;
+
+-- RLS Policies for withdrawal. The draft policy's check still allows
+-- pending, so the trigger below limits what an under-review row can become.
+CREATE POLICY "Students can withdraw own submitted applications"
+  ON public.tutor_applications FOR UPDATE
+  USING (auth.uid() = user_id AND status IN ('pending', 'under_review'))
+  WITH CHECK (auth.uid() = user_id AND status = 'withdrawn');
+
+-- Validate withdrawals and keep the rest of the application as submitted
+CREATE OR REPLACE FUNCTION public.enforce_application_withdrawal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _reason TEXT;
+BEGIN
+  IF OLD.status = 'withdrawn' AND NEW.status <> 'withdrawn' THEN
+    RAISE EXCEPTION 'A withdrawn application cannot be reopened'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'withdrawn' AND OLD.status <> 'withdrawn' THEN
+    IF auth.uid() IS DISTINCT FROM OLD.user_id OR OLD.status NOT IN ('pending', 'under_review') THEN
+      RAISE EXCEPTION 'Only the applicant can withdraw a submitted application'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    _reason := NULLIF(btrim(NEW.withdrawal_reason), '');
+    IF _reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required to withdraw an application'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW := OLD;
+    NEW.status := 'withdrawn';
+    NEW.withdrawal_reason := _reason;
+    NEW.withdrawn_at := now();
+    RETURN NEW;
+  END IF;
+
+  -- Applicants may only withdraw once a review has started
+  IF OLD.status = 'under_review'
+     AND NEW.status IS DISTINCT FROM OLD.status
+     AND auth.uid() = OLD.user_id
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'This application is being reviewed and can only be withdrawn'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_application_withdrawal
+  BEFORE UPDATE OF status ON public.tutor_applications
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_application_withdrawal();
+
+-- Record the withdrawal reason in the status history as well
+CREATE OR REPLACE FUNCTION public.record_application_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.application_status_events (application_id, from_status, to_status, actor_id, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    COALESCE(auth.uid(), NEW.user_id),
+    CASE
+      WHEN NEW.status = 'rejected' THEN NEW.rejection_reason
+      WHEN NEW.status = 'withdrawn' THEN NEW.withdrawal_reason
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
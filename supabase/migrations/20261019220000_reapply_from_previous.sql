@@ -0,0 +1,110 @@
+-- Reapply from a previous application
+-- A student whose application was rejected or withdrawn can start the next
+-- intake from a copy of it. The copy is a fresh draft in the open cycle with
+-- the personal, academic and experience answers and module selection. Cycle
+-- specific answers (registration year, availability, motivation letter) are
+-- left for the student to fill in. Documents that are still valid can be
+-- reused: the new rows point at the same stored file, start unverified and
+-- are checked again. The previous application is not changed.
+
+-- Link copies to what they were made from
+ALTER TABLE public.tutor_applications
+  ADD COLUMN previous_application_id UUID REFERENCES public.tutor_applications(id) ON DELETE SET NULL;
+
+ALTER TABLE public.application_documents
+  ADD COLUMN reused_from UUID REFERENCES public.application_documents(id) ON DELETE SET NULL;
+
+-- Create a draft in _cycle_id from one of the caller's earlier applications.
+-- Runs as the caller so the usual application and document policies apply.
+CREATE OR REPLACE FUNCTION public.clone_application(
+  _source_id UUID,
+  _cycle_id UUID,
+  _reuse_documents BOOLEAN DEFAULT true
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _source public.tutor_applications%ROWTYPE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _source
+  FROM public.tutor_applications
+  WHERE id = _source_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _source.status NOT IN ('rejected', 'withdrawn') THEN
+    RAISE EXCEPTION 'Only rejected or withdrawn applications can be used to apply again'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.is_cycle_open(_cycle_id) THEN
+    RAISE EXCEPTION 'Applications for this recruitment cycle are closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.tutor_applications
+    WHERE user_id = auth.uid() AND cycle_id = _cycle_id
+  ) THEN
+    RAISE EXCEPTION 'You already have an application for this recruitment cycle'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO public.tutor_applications (
+    user_id, cycle_id, previous_application_id, status,
+    full_name, student_number, date_of_birth, gender, nationality, applicant_category,
+    residential_address, contact_number, email,
+    degree_program, faculty, department, faculty_id, department_id, year_of_study,
+    subjects_completed, subjects_to_tutor,
+    previous_tutoring_experience, work_experience, skills_competencies, languages_spoken,
+    motivation_letter
+  )
+  VALUES (
+    _source.user_id, _cycle_id, _source.id, 'draft',
+    _source.full_name, _source.student_number, _source.date_of_birth, _source.gender, _source.nationality,
+    _source.applicant_category, _source.residential_address, _source.contact_number, _source.email,
+    _source.degree_program, _source.faculty, _source.department, _source.faculty_id, _source.department_id,
+    _source.year_of_study,
+    _source.subjects_completed, _source.subjects_to_tutor,
+    _source.previous_tutoring_experience, _source.work_experience, _source.skills_competencies,
+    _source.languages_spoken,
+    ''
+  )
+  RETURNING id INTO _new_id;
+
+  INSERT INTO public.application_modules (application_id, module_id, relation, mark)
+  SELECT _new_id, module_id, relation, mark
+  FROM public.application_modules
+  WHERE application_id = _source.id;
+
+  -- Current, clean, not rejected and, for certified copies, still within
+  -- the requirement's age limit
+  IF _reuse_documents THEN
+    INSERT INTO public.application_documents (
+      application_id, user_id, document_type, file_name, file_path, file_size, mime_type,
+      certified_at, uploaded_at, reused_from
+    )
+    SELECT
+      _new_id, d.user_id, d.document_type, d.file_name, d.file_path, d.file_size, d.mime_type,
+      d.certified_at, d.uploaded_at, d.id
+    FROM public.application_documents d
+    JOIN public.document_requirements r ON r.document_type = d.document_type AND r.is_active
+    WHERE d.application_id = _source.id
+      AND d.is_current
+      AND d.scan_status = 'clean'
+      AND d.verification_status <> 'rejected'
+      AND (
+        r.certification_max_age_days IS NULL OR
+        d.certified_at >= current_date - r.certification_max_age_days
+      );
+  END IF;
+
+  RETURN _new_id;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Interview application status
+-- Shortlisted applicants move from under_review to interview before a
+-- decision. Added on its own because a new enum value cannot be used in the
+-- transaction that adds it; scheduling follows in the next migration.
+ALTER TYPE public.application_status ADD VALUE IF NOT EXISTS 'interview' AFTER 'under_review';
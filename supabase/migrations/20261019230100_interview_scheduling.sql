@@ -0,0 +1,214 @@
+-- Interview scheduling
+-- Admins publish interview slots per recruitment cycle and applicants in the
+-- interview stage book one. A slot is either in person (venue) or online
+-- (meeting link) and takes up to `capacity` applicants. Booking goes through
+-- book_interview_slot so capacity is checked under a lock; admins record
+-- attendance and the interview outcome on the booking.
+
+-- Create enums for interview results
+CREATE TYPE public.interview_attendance AS ENUM ('scheduled', 'attended', 'no_show');
+CREATE TYPE public.interview_outcome AS ENUM ('recommended', 'not_recommended');
+
+-- Create interview slots table
+CREATE TABLE public.interview_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cycle_id UUID NOT NULL REFERENCES public.recruitment_cycles(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_minutes SMALLINT NOT NULL DEFAULT 20 CHECK (duration_minutes BETWEEN 5 AND 240),
+  venue TEXT,
+  meeting_url TEXT,
+  capacity SMALLINT NOT NULL DEFAULT 1 CHECK (capacity BETWEEN 1 AND 50),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT interview_slots_location_check CHECK (venue IS NOT NULL OR meeting_url IS NOT NULL)
+);
+
+CREATE INDEX interview_slots_cycle_idx ON public.interview_slots (cycle_id, starts_at);
+
+-- Create interview bookings table, one per application
+CREATE TABLE public.interview_bookings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id UUID NOT NULL REFERENCES public.interview_slots(id) ON DELETE RESTRICT,
+  application_id UUID NOT NULL UNIQUE REFERENCES public.tutor_applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attendance public.interview_attendance NOT NULL DEFAULT 'scheduled',
+  outcome public.interview_outcome,
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE,
+  booked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX interview_bookings_slot_idx ON public.interview_bookings (slot_id);
+
+-- Enable RLS
+ALTER TABLE public.interview_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interview_bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_interview_slots_updated_at
+  BEFORE UPDATE ON public.interview_slots
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_interview_bookings_updated_at
+  BEFORE UPDATE ON public.interview_bookings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for interview_slots
+CREATE POLICY "Authenticated users can view interview slots"
+  ON public.interview_slots FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage interview slots"
+  ON public.interview_slots FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for interview_bookings (students book through book_interview_slot)
+CREATE POLICY "Students can view own interview bookings"
+  ON public.interview_bookings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage interview bookings"
+  ON public.interview_bookings FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Places taken in each slot of a cycle. Only applicants still in the
+-- interview stage hold a place, so a decision made early frees it.
+CREATE OR REPLACE FUNCTION public.get_interview_slot_availability(_cycle_id UUID)
+RETURNS TABLE (slot_id UUID, booked INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id, COUNT(a.id)::INTEGER
+  FROM public.interview_slots s
+  LEFT JOIN public.interview_bookings b ON b.slot_id = s.id
+  LEFT JOIN public.tutor_applications a ON a.id = b.application_id AND a.status = 'interview'
+  WHERE s.cycle_id = _cycle_id
+  GROUP BY s.id
+$$;
+
+-- Book, or move, the caller's interview for an application in the interview stage
+CREATE OR REPLACE FUNCTION public.book_interview_slot(_application_id UUID, _slot_id UUID)
+RETURNS public.interview_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _application public.tutor_applications%ROWTYPE;
+  _slot public.interview_slots%ROWTYPE;
+  _existing public.interview_bookings%ROWTYPE;
+  _booked INTEGER;
+  _booking public.interview_bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO _application
+  FROM public.tutor_applications
+  WHERE id = _application_id AND user_id = auth.uid();
+
+  IF NOT FOUND OR _application.status <> 'interview' THEN
+    RAISE EXCEPTION 'This application has not been shortlisted for an interview'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Lock the slot so two applicants cannot take its last place at once
+  SELECT * INTO _slot
+  FROM public.interview_slots
+  WHERE id = _slot_id AND cycle_id = _application.cycle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Interview slot not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _slot.starts_at <= now() THEN
+    RAISE EXCEPTION 'This interview slot has already started'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT b.* INTO _existing
+  FROM public.interview_bookings b
+  WHERE b.application_id = _application_id;
+
+  IF FOUND AND _existing.slot_id <> _slot_id AND (
+    _existing.attendance <> 'scheduled' OR
+    (SELECT starts_at FROM public.interview_slots WHERE id = _existing.slot_id) <= now()
+  ) THEN
+    RAISE EXCEPTION 'Your interview has already taken place and cannot be moved'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COUNT(*) INTO _booked
+  FROM public.interview_bookings b
+  JOIN public.tutor_applications a ON a.id = b.application_id AND a.status = 'interview'
+  WHERE b.slot_id = _slot_id AND b.application_id <> _application_id;
+
+  IF _booked >= _slot.capacity THEN
+    RAISE EXCEPTION 'This interview slot is full. Please choose another time.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.interview_bookings (slot_id, application_id, user_id)
+  VALUES (_slot_id, _application_id, _application.user_id)
+  ON CONFLICT (application_id) DO UPDATE
+    SET slot_id = EXCLUDED.slot_id, booked_at = now()
+  RETURNING * INTO _booking;
+
+  RETURN _booking;
+END;
+$$;
+
+-- Applicants can also withdraw while shortlisted for an interview
+DROP POLICY "Students can withdraw own submitted applications" ON public.tutor_applications;
+
+CREATE POLICY "Students can withdraw own submitted applications"
+  ON public.tutor_applications FOR UPDATE
+  USING (auth.uid() = user_id AND status IN ('pending', 'under_review', 'interview'))
+  WITH CHECK (auth.uid() = user_id AND status = 'withdrawn');
+
+CREATE OR REPLACE FUNCTION public.enforce_application_withdrawal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _reason TEXT;
+BEGIN
+  IF OLD.status = 'withdrawn' AND NEW.status <> 'withdrawn' THEN
+    RAISE EXCEPTION 'A withdrawn application cannot be reopened'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'withdrawn' AND OLD.status <> 'withdrawn' THEN
+    IF auth.uid() IS DISTINCT FROM OLD.user_id OR OLD.status NOT IN ('pending', 'under_review', 'interview') THEN
+      RAISE EXCEPTION 'Only the applicant can withdraw a submitted application'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    _reason := NULLIF(btrim(NEW.withdrawal_reason), '');
+    IF _reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required to withdraw an application'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW := OLD;
+    NEW.status := 'withdrawn';
+    NEW.withdrawal_reason := _reason;
+    NEW.withdrawn_at := now();
+    RETURN NEW;
+  END IF;
+
+  -- Applicants may only withdraw once a review has started
+  IF OLD.status IN ('under_review', 'interview')
+     AND NEW.status IS DISTINCT FROM OLD.status
+     AND auth.uid() = OLD.user_id
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'This application is being reviewed and can only be withdrawn'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,197 @@
+-- Weighted scoring rubric with per-reviewer score sheets
+-- Each reviewer fills in one score sheet per application, scoring every
+-- active rubric criterion out of its max_score. A sheet's total is the
+-- weighted average of its scores as a percentage; an application's score is
+-- the mean of its sheet totals. When reviewers are further apart than the
+-- configured moderation spread the application is flagged for moderation.
+
+-- Create rubric criteria table
+CREATE TABLE public.rubric_criteria (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  weight NUMERIC(5,2) NOT NULL CHECK (weight > 0),
+  max_score SMALLINT NOT NULL DEFAULT 5 CHECK (max_score BETWEEN 1 AND 100),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.rubric_criteria (name, description, weight, sort_order) VALUES
+  ('Academic record', 'Marks in the modules the applicant wants to tutor', 35, 1),
+  ('Motivation', 'Why the applicant wants to tutor and what they would bring', 25, 2),
+  ('Experience', 'Previous tutoring, mentoring or teaching', 20, 3),
+  ('Communication', 'Clarity in writing and, after an interview, in person', 20, 4);
+
+-- Create scoring settings table, a single row
+CREATE TABLE public.scoring_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  moderation_spread NUMERIC(5,2) NOT NULL DEFAULT 20 CHECK (moderation_spread BETWEEN 0 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX scoring_settings_single_row ON public.scoring_settings ((true));
+
+INSERT INTO public.scoring_settings DEFAULT VALUES;
+
+-- Create review sheets table, one per reviewer per application
+CREATE TABLE public.review_sheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.tutor_applications(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  comments TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (application_id, reviewer_id)
+);
+
+-- Create review scores table
+CREATE TABLE public.review_scores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sheet_id UUID NOT NULL REFERENCES public.review_sheets(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES public.rubric_criteria(id) ON DELETE RESTRICT,
+  score SMALLINT NOT NULL CHECK (score >= 0),
+  UNIQUE (sheet_id, criterion_id)
+);
+
+CREATE INDEX review_scores_criterion_idx ON public.review_scores (criterion_id);
+
+-- Enable RLS
+ALTER TABLE public.rubric_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scoring_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_sheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_rubric_criteria_updated_at
+  BEFORE UPDATE ON public.rubric_criteria
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_scoring_settings_updated_at
+  BEFORE UPDATE ON public.scoring_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_review_sheets_updated_at
+  BEFORE UPDATE ON public.review_sheets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for the rubric and its settings
+CREATE POLICY "Authenticated users can view rubric criteria"
+  ON public.rubric_criteria FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage rubric criteria"
+  ON public.rubric_criteria FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view scoring settings"
+  ON public.scoring_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage scoring settings"
+  ON public.scoring_settings FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for score sheets (reviewers write through save_review_sheet)
+CREATE POLICY "Admins can view review sheets"
+  ON public.review_sheets FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view review scores"
+  ON public.review_scores FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Weighted total of each sheet as a percentage. Weights are relative, so
+-- they do not have to add up to 100.
+CREATE VIEW public.review_sheet_totals
+WITH (security_invoker = true) AS
+  SELECT
+    s.id AS sheet_id,
+    s.application_id,
+    s.reviewer_id,
+    ROUND(SUM(r.score::NUMERIC / c.max_score * c.weight) / SUM(c.weight) * 100, 1) AS total
+  FROM public.review_sheets s
+  JOIN public.review_scores r ON r.sheet_id = s.id
+  JOIN public.rubric_criteria c ON c.id = r.criterion_id
+  GROUP BY s.id;
+
+-- Aggregated score and reviewer spread per application
+CREATE VIEW public.application_score_summaries
+WITH (security_invoker = true) AS
+  SELECT
+    t.application_id,
+    a.cycle_id,
+    COUNT(*)::INTEGER AS reviewer_count,
+    ROUND(AVG(t.total), 1) AS average_score,
+    MAX(t.total) - MIN(t.total) AS spread,
+    COUNT(*) > 1 AND MAX(t.total) - MIN(t.total) > COALESCE(
+      (SELECT moderation_spread FROM public.scoring_settings LIMIT 1), 100
+    ) AS needs_moderation
+  FROM public.review_sheet_totals t
+  JOIN public.tutor_applications a ON a.id = t.application_id
+  GROUP BY t.application_id, a.cycle_id;
+
+-- Create or replace the caller's score sheet for an application. _scores is a
+-- JSON object of criterion id to score; every active criterion must be scored.
+CREATE OR REPLACE FUNCTION public.save_review_sheet(_application_id UUID, _scores JSONB, _comments TEXT DEFAULT NULL)
+RETURNS public.review_sheets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sheet public.review_sheets%ROWTYPE;
+  _missing TEXT;
+  _invalid TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only reviewers can score applications'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tutor_applications
+    WHERE id = _application_id AND status NOT IN ('draft', 'withdrawn')
+  ) THEN
+    RAISE EXCEPTION 'This application cannot be scored'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT string_agg(c.name, ', ' ORDER BY c.sort_order) INTO _missing
+  FROM public.rubric_criteria c
+  WHERE c.is_active AND NOT (_scores ? c.id::TEXT);
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Score every criterion before saving: %', _missing
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT string_agg(c.name, ', ' ORDER BY c.sort_order) INTO _invalid
+  FROM jsonb_each_text(_scores) AS item
+  JOIN public.rubric_criteria c ON c.id = item.key::UUID
+  WHERE item.value::NUMERIC NOT BETWEEN 0 AND c.max_score
+     OR item.value::NUMERIC <> trunc(item.value::NUMERIC);
+
+  IF _invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Scores are out of range for: %', _invalid
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.review_sheets (application_id, reviewer_id, comments)
+  VALUES (_application_id, auth.uid(), NULLIF(btrim(_comments), ''))
+  ON CONFLICT (application_id, reviewer_id) DO UPDATE
+    SET comments = EXCLUDED.comments
+  RETURNING * INTO _sheet;
+
+  DELETE FROM public.review_scores
+  WHERE sheet_id = _sheet.id;
+
+  INSERT INTO public.review_scores (sheet_id, criterion_id, score)
+  SELECT _sheet.id, c.id, item.value::SMALLINT
+  FROM jsonb_each_text(_scores) AS item
+  JOIN public.rubric_criteria c ON c.id = item.key::UUID AND c.is_active;
+
+  RETURN _sheet;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Reviewer role
+-- Staff who review applications without full admin rights. Added on its own
+-- because a new enum value cannot be used in the transaction that adds it;
+-- assignments and access rules follow in the next migration.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'reviewer';
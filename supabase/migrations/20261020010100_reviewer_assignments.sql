@@ -0,0 +1,261 @@
+-- Reviewer assignments
+-- A reviewer sees only the applications assigned to them: every application
+-- in an assigned faculty or department, plus applications assigned one at a
+-- time. Within those they can read documents, scores and history, verify
+-- documents, score and change status like an admin. Admins keep full access
+-- and manage assignments, and can spread unassigned applications across
+-- reviewers by outstanding workload.
+
+-- Create reviewer assignments table, each row scoped to exactly one target
+CREATE TABLE public.reviewer_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  faculty_id UUID REFERENCES public.faculties(id) ON DELETE CASCADE,
+  department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE,
+  application_id UUID REFERENCES public.tutor_applications(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT reviewer_assignments_single_scope CHECK (num_nonnulls(faculty_id, department_id, application_id) = 1),
+  UNIQUE (reviewer_id, faculty_id),
+  UNIQUE (reviewer_id, department_id),
+  UNIQUE (reviewer_id, application_id)
+);
+
+CREATE INDEX reviewer_assignments_application_idx ON public.reviewer_assignments (application_id);
+
+-- Enable RLS
+ALTER TABLE public.reviewer_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reviewers can view own assignments"
+  ON public.reviewer_assignments FOR SELECT
+  USING (auth.uid() = reviewer_id);
+
+CREATE POLICY "Admins can manage reviewer assignments"
+  ON public.reviewer_assignments FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Whether an application falls within one of a reviewer's assignments
+CREATE OR REPLACE FUNCTION public.is_assigned_reviewer(_user_id UUID, _application_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'reviewer') AND EXISTS (
+    SELECT 1
+    FROM public.tutor_applications a
+    JOIN public.reviewer_assignments r
+      ON r.reviewer_id = _user_id
+     AND (r.application_id = a.id OR r.faculty_id = a.faculty_id OR r.department_id = a.department_id)
+    WHERE a.id = _application_id
+  )
+$$;
+
+-- RLS Policies for reviewers, limited to their assigned applications
+CREATE POLICY "Reviewers can view assigned applications"
+  ON public.tutor_applications FOR SELECT
+  USING (public.is_assigned_reviewer(auth.uid(), id));
+
+CREATE POLICY "Reviewers can update assigned applications"
+  ON public.tutor_applications FOR UPDATE
+  USING (public.is_assigned_reviewer(auth.uid(), id));
+
+CREATE POLICY "Reviewers can view assigned application modules"
+  ON public.application_modules FOR SELECT
+  USING (public.is_assigned_reviewer(auth.uid(), application_id));
+
+CREATE POLICY "Reviewers can view assigned documents"
+  ON public.application_documents FOR SELECT
+  USING (public.is_assigned_reviewer(auth.uid(), application_id));
+
+CREATE POLICY "Reviewers can verify assigned documents"
+  ON public.application_documents FOR UPDATE
+  USING (public.is_assigned_reviewer(auth.uid(), application_id));
+
+CREATE POLICY "Reviewers can view assigned scanned documents"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'application-documents' AND
+    EXISTS (
+      SELECT 1 FROM public.application_documents d
+      WHERE d.file_path = name
+        AND d.scan_status = 'clean'
+        AND public.is_assigned_reviewer(auth.uid(), d.application_id)
+    )
+  );
+
+CREATE POLICY "Reviewers can view assigned status events"
+  ON public.application_status_events FOR SELECT
+  USING (public.is_assigned_reviewer(auth.uid(), application_id));
+
+CREATE POLICY "Reviewers can view assigned eligibility results"
+  ON public.eligibility_results FOR SELECT
+  USING (public.is_assigned_reviewer(auth.uid(), application_id));
+
+CREATE POLICY "Reviewers can view assigned interview bookings"
+  ON public.interview_bookings FOR SELECT
+  USING (public.is_assigned_reviewer(auth.uid(), application_id));
+
+CREATE POLICY "Reviewers can view assigned review sheets"
+  ON public.review_sheets FOR SELECT
+  USING (public.is_assigned_reviewer(auth.uid(), application_id));
+
+CREATE POLICY "Reviewers can view assigned review scores"
+  ON public.review_scores FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.review_sheets s
+      WHERE s.id = sheet_id AND public.is_assigned_reviewer(auth.uid(), s.application_id)
+    )
+  );
+
+-- Reviewers see who else reviewed an application, but not student profiles
+CREATE POLICY "Reviewers can view staff profiles"
+  ON public.profiles FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'reviewer') AND
+    (public.has_role(id, 'admin') OR public.has_role(id, 'reviewer'))
+  );
+
+-- Assigned reviewers can score as well as admins
+CREATE OR REPLACE FUNCTION public.save_review_sheet(_application_id UUID, _scores JSONB, _comments TEXT DEFAULT NULL)
+RETURNS public.review_sheets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sheet public.review_sheets%ROWTYPE;
+  _missing TEXT;
+  _invalid TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND NOT public.is_assigned_reviewer(auth.uid(), _application_id) THEN
+    RAISE EXCEPTION 'Only reviewers assigned to this application can score it'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tutor_applications
+    WHERE id = _application_id AND status NOT IN ('draft', 'withdrawn')
+  ) THEN
+    RAISE EXCEPTION 'This application cannot be scored'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT string_agg(c.name, ', ' ORDER BY c.sort_order) INTO _missing
+  FROM public.rubric_criteria c
+  WHERE c.is_active AND NOT (_scores ? c.id::TEXT);
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Score every criterion before saving: %', _missing
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT string_agg(c.name, ', ' ORDER BY c.sort_order) INTO _invalid
+  FROM jsonb_each_text(_scores) AS item
+  JOIN public.rubric_criteria c ON c.id = item.key::UUID
+  WHERE item.value::NUMERIC NOT BETWEEN 0 AND c.max_score
+     OR item.value::NUMERIC <> trunc(item.value::NUMERIC);
+
+  IF _invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Scores are out of range for: %', _invalid
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.review_sheets (application_id, reviewer_id, comments)
+  VALUES (_application_id, auth.uid(), NULLIF(btrim(_comments), ''))
+  ON CONFLICT (application_id, reviewer_id) DO UPDATE
+    SET comments = EXCLUDED.comments
+  RETURNING * INTO _sheet;
+
+  DELETE FROM public.review_scores
+  WHERE sheet_id = _sheet.id;
+
+  INSERT INTO public.review_scores (sheet_id, criterion_id, score)
+  SELECT _sheet.id, c.id, item.value::SMALLINT
+  FROM jsonb_each_text(_scores) AS item
+  JOIN public.rubric_criteria c ON c.id = item.key::UUID AND c.is_active;
+
+  RETURN _sheet;
+END;
+$$;
+
+-- Applications per reviewer in a cycle: everything assigned, those still
+-- awaiting a decision, and those the reviewer has scored
+CREATE OR REPLACE FUNCTION public.get_reviewer_workload(_cycle_id UUID)
+RETURNS TABLE (reviewer_id UUID, assigned INTEGER, outstanding INTEGER, scored INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    ur.user_id,
+    COUNT(a.id)::INTEGER,
+    COUNT(a.id) FILTER (WHERE a.status IN ('pending', 'under_review', 'interview'))::INTEGER,
+    COUNT(s.id)::INTEGER
+  FROM public.user_roles ur
+  LEFT JOIN public.tutor_applications a
+    ON a.cycle_id = _cycle_id
+   AND a.status NOT IN ('draft', 'withdrawn')
+   AND public.is_assigned_reviewer(ur.user_id, a.id)
+  LEFT JOIN public.review_sheets s ON s.application_id = a.id AND s.reviewer_id = ur.user_id
+  WHERE ur.role = 'reviewer'
+  GROUP BY ur.user_id
+$$;
+
+-- Applications awaiting a decision that no reviewer is assigned to
+CREATE OR REPLACE FUNCTION public.get_unassigned_applications(_cycle_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT a.id
+  FROM public.tutor_applications a
+  WHERE a.cycle_id = _cycle_id
+    AND a.status IN ('pending', 'under_review', 'interview')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.role = 'reviewer' AND public.is_assigned_reviewer(ur.user_id, a.id)
+    )
+  ORDER BY a.submitted_at
+$$;
+
+-- Assign each unassigned application to the reviewer with the fewest outstanding
+-- applications. Returns how many were assigned.
+CREATE OR REPLACE FUNCTION public.balance_reviewer_assignments(_cycle_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _application_id UUID;
+  _reviewer_id UUID;
+  _assigned INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign reviewers'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR _application_id IN SELECT * FROM public.get_unassigned_applications(_cycle_id) LOOP
+    SELECT w.reviewer_id INTO _reviewer_id
+    FROM public.get_reviewer_workload(_cycle_id) w
+    ORDER BY w.outstanding, w.assigned, random()
+    LIMIT 1;
+
+    IF _reviewer_id IS NULL THEN
+      RAISE EXCEPTION 'Add a reviewer before distributing applications'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO public.reviewer_assignments (reviewer_id, application_id, assigned_by)
+    VALUES (_reviewer_id, _application_id, auth.uid());
+
+    _assigned := _assigned + 1;
+  END LOOP;
+
+  RETURN _assigned;
+END;
+$$;
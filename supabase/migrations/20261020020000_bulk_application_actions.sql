@@ -0,0 +1,102 @@
+-- Bulk application actions
+-- Apply one action to many applications in a single call. Each row runs in
+-- its own savepoint, so a row that fails (not permitted, wrong status,
+-- unverified documents) is rolled back and reported while the rest are kept.
+-- Runs as the caller, so reviewers can only act on their assigned
+-- applications and only admins can assign reviewers.
+CREATE OR REPLACE FUNCTION public.bulk_update_applications(
+  _application_ids UUID[],
+  _action TEXT,
+  _reason TEXT DEFAULT NULL,
+  _reviewer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (application_id UUID, succeeded BOOLEAN, message TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _status public.application_status;
+  _reason_text TEXT := NULLIF(btrim(_reason), '');
+BEGIN
+  IF _action NOT IN ('under_review', 'approve', 'reject', 'assign_reviewer') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', _action
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF _action = 'reject' AND _reason_text IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reject applications'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _action = 'assign_reviewer' AND (_reviewer_id IS NULL OR NOT public.has_role(_reviewer_id, 'reviewer')) THEN
+    RAISE EXCEPTION 'Choose a reviewer to assign'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOREACH _id IN ARRAY _application_ids LOOP
+    application_id := _id;
+
+    BEGIN
+      SELECT a.status INTO _status
+      FROM public.tutor_applications a
+      WHERE a.id = _id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Application not found or not assigned to you';
+      END IF;
+
+      CASE _action
+        WHEN 'under_review' THEN
+          IF _status <> 'pending' THEN
+            RAISE EXCEPTION 'Only pending applications can be moved to review';
+          END IF;
+
+          UPDATE public.tutor_applications
+          SET status = 'under_review', reviewed_by = auth.uid(), reviewed_at = now()
+          WHERE id = _id;
+          message := 'Moved to review';
+
+        WHEN 'approve' THEN
+          IF _status IN ('draft', 'approved', 'withdrawn') THEN
+            RAISE EXCEPTION 'Cannot approve an application that is %', replace(_status::TEXT, '_', ' ');
+          END IF;
+
+          UPDATE public.tutor_applications
+          SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = now()
+          WHERE id = _id;
+          message := 'Approved';
+
+        WHEN 'reject' THEN
+          IF _status IN ('draft', 'rejected', 'withdrawn') THEN
+            RAISE EXCEPTION 'Cannot reject an application that is %', replace(_status::TEXT, '_', ' ');
+          END IF;
+
+          UPDATE public.tutor_applications
+          SET status = 'rejected', rejection_reason = _reason_text, reviewed_by = auth.uid(), reviewed_at = now()
+          WHERE id = _id;
+          message := 'Rejected';
+
+        WHEN 'assign_reviewer' THEN
+          INSERT INTO public.reviewer_assignments (reviewer_id, application_id, assigned_by)
+          VALUES (_reviewer_id, _id, auth.uid())
+          ON CONFLICT ON CONSTRAINT reviewer_assignments_reviewer_id_application_id_key DO NOTHING;
+
+          message := CASE WHEN FOUND THEN 'Reviewer assigned' ELSE 'Already assigned to this reviewer' END;
+      END CASE;
+
+      -- RLS filters rows the caller may not change, so nothing is updated
+      IF _action <> 'assign_reviewer' AND NOT FOUND THEN
+        RAISE EXCEPTION 'You are not allowed to change this application';
+      END IF;
+
+      succeeded := true;
+    EXCEPTION WHEN OTHERS THEN
+      succeeded := false;
+      message := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,149 @@
+-- Admin application list
+-- Search, filter, sort and page a cycle's applications in the database so
+-- the admin list loads one page of the columns it shows rather than every
+-- application in full. Both functions run as the caller, so reviewers only
+-- find and count the applications assigned to them.
+
+CREATE INDEX tutor_applications_cycle_submitted_idx
+  ON public.tutor_applications (cycle_id, submitted_at DESC);
+
+-- Whether weekly availability covers a window. Adjacent or overlapping
+-- slots on a day count as one block, and a missing weekday or time matches
+-- any. Mirrors matchesAvailability in src/lib/availability.ts.
+CREATE OR REPLACE FUNCTION public.matches_availability(_availability JSONB, _weekday INTEGER, _start TEXT, _end TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH slots AS (
+    SELECT (s->>'weekday')::INTEGER AS weekday, s->>'start' AS start_time, s->>'end' AS end_time
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(_availability) = 'array' THEN _availability ELSE '[]'::JSONB END
+    ) AS s
+    WHERE jsonb_typeof(s) = 'object'
+      AND s->>'weekday' ~ '^[1-7]$'
+      AND s->>'start' ~ '^\d{2}:\d{2}$'
+      AND s->>'end' ~ '^\d{2}:\d{2}$'
+      AND s->>'start' < s->>'end'
+  ),
+  marked AS (
+    SELECT *,
+      CASE
+        WHEN start_time <= MAX(end_time) OVER (
+          PARTITION BY weekday ORDER BY start_time ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ) THEN 0
+        ELSE 1
+      END AS starts_block
+    FROM slots
+  ),
+  blocks AS (
+    SELECT weekday, MIN(start_time) AS start_time, MAX(end_time) AS end_time
+    FROM (
+      SELECT *, SUM(starts_block) OVER (PARTITION BY weekday ORDER BY start_time) AS block
+      FROM marked
+    ) numbered
+    GROUP BY weekday, block
+  )
+  SELECT EXISTS (
+    SELECT 1 FROM blocks
+    WHERE (_weekday IS NULL OR weekday = _weekday)
+      AND (_start IS NULL OR _end IS NULL OR (start_time <= _start AND end_time >= _end))
+  )
+$$;
+
+-- One page of submitted applications in a cycle with their scores.
+-- _search matches name, student number or email; _module_id matches a
+-- module the applicant wants to tutor. total_count is the number of
+-- matches across all pages, and a NULL _limit returns every match.
+CREATE OR REPLACE FUNCTION public.search_applications(
+  _cycle_id UUID,
+  _search TEXT DEFAULT NULL,
+  _status public.application_status DEFAULT NULL,
+  _faculty_id UUID DEFAULT NULL,
+  _module_id UUID DEFAULT NULL,
+  _weekday INTEGER DEFAULT NULL,
+  _start TEXT DEFAULT NULL,
+  _end TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'submitted_desc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  student_number TEXT,
+  faculty TEXT,
+  status public.application_status,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewer_count INTEGER,
+  average_score NUMERIC,
+  spread NUMERIC,
+  needs_moderation BOOLEAN,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.full_name,
+    a.student_number,
+    a.faculty,
+    a.status,
+    a.submitted_at,
+    s.reviewer_count,
+    s.average_score,
+    s.spread,
+    s.needs_moderation,
+    COUNT(*) OVER ()
+  FROM public.tutor_applications a
+  LEFT JOIN public.application_score_summaries s ON s.application_id = a.id
+  WHERE a.cycle_id = _cycle_id
+    AND a.status <> 'draft'
+    AND (
+      NULLIF(btrim(_search), '') IS NULL OR
+      concat_ws(' ', a.full_name, a.student_number, a.email) ILIKE
+        '%' || replace(replace(replace(btrim(_search), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (_status IS NULL OR a.status = _status)
+    AND (_faculty_id IS NULL OR a.faculty_id = _faculty_id)
+    AND (
+      _module_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.application_modules m
+        WHERE m.application_id = a.id AND m.relation = 'tutor' AND m.module_id = _module_id
+      )
+    )
+    AND (
+      (_weekday IS NULL AND (_start IS NULL OR _end IS NULL)) OR
+      public.matches_availability(a.availability, _weekday, _start, _end)
+    )
+  ORDER BY
+    CASE WHEN _sort = 'name_asc' THEN a.full_name END ASC,
+    CASE WHEN _sort = 'name_desc' THEN a.full_name END DESC,
+    CASE WHEN _sort = 'student_number' THEN a.student_number END ASC,
+    CASE WHEN _sort = 'status' THEN a.status END ASC,
+    CASE WHEN _sort = 'submitted_asc' THEN a.submitted_at END ASC,
+    -- Unscored applications sort last whichever way the scores are ordered
+    CASE WHEN _sort = 'score_desc' THEN s.average_score END DESC NULLS LAST,
+    CASE WHEN _sort = 'score_asc' THEN s.average_score END ASC NULLS LAST,
+    CASE WHEN _sort = 'spread' THEN s.spread END DESC NULLS LAST,
+    a.submitted_at DESC NULLS LAST,
+    a.id
+  LIMIT _limit
+  OFFSET _offset
+$$;
+
+-- Submitted applications per status in a cycle, for the dashboard totals
+CREATE OR REPLACE FUNCTION public.get_application_status_counts(_cycle_id UUID)
+RETURNS TABLE (status public.application_status, total INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT a.status, COUNT(*)::INTEGER
+  FROM public.tutor_applications a
+  WHERE a.cycle_id = _cycle_id AND a.status <> 'draft'
+  GROUP BY a.status
+$$;
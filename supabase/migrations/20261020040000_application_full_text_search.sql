@@ -0,0 +1,153 @@
+-- Full-text application search
+-- Index what applicants wrote (skills, experience, motivation and so on)
+-- so the admin list finds them by content as well as name, student number
+-- and email. Matches are ranked and come with a highlighted snippet.
+
+-- Weighted so a match in skills or subjects outranks a passing mention in
+-- the motivation letter
+ALTER TABLE public.tutor_applications
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::REGCONFIG, coalesce(skills_competencies, '') || ' ' || coalesce(subjects_to_tutor, '')), 'A') ||
+    setweight(to_tsvector('english'::REGCONFIG, coalesce(previous_tutoring_experience, '') || ' ' || coalesce(work_experience, '')), 'B') ||
+    setweight(to_tsvector('english'::REGCONFIG, coalesce(motivation_letter, '')), 'C') ||
+    setweight(to_tsvector('english'::REGCONFIG,
+      coalesce(degree_program, '') || ' ' || coalesce(languages_spoken, '') || ' ' || coalesce(availability_notes, '')
+    ), 'D')
+  ) STORED;
+
+CREATE INDEX tutor_applications_search_idx
+  ON public.tutor_applications USING GIN (search_vector);
+
+-- The result columns change, so the function is replaced rather than redefined
+DROP FUNCTION public.search_applications(UUID, TEXT, public.application_status, UUID, UUID, INTEGER, TEXT, TEXT, TEXT, INTEGER, INTEGER);
+
+-- One page of submitted applications in a cycle with their scores.
+-- _search matches name, student number or email, or any of the indexed
+-- text as a web-style query ("peer mentor", python -java). rank orders
+-- 'relevance' sorts, and snippet holds the matching text with each match
+-- between ⟦ and ⟧. _module_id matches a module the applicant wants to
+-- tutor. total_count is the number of matches across all pages, and a
+-- NULL _limit returns every match.
+CREATE OR REPLACE FUNCTION public.search_applications(
+  _cycle_id UUID,
+  _search TEXT DEFAULT NULL,
+  _status public.application_status DEFAULT NULL,
+  _faculty_id UUID DEFAULT NULL,
+  _module_id UUID DEFAULT NULL,
+  _weekday INTEGER DEFAULT NULL,
+  _start TEXT DEFAULT NULL,
+  _end TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'submitted_desc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  student_number TEXT,
+  faculty TEXT,
+  status public.application_status,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewer_count INTEGER,
+  average_score NUMERIC,
+  spread NUMERIC,
+  needs_moderation BOOLEAN,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT
+      NULLIF(btrim(_search), '') AS term,
+      websearch_to_tsquery('english', coalesce(_search, '')) AS query
+  ),
+  matches AS (
+    SELECT
+      a.id,
+      a.full_name,
+      a.student_number,
+      a.faculty,
+      a.status,
+      a.submitted_at,
+      s.reviewer_count,
+      s.average_score,
+      s.spread,
+      s.needs_moderation,
+      CASE WHEN a.search_vector @@ search.query THEN ts_rank(a.search_vector, search.query) END AS rank,
+      COUNT(*) OVER () AS total_count,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN _sort = 'name_asc' THEN a.full_name END ASC,
+          CASE WHEN _sort = 'name_desc' THEN a.full_name END DESC,
+          CASE WHEN _sort = 'student_number' THEN a.student_number END ASC,
+          CASE WHEN _sort = 'status' THEN a.status END ASC,
+          CASE WHEN _sort = 'submitted_asc' THEN a.submitted_at END ASC,
+          -- Unscored or unmatched applications sort last whichever way they are ordered
+          CASE WHEN _sort = 'relevance' AND a.search_vector @@ search.query THEN ts_rank(a.search_vector, search.query) END DESC NULLS LAST,
+          CASE WHEN _sort = 'score_desc' THEN s.average_score END DESC NULLS LAST,
+          CASE WHEN _sort = 'score_asc' THEN s.average_score END ASC NULLS LAST,
+          CASE WHEN _sort = 'spread' THEN s.spread END DESC NULLS LAST,
+          a.submitted_at DESC NULLS LAST,
+          a.id
+      ) AS position
+    FROM public.tutor_applications a
+    CROSS JOIN search
+    LEFT JOIN public.application_score_summaries s ON s.application_id = a.id
+    WHERE a.cycle_id = _cycle_id
+      AND a.status <> 'draft'
+      AND (
+        search.term IS NULL OR
+        a.search_vector @@ search.query OR
+        concat_ws(' ', a.full_name, a.student_number, a.email) ILIKE
+          '%' || replace(replace(replace(search.term, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+      AND (_status IS NULL OR a.status = _status)
+      AND (_faculty_id IS NULL OR a.faculty_id = _faculty_id)
+      AND (
+        _module_id IS NULL OR EXISTS (
+          SELECT 1 FROM public.application_modules m
+          WHERE m.application_id = a.id AND m.relation = 'tutor' AND m.module_id = _module_id
+        )
+      )
+      AND (
+        (_weekday IS NULL AND (_start IS NULL OR _end IS NULL)) OR
+        public.matches_availability(a.availability, _weekday, _start, _end)
+      )
+    ORDER BY position
+    LIMIT _limit
+    OFFSET _offset
+  )
+  -- Snippets are only built for the page being returned
+  SELECT
+    m.id,
+    m.full_name,
+    m.student_number,
+    m.faculty,
+    m.status,
+    m.submitted_at,
+    m.reviewer_count,
+    m.average_score,
+    m.spread,
+    m.needs_moderation,
+    m.rank,
+    CASE WHEN m.rank IS NOT NULL THEN
+      ts_headline(
+        'english',
+        concat_ws(' … ',
+          a.skills_competencies, a.subjects_to_tutor, a.previous_tutoring_experience, a.work_experience,
+          a.motivation_letter, a.degree_program, a.languages_spoken, a.availability_notes
+        ),
+        search.query,
+        'StartSel=⟦, StopSel=⟧, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    END,
+    m.total_count
+  FROM matches m
+  JOIN public.tutor_applications a ON a.id = m.id
+  CROSS JOIN search
+  ORDER BY m.position
+$$;
@@ -0,0 +1,27 @@
+-- Document paths belong to their application
+-- scan-document reads, quarantines and removes the object a document row
+-- points at with the service role, so a row must not point at anyone
+-- else's file. New uploads live under <user_id>/<application_id>/. A
+-- document reused by clone_application keeps the stored file of the row it
+-- was copied from, which must be the caller's own.
+
+DROP POLICY "Users can insert own documents" ON public.application_documents;
+
+CREATE POLICY "Users can insert own documents"
+  ON public.application_documents FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND user_id = auth.uid()
+    ) AND
+    (
+      starts_with(file_path, auth.uid()::TEXT || '/' || application_id::TEXT || '/') OR
+      EXISTS (
+        SELECT 1 FROM public.application_documents s
+        WHERE s.id = application_documents.reused_from
+          AND s.user_id = auth.uid()
+          AND s.file_path = application_documents.file_path
+      )
+    )
+  );
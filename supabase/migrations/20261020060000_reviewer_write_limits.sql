@@ -0,0 +1,95 @@
+-- Limit what reviewers can change
+-- Reviewers update applications and documents through row policies that
+-- cover every column. Without admin rights they may only record a decision
+-- on an application (status, notes, rejection reason and who reviewed it)
+-- and verification on a document. Drafts stay private to the applicant
+-- until they are submitted.
+
+CREATE OR REPLACE FUNCTION public.is_assigned_reviewer(_user_id UUID, _application_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'reviewer') AND EXISTS (
+    SELECT 1
+    FROM public.tutor_applications a
+    JOIN public.reviewer_assignments r
+      ON r.reviewer_id = _user_id
+     AND (r.application_id = a.id OR r.faculty_id = a.faculty_id OR r.department_id = a.department_id)
+    WHERE a.id = _application_id AND a.status <> 'draft'
+  )
+$$;
+
+DROP POLICY "Reviewers can update assigned applications" ON public.tutor_applications;
+
+CREATE POLICY "Reviewers can update assigned applications"
+  ON public.tutor_applications FOR UPDATE
+  USING (public.is_assigned_reviewer(auth.uid(), id))
+  WITH CHECK (public.is_assigned_reviewer(auth.uid(), id));
+
+DROP POLICY "Reviewers can verify assigned documents" ON public.application_documents;
+
+CREATE POLICY "Reviewers can verify assigned documents"
+  ON public.application_documents FOR UPDATE
+  USING (public.is_assigned_reviewer(auth.uid(), application_id))
+  WITH CHECK (public.is_assigned_reviewer(auth.uid(), application_id));
+
+-- Staff who are not admins can only change the review columns. The
+-- applicant's own changes are covered by their policies and triggers, and
+-- the service role writes scan results. Generated and timestamp columns are
+-- left out of the comparison as they are filled in by the database.
+CREATE OR REPLACE FUNCTION public.protect_application_review_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+     OR auth.uid() = OLD.user_id
+     OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - ARRAY['status', 'admin_notes', 'rejection_reason', 'reviewed_by', 'reviewed_at', 'updated_at', 'search_vector']
+     IS DISTINCT FROM
+     to_jsonb(OLD) - ARRAY['status', 'admin_notes', 'rejection_reason', 'reviewed_by', 'reviewed_at', 'updated_at', 'search_vector'] THEN
+    RAISE EXCEPTION 'Reviewers can only change the status and review details of an application'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_application_review_columns
+  BEFORE UPDATE ON public.tutor_applications
+  FOR EACH ROW EXECUTE FUNCTION public.protect_application_review_columns();
+
+CREATE OR REPLACE FUNCTION public.protect_document_review_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+     OR auth.uid() = OLD.user_id
+     OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - ARRAY['verification_status', 'verified_by', 'verified_at', 'rejection_reason']
+     IS DISTINCT FROM
+     to_jsonb(OLD) - ARRAY['verification_status', 'verified_by', 'verified_at', 'rejection_reason'] THEN
+    RAISE EXCEPTION 'Reviewers can only change the verification of a document'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_document_review_columns
+  BEFORE UPDATE ON public.application_documents
+  FOR EACH ROW EXECUTE FUNCTION public.protect_document_review_columns();
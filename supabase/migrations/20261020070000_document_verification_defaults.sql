@@ -0,0 +1,27 @@
+-- New uploads start unverified
+-- Verification is recorded by staff after upload, so whatever an applicant
+-- sends for it when adding a document is discarded.
+
+CREATE OR REPLACE FUNCTION public.reset_document_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+     OR public.has_role(auth.uid(), 'admin')
+     OR public.has_role(auth.uid(), 'reviewer') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.verification_status := 'unverified';
+  NEW.verified_by := NULL;
+  NEW.verified_at := NULL;
+  NEW.rejection_reason := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_document_verification
+  BEFORE INSERT ON public.application_documents
+  FOR EACH ROW EXECUTE FUNCTION public.reset_document_verification();
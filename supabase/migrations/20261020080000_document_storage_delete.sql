@@ -0,0 +1,20 @@
+-- Keep the stored files of submitted document versions
+-- Applicants can only delete document rows while their application is a
+-- draft, and the same now applies to the stored objects. Files that no
+-- document row points at, such as an upload whose row was never saved, can
+-- still be removed.
+
+DROP POLICY "Users can delete own documents" ON storage.objects;
+
+CREATE POLICY "Users can delete own draft documents"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'application-documents' AND
+    auth.uid()::text = (storage.foldername(name))[1] AND
+    NOT EXISTS (
+      SELECT 1
+      FROM public.application_documents d
+      JOIN public.tutor_applications a ON a.id = d.application_id
+      WHERE d.file_path = name AND a.status <> 'draft'
+    )
+  );
@@ -0,0 +1,84 @@
+-- Applications in finished cycles are read-only
+-- Once a cycle is closed or archived its applications are history. The
+-- dashboard already stops students editing them; these policies stop the
+-- application, its modules and its documents changing underneath.
+
+-- Whether a cycle is closed or archived. Mirrors isCycleFinished in
+-- src/lib/recruitmentCycles.ts.
+CREATE OR REPLACE FUNCTION public.is_cycle_finished(_cycle_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.recruitment_cycles
+    WHERE id = _cycle_id AND status IN ('closed', 'archived')
+  )
+$$;
+
+DROP POLICY "Students can update own draft applications" ON public.tutor_applications;
+
+CREATE POLICY "Students can update own draft applications"
+  ON public.tutor_applications FOR UPDATE
+  USING (auth.uid() = user_id AND status IN ('draft', 'pending') AND NOT public.is_cycle_finished(cycle_id))
+  WITH CHECK (auth.uid() = user_id AND status IN ('draft', 'pending') AND NOT public.is_cycle_finished(cycle_id));
+
+DROP POLICY "Students can insert own application modules" ON public.application_modules;
+
+CREATE POLICY "Students can insert own application modules"
+  ON public.application_modules FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND user_id = auth.uid() AND status IN ('draft', 'pending')
+        AND NOT public.is_cycle_finished(cycle_id)
+    )
+  );
+
+DROP POLICY "Students can delete own application modules" ON public.application_modules;
+
+CREATE POLICY "Students can delete own application modules"
+  ON public.application_modules FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND user_id = auth.uid() AND status IN ('draft', 'pending')
+        AND NOT public.is_cycle_finished(cycle_id)
+    )
+  );
+
+DROP POLICY "Users can insert own documents" ON public.application_documents;
+
+CREATE POLICY "Users can insert own documents"
+  ON public.application_documents FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND user_id = auth.uid() AND NOT public.is_cycle_finished(cycle_id)
+    ) AND
+    (
+      starts_with(file_path, auth.uid()::TEXT || '/' || application_id::TEXT || '/') OR
+      EXISTS (
+        SELECT 1 FROM public.application_documents s
+        WHERE s.id = application_documents.reused_from
+          AND s.user_id = auth.uid()
+          AND s.file_path = application_documents.file_path
+      )
+    )
+  );
+
+DROP POLICY "Users can delete own draft documents" ON public.application_documents;
+
+CREATE POLICY "Users can delete own draft documents"
+  ON public.application_documents FOR DELETE
+  USING (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.tutor_applications
+      WHERE id = application_id AND status = 'draft' AND NOT public.is_cycle_finished(cycle_id)
+    )
+  );
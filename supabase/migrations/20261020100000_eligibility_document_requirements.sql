@@ -0,0 +1,137 @@
+-- Required documents come from the document requirements
+-- The required_documents eligibility rule listed its own document types and
+-- counted any upload, including superseded and quarantined versions. It now
+-- checks the active required documents that apply to the applicant's
+-- faculty and category, as the application form does, and only counts the
+-- current version of each when it passed the content check.
+
+UPDATE public.eligibility_rules
+SET params = '{}'::jsonb
+WHERE rule_type = 'required_documents';
+
+-- Evaluate every active rule against an application and store the outcome
+CREATE OR REPLACE FUNCTION public.evaluate_eligibility(_application_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  app public.tutor_applications%ROWTYPE;
+  cycle_year INTEGER;
+  rule RECORD;
+  outcome JSONB;
+  outcomes JSONB := '[]'::jsonb;
+  all_passed BOOLEAN := true;
+  rule_passed BOOLEAN;
+  min_value INTEGER;
+  max_value INTEGER;
+  applicant_age INTEGER;
+  failing_codes JSONB;
+  missing_types JSONB;
+  expired_types JSONB;
+BEGIN
+  SELECT * INTO app FROM public.tutor_applications WHERE id = _application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application % not found', _application_id;
+  END IF;
+
+  IF app.user_id <> auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to evaluate this application';
+  END IF;
+
+  SELECT academic_year INTO cycle_year FROM public.recruitment_cycles WHERE id = app.cycle_id;
+
+  FOR rule IN
+    SELECT rule_type, params FROM public.eligibility_rules
+    WHERE is_active
+    ORDER BY rule_type
+  LOOP
+    CASE rule.rule_type
+      WHEN 'min_year_of_study' THEN
+        min_value := COALESCE((rule.params ->> 'min')::INTEGER, 1);
+        rule_passed := COALESCE(app.year_of_study >= min_value, false);
+        outcome := jsonb_build_object('actual', app.year_of_study, 'min', min_value);
+
+      WHEN 'current_registration' THEN
+        rule_passed := COALESCE(app.registration_year = cycle_year, false);
+        outcome := jsonb_build_object('actual', app.registration_year, 'expected', cycle_year);
+
+      WHEN 'min_module_mark' THEN
+        SELECT COALESCE(jsonb_agg(m.code ORDER BY m.code), '[]'::jsonb)
+        INTO failing_codes
+        FROM public.application_modules am
+        JOIN public.modules m ON m.id = am.module_id
+        WHERE am.application_id = _application_id
+          AND am.relation = 'tutor'
+          AND (am.mark IS NULL OR am.mark < COALESCE(public.get_module_threshold(am.module_id), 0));
+
+        rule_passed := jsonb_array_length(failing_codes) = 0
+          AND EXISTS (
+            SELECT 1 FROM public.application_modules
+            WHERE application_id = _application_id AND relation = 'tutor'
+          );
+        outcome := jsonb_build_object('failing', failing_codes);
+
+      WHEN 'required_documents' THEN
+        SELECT COALESCE(jsonb_agg(r.document_type ORDER BY r.sort_order, r.label), '[]'::jsonb)
+        INTO missing_types
+        FROM public.document_requirements r
+        WHERE r.is_active
+          AND r.is_required
+          AND (r.faculty_id IS NULL OR r.faculty_id = app.faculty_id)
+          AND (r.applicant_category IS NULL OR r.applicant_category = app.applicant_category)
+          AND NOT EXISTS (
+            SELECT 1 FROM public.application_documents d
+            WHERE d.application_id = _application_id
+              AND d.document_type = r.document_type
+              AND d.is_current
+              AND d.scan_status <> 'quarantined'
+          );
+
+        -- Certified copies are judged as of submission, not as of review
+        SELECT COALESCE(jsonb_agg(d.document_type ORDER BY d.document_type), '[]'::jsonb)
+        INTO expired_types
+        FROM public.application_documents d
+        JOIN public.document_requirements r ON r.document_type = d.document_type
+        WHERE d.application_id = _application_id
+          AND d.is_current
+          AND d.scan_status <> 'quarantined'
+          AND r.certification_max_age_days IS NOT NULL
+          AND (
+            d.certified_at IS NULL
+            OR d.certified_at < COALESCE(app.submitted_at, now())::DATE - r.certification_max_age_days
+          );
+
+        rule_passed := jsonb_array_length(missing_types) = 0 AND jsonb_array_length(expired_types) = 0;
+        outcome := jsonb_build_object('missing', missing_types, 'expired', expired_types);
+
+      WHEN 'age_range' THEN
+        min_value := (rule.params ->> 'min')::INTEGER;
+        max_value := (rule.params ->> 'max')::INTEGER;
+        applicant_age := date_part('year', age(current_date, app.date_of_birth))::INTEGER;
+        rule_passed := applicant_age IS NOT NULL
+          AND (min_value IS NULL OR applicant_age >= min_value)
+          AND (max_value IS NULL OR applicant_age <= max_value);
+        outcome := jsonb_build_object('actual', applicant_age, 'min', min_value, 'max', max_value);
+    END CASE;
+
+    all_passed := all_passed AND rule_passed;
+    outcomes := outcomes || jsonb_build_array(jsonb_build_object(
+      'rule_type', rule.rule_type,
+      'passed', rule_passed,
+      'details', outcome
+    ));
+  END LOOP;
+
+  INSERT INTO public.eligibility_results (application_id, passed, results, evaluated_at)
+  VALUES (_application_id, all_passed, outcomes, now())
+  ON CONFLICT (application_id) DO UPDATE
+  SET passed = EXCLUDED.passed,
+      results = EXCLUDED.results,
+      evaluated_at = EXCLUDED.evaluated_at;
+
+  RETURN outcomes;
+END;
+$$;
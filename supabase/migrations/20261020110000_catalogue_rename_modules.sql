@@ -0,0 +1,26 @@
+-- Carry faculty and department renames through to modules and thresholds
+-- Modules and department-level mark thresholds name their faculty and
+-- department as text. Renaming either in the catalogue now updates them as
+-- well as applications, so thresholds keep matching their modules.
+
+CREATE OR REPLACE FUNCTION public.propagate_faculty_rename()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'faculties' THEN
+    UPDATE public.tutor_applications SET faculty = NEW.name WHERE faculty_id = NEW.id;
+    UPDATE public.modules SET faculty = NEW.name WHERE faculty = OLD.name;
+  ELSE
+    UPDATE public.tutor_applications SET department = NEW.name WHERE department_id = NEW.id;
+    UPDATE public.modules m
+    SET department = NEW.name
+    FROM public.faculties f
+    WHERE f.id = NEW.faculty_id AND m.faculty = f.name AND m.department = OLD.name;
+    UPDATE public.mark_thresholds SET department = NEW.name WHERE department = OLD.name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,31 @@
+-- Reviewers cannot return applications to the applicant
+-- Draft and pending are the applicant's statuses. A reviewer moving an
+-- application back to either is refused, as bulk_update_applications does.
+
+CREATE OR REPLACE FUNCTION public.protect_application_review_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+     OR auth.uid() = OLD.user_id
+     OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - ARRAY['status', 'admin_notes', 'rejection_reason', 'reviewed_by', 'reviewed_at', 'updated_at', 'search_vector']
+     IS DISTINCT FROM
+     to_jsonb(OLD) - ARRAY['status', 'admin_notes', 'rejection_reason', 'reviewed_by', 'reviewed_at', 'updated_at', 'search_vector'] THEN
+    RAISE EXCEPTION 'Reviewers can only change the status and review details of an application'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('draft', 'pending') THEN
+    RAISE EXCEPTION 'Reviewers cannot move an application back to %', NEW.status
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Scope department threshold renames to the renamed department
+-- Department-level mark thresholds match modules by department name, so two
+-- faculties with a department of the same name share one threshold. Renaming
+-- one of them only moves the threshold when nothing else still uses the old
+-- name; otherwise the renamed department gets its own copy and the other
+-- keeps the original.
+
+CREATE OR REPLACE FUNCTION public.propagate_faculty_rename()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'faculties' THEN
+    UPDATE public.tutor_applications SET faculty = NEW.name WHERE faculty_id = NEW.id;
+    UPDATE public.modules SET faculty = NEW.name WHERE faculty = OLD.name;
+  ELSE
+    UPDATE public.tutor_applications SET department = NEW.name WHERE department_id = NEW.id;
+    UPDATE public.modules m
+    SET department = NEW.name
+    FROM public.faculties f
+    WHERE f.id = NEW.faculty_id AND m.faculty = f.name AND m.department = OLD.name;
+
+    -- This department's modules were renamed above, so any module or
+    -- department still using the old name belongs to another faculty
+    IF EXISTS (SELECT 1 FROM public.modules WHERE department = OLD.name)
+       OR EXISTS (SELECT 1 FROM public.departments WHERE name = OLD.name AND id <> NEW.id) THEN
+      INSERT INTO public.mark_thresholds (department, min_mark)
+      SELECT NEW.name, min_mark
+      FROM public.mark_thresholds
+      WHERE department = OLD.name
+      ON CONFLICT (department) DO NOTHING;
+    ELSE
+      UPDATE public.mark_thresholds
+      SET department = NEW.name
+      WHERE department = OLD.name
+        AND NOT EXISTS (SELECT 1 FROM public.mark_thresholds WHERE department = NEW.name);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,66 @@
+-- Map legacy subject text onto catalogue modules
+-- Applications from before the module catalogue only have the free-text
+-- subjects_completed/subjects_to_tutor columns. Codes that match a catalogue
+-- module are copied into application_modules, so eligibility, exports and
+-- reapplying see them. Text that matches nothing is left as it was.
+
+INSERT INTO public.application_modules (application_id, module_id, relation)
+SELECT DISTINCT legacy.application_id, m.id, legacy.relation
+FROM (
+  SELECT a.id AS application_id, 'completed'::public.application_module_relation AS relation, code
+  FROM public.tutor_applications a,
+       regexp_split_to_table(a.subjects_completed, '\s*[,;]\s*') AS code
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.application_modules am
+    WHERE am.application_id = a.id AND am.relation = 'completed'
+  )
+  UNION ALL
+  SELECT a.id, 'tutor'::public.application_module_relation, code
+  FROM public.tutor_applications a,
+       regexp_split_to_table(a.subjects_to_tutor, '\s*[,;]\s*') AS code
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.application_modules am
+    WHERE am.application_id = a.id AND am.relation = 'tutor'
+  )
+) AS legacy
+JOIN public.modules m ON upper(replace(m.code, ' ', '')) = upper(replace(legacy.code, ' ', ''))
+ON CONFLICT DO NOTHING;
+
+-- Only overwrite the legacy text when modules were selected for it, so
+-- unmatched subjects are not wiped by the next save
+CREATE OR REPLACE FUNCTION public.set_application_modules(_application_id UUID, _modules JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.application_modules
+  WHERE application_id = _application_id;
+
+  INSERT INTO public.application_modules (application_id, module_id, relation, mark)
+  SELECT
+    _application_id,
+    (item ->> 'module_id')::UUID,
+    (item ->> 'relation')::public.application_module_relation,
+    CASE WHEN item ->> 'relation' = 'tutor' THEN (item ->> 'mark')::NUMERIC END
+  FROM jsonb_array_elements(_modules) AS item
+  ON CONFLICT DO NOTHING;
+
+  -- Keep the legacy TEXT columns readable for older views and exports
+  UPDATE public.tutor_applications
+  SET
+    subjects_completed = COALESCE((
+      SELECT string_agg(m.code, ', ' ORDER BY m.code)
+      FROM public.application_modules am
+      JOIN public.modules m ON m.id = am.module_id
+      WHERE am.application_id = _application_id AND am.relation = 'completed'
+    ), subjects_completed),
+    subjects_to_tutor = COALESCE((
+      SELECT string_agg(m.code, ', ' ORDER BY m.code)
+      FROM public.application_modules am
+      JOIN public.modules m ON m.id = am.module_id
+      WHERE am.application_id = _application_id AND am.relation = 'tutor'
+    ), subjects_to_tutor)
+  WHERE id = _application_id;
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Move unfinished applications out of backfilled closed cycles
+-- The recruitment cycle backfill put every existing application into a
+-- closed cycle, including drafts and submissions students can still edit,
+-- which then could never be submitted or changed. Those move into an open
+-- cycle. When no cycle is open, the current semester's cycle is created, or
+-- reopened if the backfill closed it.
+
+INSERT INTO public.recruitment_cycles (name, academic_year, semester, opens_at, closes_at, status)
+SELECT
+  academic_year || ' Semester ' || semester,
+  academic_year,
+  semester,
+  make_timestamptz(academic_year, CASE WHEN semester = 1 THEN 1 ELSE 7 END, 1, 0, 0, 0),
+  make_timestamptz(academic_year, CASE WHEN semester = 1 THEN 6 ELSE 12 END, CASE WHEN semester = 1 THEN 30 ELSE 31 END, 23, 59, 59),
+  'open'
+FROM (
+  SELECT
+    EXTRACT(YEAR FROM now())::INTEGER AS academic_year,
+    CASE WHEN EXTRACT(MONTH FROM now()) <= 6 THEN 1 ELSE 2 END::SMALLINT AS semester
+) AS current_semester
+WHERE NOT EXISTS (SELECT 1 FROM public.recruitment_cycles WHERE status = 'open')
+  AND EXISTS (
+    SELECT 1 FROM public.tutor_applications
+    WHERE status IN ('draft', 'pending') AND public.is_cycle_finished(cycle_id)
+  )
+ON CONFLICT (academic_year, semester) DO UPDATE SET status = 'open';
+
+-- Reviewers' column guard would refuse the cycle_id change, and no user is
+-- signed in while migrations run
+ALTER TABLE public.tutor_applications DISABLE TRIGGER protect_application_review_columns;
+
+UPDATE public.tutor_applications
+SET cycle_id = (
+  SELECT id FROM public.recruitment_cycles
+  WHERE status = 'open'
+  ORDER BY opens_at DESC
+  LIMIT 1
+)
+WHERE status IN ('draft', 'pending')
+  AND public.is_cycle_finished(cycle_id)
+  AND EXISTS (SELECT 1 FROM public.recruitment_cycles WHERE status = 'open');
+
+ALTER TABLE public.tutor_applications ENABLE TRIGGER protect_application_review_columns;